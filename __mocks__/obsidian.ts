@@ -81,11 +81,15 @@ export class Notice {
 export const Platform = {
 	isMobile: false,
 	isDesktop: true,
+	isMobileApp: false,
+	isDesktopApp: true,
 	isWin: false,
 	isMacOS: true,
 	isLinux: false,
 };
 
+export const requestUrl = jest.fn();
+
 export class Component {
 	load() {}
 	unload() {}
@@ -100,10 +104,31 @@ export class TFile {
 	extension: string = "";
 }
 
+export function normalizePath(path: string): string {
+	return path
+		.replace(/\\/g, "/")
+		.replace(/\/+/g, "/")
+		.replace(/^\/|\/$/g, "");
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+	return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer;
+}
+
 export class Vault {
+	getAbstractFileByPath(_path: string): TFile | null {
+		return null;
+	}
 	read() {
 		return Promise.resolve("");
 	}
+	cachedRead(_file: TFile) {
+		return Promise.resolve("");
+	}
 	create() {
 		return Promise.resolve(new TFile(""));
 	}
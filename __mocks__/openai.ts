@@ -61,3 +61,6 @@ export default class OpenAI {
 		},
 	};
 }
+
+// Mock implementation for Azure OpenAI
+export class AzureOpenAI extends OpenAI {}
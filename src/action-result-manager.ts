@@ -8,6 +8,8 @@ import { Location } from "./action";
 type ActionResultPanelUpdateProps = {
 	hasFileOutput?: boolean;
 	defaultLocation?: Location;
+	usageSummary?: string;
+	canRegenerate?: boolean;
 };
 
 type ActionResultPanelProps = {
@@ -17,6 +19,7 @@ type ActionResultPanelProps = {
 	defaultLocation: Location;
 	onAction?: (location: Location) => void;
 	onCancel?: () => void;
+	onRegenerate?: () => void;
 };
 
 type ActionResultPanelExports = {
@@ -41,6 +44,7 @@ export class ActionResultManager {
 		location: Location
 	) => Promise<void>;
 	private onCancelCallback?: () => void;
+	private onRegenerateCallback?: () => void;
 	private globalKeyHandler?: (e: KeyboardEvent) => void;
 
 	constructor(plugin: AIEditor) {
@@ -99,6 +103,9 @@ export class ActionResultManager {
 					onCancel: () => {
 						this.handleCancel();
 					},
+					onRegenerate: () => {
+						this.handleRegenerate();
+					},
 				},
 			}
 		);
@@ -122,7 +129,9 @@ export class ActionResultManager {
 		) => Promise<void>,
 		hasFileOutput: boolean = false,
 		onCancel?: () => void,
-		defaultLocation: Location = Location.REPLACE_CURRENT
+		defaultLocation: Location = Location.REPLACE_CURRENT,
+		usageSummary: string = "",
+		onRegenerate?: () => void
 	): void {
 		// Hide any existing panels first
 		this.hideAllPanels();
@@ -133,11 +142,17 @@ export class ActionResultManager {
 		this.onAcceptCallback = onAccept;
 		this.onLocationActionCallback = onLocationAction;
 		this.onCancelCallback = onCancel;
+		this.onRegenerateCallback = onRegenerate;
 
 		const panel = this.getResultPanel();
 
 		// Update panel props
-		panel.updateProps({ hasFileOutput, defaultLocation });
+		panel.updateProps({
+			hasFileOutput,
+			defaultLocation,
+			usageSummary,
+			canRegenerate: !!onRegenerate,
+		});
 
 		// Position and show the panel
 		this.positionResultPanel();
@@ -210,6 +225,15 @@ export class ActionResultManager {
 		}
 	}
 
+	/**
+	 * Handle regenerate event
+	 */
+	private handleRegenerate(): void {
+		if (this.onRegenerateCallback) {
+			this.onRegenerateCallback();
+		}
+	}
+
 	/**
 	 * Setup global keyboard event handler for escape key
 	 */
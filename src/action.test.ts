@@ -0,0 +1,56 @@
+import { Location, Selection, migrateLegacyMaxOutputTokens } from "./action";
+import type { UserAction } from "./action";
+
+function createAction(extra: Record<string, unknown> = {}): UserAction {
+	return {
+		name: "Summarize",
+		prompt: "Summarize the text",
+		model: "model-1",
+		sel: Selection.CURSOR,
+		loc: Location.INSERT_HEAD,
+		format: "{{result}}",
+		...extra,
+	} as UserAction;
+}
+
+describe("migrateLegacyMaxOutputTokens", () => {
+	it("should move the legacy value into the generation settings", () => {
+		const action = createAction({
+			maxOutputTokens: 2048,
+			generation: { topP: 0.5 },
+		});
+
+		expect(migrateLegacyMaxOutputTokens(action)).toBe(true);
+		expect(action).not.toHaveProperty("maxOutputTokens");
+		expect(action.generation).toEqual({
+			topP: 0.5,
+			maxOutputTokens: 2048,
+		});
+	});
+
+	it("should keep a generation value that is already set", () => {
+		const action = createAction({
+			maxOutputTokens: 2048,
+			generation: { maxOutputTokens: 512 },
+		});
+
+		expect(migrateLegacyMaxOutputTokens(action)).toBe(true);
+		expect(action).not.toHaveProperty("maxOutputTokens");
+		expect(action.generation).toEqual({ maxOutputTokens: 512 });
+	});
+
+	it("should drop a legacy field without a value", () => {
+		const action = createAction({ maxOutputTokens: undefined });
+
+		expect(migrateLegacyMaxOutputTokens(action)).toBe(true);
+		expect(action).not.toHaveProperty("maxOutputTokens");
+		expect(action.generation).toBeUndefined();
+	});
+
+	it("should leave current actions unchanged", () => {
+		const action = createAction({ generation: { topP: 0.9 } });
+
+		expect(migrateLegacyMaxOutputTokens(action)).toBe(false);
+		expect(action.generation).toEqual({ topP: 0.9 });
+	});
+});
@@ -1,4 +1,10 @@
-import type { AIModel, AIProviderType } from "./types";
+import type {
+	AIModel,
+	AIProviderType,
+	GenerationSettings,
+	ImageGenerationSettings,
+	ReasoningEffort,
+} from "./types";
 import type { AIEditorSettings } from "./settings";
 import { waitForAI } from "@obsidian-ai-providers/sdk";
 
@@ -16,16 +22,25 @@ export enum Location {
 	REPLACE_CURRENT = "REPLACE_CURRENT",
 }
 
+// Text actions send the prompt to a chat model; image actions generate an
+// image and insert an embed
+export type ActionKind = "text" | "image";
+
 export interface UserAction {
 	name: string;
 	prompt: string;
 	model: string; // Now stores model ID instead of OpenAIModel
+	fallbackModels?: string[]; // Model IDs tried in order when the model fails
 	sel: Selection;
 	loc: Location;
 	format: string;
 	temperature?: number; // Temperature setting for AI model
+	generation?: GenerationSettings; // Overrides the model's defaults
+	reasoningEffort?: ReasoningEffort; // Overrides the model's reasoning effort
 	locationExtra?: { fileName: string };
 	showModalWindow?: boolean; // Show modal window with results
+	kind?: ActionKind; // Unset means text
+	image?: ImageGenerationSettings; // Image actions only
 }
 
 const SELECTION_SETTING: { [key: string]: string } = {
@@ -116,3 +131,28 @@ export function modelDictionary(
 	}
 	return dictionary;
 }
+
+// Actions used to store maxOutputTokens at the top level; it now belongs
+// with the other generation settings. Returns whether the action changed.
+export function migrateLegacyMaxOutputTokens(action: UserAction): boolean {
+	const legacyAction = action as UserAction & {
+		maxOutputTokens?: number;
+	};
+
+	if (
+		!Object.prototype.hasOwnProperty.call(legacyAction, "maxOutputTokens")
+	) {
+		return false;
+	}
+
+	const { maxOutputTokens } = legacyAction;
+	delete legacyAction.maxOutputTokens;
+
+	if (
+		typeof maxOutputTokens === "number" &&
+		action.generation?.maxOutputTokens === undefined
+	) {
+		action.generation = { ...action.generation, maxOutputTokens };
+	}
+	return true;
+}
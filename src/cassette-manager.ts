@@ -0,0 +1,81 @@
+import type AIEditor from "./main";
+import {
+	createCassette,
+	parseCassette,
+	setActiveCassette,
+} from "./llm/cassette";
+import type { Cassette } from "./llm/cassette";
+import {
+	getPluginFilePath,
+	readPluginFile,
+	writePluginFile,
+} from "./utils/pluginFiles";
+
+export const DEFAULT_CASSETTE_NAME = "default";
+
+/**
+ * Development mode cassettes: records provider traffic into a JSON file in
+ * the plugin folder, or replays that file instead of calling providers
+ */
+export class CassetteManager {
+	plugin: AIEditor;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(plugin: AIEditor) {
+		this.plugin = plugin;
+	}
+
+	getCassettePath(): string {
+		const name =
+			this.plugin.settings.cassetteName?.trim() || DEFAULT_CASSETTE_NAME;
+		return getPluginFilePath(this.plugin, `cassettes/${name}.json`);
+	}
+
+	/**
+	 * Start or stop the cassette chosen in settings.
+	 * Recording starts an empty cassette that replaces the file on the first response.
+	 */
+	async apply(): Promise<void> {
+		const { developmentMode, cassetteMode = "off" } = this.plugin.settings;
+		if (!developmentMode || cassetteMode === "off") {
+			setActiveCassette(null);
+			return;
+		}
+
+		const path = this.getCassettePath();
+		if (cassetteMode === "record") {
+			setActiveCassette({
+				mode: "record",
+				cassette: createCassette(),
+				onRecord: cassette => this.save(path, cassette),
+			});
+			return;
+		}
+
+		const text = await readPluginFile(this.plugin, path);
+		const cassette = text ? parseCassette(text) : createCassette();
+		if (cassette.interactions.length === 0) {
+			console.warn(`Cassette is empty or missing: ${path}`);
+		}
+		setActiveCassette({ mode: "replay", cassette });
+	}
+
+	private save(path: string, cassette: Cassette) {
+		// Writes are chained so a slow write never overtakes a later one
+		this.saveQueue = this.saveQueue
+			.then(() =>
+				writePluginFile(
+					this.plugin,
+					path,
+					JSON.stringify(cassette, null, "\t")
+				)
+			)
+			.catch(error => {
+				console.error("Failed to save cassette:", error);
+			});
+	}
+
+	destroy() {
+		setActiveCassette(null);
+	}
+}
@@ -0,0 +1,99 @@
+import { Setting } from "obsidian";
+import type { FilterableDropdownOption } from "./FilterableDropdown";
+
+/**
+ * Ordered list of fallback models for an action.
+ * Models are tried top to bottom when the primary model fails.
+ */
+export class FallbackModelList {
+	private containerEl: HTMLElement;
+	private options: FilterableDropdownOption[];
+	private selectedValues: string[];
+	private onChange: (values: string[]) => void;
+
+	constructor(
+		containerEl: HTMLElement,
+		options: FilterableDropdownOption[],
+		selectedValues: string[],
+		onChange: (values: string[]) => void
+	) {
+		this.containerEl = containerEl;
+		this.options = options;
+		this.selectedValues = [...selectedValues];
+		this.onChange = onChange;
+
+		this.render();
+	}
+
+	private getLabel(value: string): string {
+		const option = this.options.find(o => o.value === value);
+		// Option labels put the provider on a second line
+		return option ? option.label.replace("\n", " ") : value;
+	}
+
+	private update(values: string[]) {
+		this.selectedValues = values;
+		this.onChange([...values]);
+		this.render();
+	}
+
+	private render() {
+		this.containerEl.empty();
+
+		this.selectedValues.forEach((value, index) => {
+			new Setting(this.containerEl)
+				.setName(`${index + 1}. ${this.getLabel(value)}`)
+				.addExtraButton(button => {
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Try earlier")
+						.setDisabled(index === 0)
+						.onClick(() => {
+							if (index === 0) return;
+							const values = [...this.selectedValues];
+							[values[index - 1], values[index]] = [
+								values[index],
+								values[index - 1],
+							];
+							this.update(values);
+						});
+				})
+				.addExtraButton(button => {
+					button
+						.setIcon("x")
+						.setTooltip("Remove")
+						.onClick(() => {
+							this.update(
+								this.selectedValues.filter(
+									(_, i) => i !== index
+								)
+							);
+						});
+				});
+		});
+
+		const remaining = this.options.filter(
+			option => !this.selectedValues.includes(option.value)
+		);
+		if (remaining.length === 0) {
+			return;
+		}
+
+		new Setting(this.containerEl)
+			.setName("Add fallback model")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "Select model");
+				remaining.forEach(option => {
+					dropdown.addOption(
+						option.value,
+						this.getLabel(option.value)
+					);
+				});
+				dropdown.setValue("").onChange(value => {
+					if (value) {
+						this.update([...this.selectedValues, value]);
+					}
+				});
+			});
+	}
+}
@@ -3,6 +3,8 @@ import type { AIModel } from "../types";
 export interface FilterableDropdownOption {
 	value: string;
 	label: string;
+	/** Secondary line, e.g. the model's capabilities */
+	description?: string;
 	model: AIModel;
 }
 
@@ -215,6 +217,12 @@ export class FilterableDropdown {
 				"ai-actions-filterable-dropdown-option"
 			);
 			optionEl.textContent = option.label;
+			if (option.description) {
+				optionEl.createDiv({
+					cls: "ai-actions-filterable-dropdown-option-description",
+					text: option.description,
+				});
+			}
 			optionEl.setAttribute("data-value", option.value);
 
 			if (option.value === this.selectedValue) {
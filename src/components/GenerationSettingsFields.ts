@@ -0,0 +1,131 @@
+import { Setting } from "obsidian";
+import type { GenerationSettings } from "../types";
+
+type NumberKey = Exclude<keyof GenerationSettings, "stop">;
+
+interface NumberField {
+	key: NumberKey;
+	name: string;
+	desc: string;
+	integer?: boolean;
+	min?: number;
+	max?: number;
+}
+
+const NUMBER_FIELDS: NumberField[] = [
+	{
+		key: "maxOutputTokens",
+		name: "Max output tokens",
+		desc: "Upper limit for generated tokens, including reasoning",
+		integer: true,
+		min: 1,
+	},
+	{
+		key: "topP",
+		name: "Top P",
+		desc: "Nucleus sampling, from 0 to 1",
+		min: 0,
+		max: 1,
+	},
+	{
+		key: "seed",
+		name: "Seed",
+		desc: "Fixed seed for more repeatable output, where supported",
+		integer: true,
+	},
+	{
+		key: "presencePenalty",
+		name: "Presence penalty",
+		desc: "From -2 to 2; higher values favor new topics",
+		min: -2,
+		max: 2,
+	},
+	{
+		key: "frequencyPenalty",
+		name: "Frequency penalty",
+		desc: "From -2 to 2; higher values reduce repetition",
+		min: -2,
+		max: 2,
+	},
+];
+
+function parseNumber(value: string, field: NumberField): number | undefined {
+	const number = Number(value.trim());
+	if (value.trim() === "" || !Number.isFinite(number)) {
+		return undefined;
+	}
+	if (field.integer && !Number.isInteger(number)) {
+		return undefined;
+	}
+	if (
+		(field.min !== undefined && number < field.min) ||
+		(field.max !== undefined && number > field.max)
+	) {
+		return undefined;
+	}
+	return number;
+}
+
+/**
+ * Inputs for max output tokens, top P, stop sequences, seed and penalties.
+ * Empty or invalid inputs leave the value unset; placeholders show the
+ * values that apply instead (e.g. the model's defaults on an action).
+ */
+export class GenerationSettingsFields {
+	private values: GenerationSettings;
+	private onChange: (values: GenerationSettings | undefined) => void;
+
+	constructor(
+		containerEl: HTMLElement,
+		values: GenerationSettings | undefined,
+		onChange: (values: GenerationSettings | undefined) => void,
+		placeholders: GenerationSettings = {}
+	) {
+		this.values = { ...values };
+		this.onChange = onChange;
+
+		NUMBER_FIELDS.forEach(field => {
+			new Setting(containerEl)
+				.setName(field.name)
+				.setDesc(field.desc)
+				.addText(text => {
+					text.setPlaceholder(
+						placeholders[field.key]?.toString() ?? ""
+					)
+						.setValue(this.values[field.key]?.toString() ?? "")
+						.onChange(value => {
+							this.update(field.key, parseNumber(value, field));
+						});
+				});
+		});
+
+		new Setting(containerEl)
+			.setName("Stop sequences")
+			.setDesc("Generation stops at any of these, one per line")
+			.addTextArea(text => {
+				text.setPlaceholder(placeholders.stop?.join("\n") ?? "")
+					.setValue(this.values.stop?.join("\n") ?? "")
+					.onChange(value => {
+						const stop = value
+							.split("\n")
+							.filter(line => line.trim() !== "");
+						this.update("stop", stop.length ? stop : undefined);
+					});
+			});
+	}
+
+	private update<K extends keyof GenerationSettings>(
+		key: K,
+		value: GenerationSettings[K]
+	) {
+		if (value === undefined) {
+			delete this.values[key];
+		} else {
+			this.values[key] = value;
+		}
+
+		this.onChange(
+			Object.keys(this.values).length ? { ...this.values } : undefined
+		);
+	}
+}
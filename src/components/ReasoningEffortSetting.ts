@@ -0,0 +1,68 @@
+import { Setting, TextComponent } from "obsidian";
+import type { ReasoningEffort } from "../types";
+
+const DEFAULT_BUDGET = 4096;
+
+/**
+ * Reasoning effort picker: a level from the dropdown, or a thinking
+ * token budget typed next to it when "Token budget" is selected.
+ */
+export class ReasoningEffortSetting {
+	private budgetText: TextComponent | null = null;
+
+	constructor(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		defaultLabel: string,
+		value: ReasoningEffort | undefined,
+		onChange: (value: ReasoningEffort | undefined) => void
+	) {
+		const isBudget = typeof value === "number";
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions({
+						default: defaultLabel,
+						off: "Off",
+						low: "Low",
+						medium: "Medium",
+						high: "High",
+						budget: "Token budget",
+					})
+					.setValue(isBudget ? "budget" : (value ?? "default"))
+					.onChange(option => {
+						this.budgetText?.setDisabled(option !== "budget");
+
+						if (option === "default") {
+							onChange(undefined);
+						} else if (option === "budget") {
+							const budget = parseInt(
+								this.budgetText?.getValue() ?? ""
+							);
+							onChange(budget > 0 ? budget : DEFAULT_BUDGET);
+							this.budgetText?.setValue(
+								String(budget > 0 ? budget : DEFAULT_BUDGET)
+							);
+						} else {
+							onChange(option as ReasoningEffort);
+						}
+					});
+			})
+			.addText(text => {
+				this.budgetText = text;
+				text.setPlaceholder(String(DEFAULT_BUDGET))
+					.setValue(isBudget ? String(value) : "")
+					.setDisabled(!isBudget)
+					.onChange(input => {
+						const budget = parseInt(input);
+						if (budget > 0) {
+							onChange(budget);
+						}
+					});
+			});
+	}
+}
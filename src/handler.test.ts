@@ -1,7 +1,10 @@
 import { ActionHandler, PromptProcessor, StreamingProcessor } from "./handler";
 import type { StreamingConfig, PromptConfig, PluginInterface } from "./handler";
 import { LLMFactory } from "./llm/factory";
+import { ProviderError } from "./llm/errors";
+import { createAbortError } from "./utils/abort";
 import type { LLM } from "./llm/base";
+import type { ChatOptions, ChatRequest } from "./llm/chat";
 import type { ActionResultManager } from "./action-result-manager";
 import type { UserAction } from "./action";
 import { Selection, Location } from "./action";
@@ -10,6 +13,7 @@ import {
 	App,
 	Command,
 	MarkdownView,
+	Notice,
 	Editor,
 	type EditorPosition,
 	type Vault,
@@ -27,6 +31,7 @@ jest.mock("obsidian", () => ({
 	Notice: jest.fn(),
 	MarkdownView: jest.fn(),
 	App: jest.fn(),
+	arrayBufferToBase64: jest.fn(() => "iVBORw0KGgo="),
 }));
 jest.mock("./spinnerPlugin", () => ({
 	spinnerPlugin: jest.fn(),
@@ -50,10 +55,8 @@ describe("StreamingProcessor", () => {
 		};
 	};
 	let mockLLM: {
-		autocomplete: jest.Mock<
-			ReturnType<LLM["autocomplete"]>,
-			Parameters<LLM["autocomplete"]>
-		>;
+		chat: jest.Mock<ReturnType<LLM["chat"]>, Parameters<LLM["chat"]>>;
+		queryTimeout: number;
 	};
 	let mockLLMFactory: jest.Mocked<LLMFactory>;
 
@@ -97,10 +100,8 @@ describe("StreamingProcessor", () => {
 
 		// Mock LLM
 		mockLLM = {
-			autocomplete: jest.fn<
-				ReturnType<LLM["autocomplete"]>,
-				Parameters<LLM["autocomplete"]>
-			>(),
+			chat: jest.fn<ReturnType<LLM["chat"]>, Parameters<LLM["chat"]>>(),
+			queryTimeout: 45000,
 		};
 
 		// Mock LLMFactory
@@ -165,12 +166,9 @@ describe("StreamingProcessor", () => {
 
 		it("should process streaming successfully", async () => {
 			// Mock successful streaming
-			mockLLM.autocomplete.mockImplementation(
-				(
-					prompt: string,
-					input: string,
-					onToken?: (token: string) => void
-				) => {
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					const onToken = options?.callback;
 					// Simulate streaming tokens
 					onToken?.("Hello");
 					onToken?.(" world");
@@ -182,35 +180,138 @@ describe("StreamingProcessor", () => {
 			await streamingProcessor.processStreaming(mockConfig);
 
 			expect(llmFactoryCreateSpy).toHaveBeenCalledWith("test-model");
-			expect(mockLLM.autocomplete).toHaveBeenCalledWith(
-				"Test prompt: {{input}}",
-				"test input",
-				expect.any(Function),
-				0.7,
-				undefined,
-				true,
-				true
+			expect(mockLLM.chat).toHaveBeenCalledWith(
+				{
+					system: "Test prompt: {{input}}",
+					messages: [{ role: "user", content: "test input" }],
+					params: { temperature: 0.7 },
+				},
+				{
+					callback: expect.any(Function) as unknown,
+					streaming: true,
+					systemPromptSupport: true,
+					signal: expect.any(AbortSignal) as unknown,
+					onRetry: expect.any(Function) as unknown,
+					onQueued: expect.any(Function) as unknown,
+					onUsage: expect.any(Function) as unknown,
+				}
 			);
 			expect(mockConfig.onToken).toHaveBeenCalledTimes(3);
-			expect(mockConfig.onComplete).toHaveBeenCalledWith("Hello world!");
+			expect(mockConfig.onComplete).toHaveBeenCalledWith(
+				"Hello world!",
+				undefined
+			);
 			expect(streamingProcessor.getCurrentResult()).toBe("Hello world!");
 			expect(streamingProcessor.isStreaming()).toBe(false);
 		});
 
 		it("should handle streaming errors properly", async () => {
 			const testError = new Error("Streaming failed");
-			mockLLM.autocomplete.mockRejectedValue(testError);
+			mockLLM.chat.mockRejectedValue(testError);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
-			expect(mockConfig.onError).toHaveBeenCalledWith(testError);
+			expect(mockConfig.onError).toHaveBeenCalledWith(testError, true);
 			expect(mockConfig.onComplete).not.toHaveBeenCalled();
 			expect(streamingProcessor.isStreaming()).toBe(false);
 		});
 
+		it("should close a stream that stops sending output", async () => {
+			mockLLM.queryTimeout = 20;
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					options?.callback?.("Hello");
+					// The stream stalls until it is aborted
+					return new Promise<void>((_resolve, reject) => {
+						const signal = options!.signal!;
+						signal.addEventListener("abort", () => {
+							reject(createAbortError(signal));
+						});
+					});
+				}
+			);
+
+			await streamingProcessor.processStreaming(mockConfig);
+
+			expect(mockConfig.onError).toHaveBeenCalledWith(
+				expect.objectContaining({ kind: "timeout" }),
+				true
+			);
+			expect(mockConfig.onCancel).not.toHaveBeenCalled();
+			expect(mockConfig.onComplete).not.toHaveBeenCalled();
+		});
+
+		it("sends embedded images only to models that accept them", async () => {
+			const image = { mimeType: "image/png", data: "iVBORw0KGgo=" };
+			mockLLM.chat.mockResolvedValue(undefined);
+			mockLLMFactory.getImageSupport = jest
+				.fn<boolean, [string]>()
+				.mockReturnValue(true);
+
+			await streamingProcessor.processStreaming({
+				...mockConfig,
+				images: [image],
+			});
+			expect(mockLLM.chat.mock.calls[0][0].messages).toEqual([
+				{ role: "user", content: "test input", images: [image] },
+			]);
+
+			mockLLMFactory.getImageSupport.mockReturnValue(false);
+			await streamingProcessor.processStreaming({
+				...mockConfig,
+				images: [image],
+			});
+			expect(mockLLM.chat.mock.calls[1][0].messages).toEqual([
+				{ role: "user", content: "test input" },
+			]);
+			expect(Notice).toHaveBeenCalledWith(
+				expect.stringContaining("does not accept images"),
+				8000
+			);
+		});
+
+		it("summarizes chunks first when the input exceeds the context", async () => {
+			mockLLMFactory.getContextLength = jest
+				.fn<number | undefined, [string]>()
+				.mockReturnValue(2000);
+			const section = `## Section\n\n${"word ".repeat(800)}\n\n`;
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					options?.onUsage?.({ inputTokens: 10, outputTokens: 2 });
+					if (!options?.streaming) {
+						return Promise.resolve("partial");
+					}
+					options.callback?.("Combined");
+					return Promise.resolve();
+				}
+			);
+
+			await streamingProcessor.processStreaming({
+				...mockConfig,
+				input: section.repeat(3),
+			});
+
+			const requests = mockLLM.chat.mock.calls.map(
+				([request]) => request
+			);
+			expect(requests).toHaveLength(4);
+			expect(requests[0].system).toContain("part 1 of 3");
+			expect(requests[3].messages).toEqual([
+				{
+					role: "user",
+					content:
+						"Part 1:\npartial\n\n---\n\nPart 2:\npartial\n\n---\n\nPart 3:\npartial",
+				},
+			]);
+			expect(mockConfig.onComplete).toHaveBeenCalledWith("Combined", {
+				inputTokens: 40,
+				outputTokens: 8,
+			});
+		});
+
 		it("should prevent multiple concurrent streaming operations", async () => {
 			// Mock a long-running streaming operation
-			mockLLM.autocomplete.mockImplementation(
+			mockLLM.chat.mockImplementation(
 				() => new Promise(resolve => setTimeout(resolve, 1000))
 			);
 
@@ -232,12 +333,9 @@ describe("StreamingProcessor", () => {
 			let tokenCallback: ((token: string) => void) | undefined;
 
 			// Mock streaming that we can control
-			mockLLM.autocomplete.mockImplementation(
-				(
-					prompt: string,
-					input: string,
-					onToken?: (token: string) => void
-				) => {
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					const onToken = options?.callback;
 					tokenCallback = onToken;
 					// Simulate a long-running operation
 					return new Promise<void>(resolve =>
@@ -268,15 +366,43 @@ describe("StreamingProcessor", () => {
 			expect(streamingProcessor.getCurrentResult()).toBe(""); // Should be cleared
 		});
 
+		it("should abort the provider request on cancellation", async () => {
+			let receivedSignal: AbortSignal | undefined;
+
+			// Mock a provider that stops only when its signal is aborted
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					receivedSignal = options?.signal;
+					return new Promise<void>((_resolve, reject) => {
+						receivedSignal?.addEventListener("abort", () => {
+							const abortError = new Error("Request aborted");
+							abortError.name = "AbortError";
+							reject(abortError);
+						});
+					});
+				}
+			);
+
+			const streamingPromise =
+				streamingProcessor.processStreaming(mockConfig);
+			await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+			expect(receivedSignal?.aborted).toBe(false);
+			streamingProcessor.cancel();
+			await streamingPromise;
+
+			expect(receivedSignal?.aborted).toBe(true);
+			expect(mockConfig.onCancel).toHaveBeenCalled();
+			expect(mockConfig.onError).not.toHaveBeenCalled();
+			expect(streamingProcessor.isStreaming()).toBe(false);
+		});
+
 		it("should accumulate tokens correctly", async () => {
 			const tokens = ["Hello", " ", "world", "!"];
 
-			mockLLM.autocomplete.mockImplementation(
-				(
-					prompt: string,
-					input: string,
-					onToken?: (token: string) => void
-				) => {
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					const onToken = options?.callback;
 					for (const token of tokens) {
 						onToken?.(token);
 					}
@@ -296,18 +422,23 @@ describe("StreamingProcessor", () => {
 
 		it("should handle user prompt parameter", async () => {
 			mockConfig.userPrompt = "Custom user prompt";
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
-			expect(mockLLM.autocomplete).toHaveBeenCalledWith(
-				"Test prompt: {{input}}",
-				"test input",
-				expect.any(Function),
-				0.7,
-				"Custom user prompt",
-				true,
-				true
+			expect(mockLLM.chat).toHaveBeenCalledWith(
+				{
+					system: "Test prompt: {{input}}",
+					messages: [
+						{ role: "user", content: "Custom user prompt" },
+						{ role: "user", content: "test input" },
+					],
+					params: { temperature: 0.7 },
+				},
+				expect.objectContaining({
+					streaming: true,
+					signal: expect.any(AbortSignal) as unknown,
+				})
 			);
 		});
 	});
@@ -364,7 +495,7 @@ describe("StreamingProcessor", () => {
 				"removeEventListener"
 			);
 
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			const mockConfig: StreamingConfig = {
 				action: {
@@ -411,7 +542,7 @@ describe("StreamingProcessor", () => {
 				});
 
 			// Mock long-running streaming
-			mockLLM.autocomplete.mockImplementation(
+			mockLLM.chat.mockImplementation(
 				() => new Promise(resolve => setTimeout(resolve, 1000))
 			);
 
@@ -474,7 +605,7 @@ describe("StreamingProcessor", () => {
 				{ id: "app:toggle-keyboard", name: "Toggle Keyboard" },
 			]);
 
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			const mockConfig: StreamingConfig = {
 				action: {
@@ -538,7 +669,7 @@ describe("StreamingProcessor", () => {
 
 			await streamingProcessor.processStreaming(mockConfig);
 
-			expect(mockConfig.onError).toHaveBeenCalledWith(testError);
+			expect(mockConfig.onError).toHaveBeenCalledWith(testError, true);
 			expect(streamingProcessor.isStreaming()).toBe(false);
 		});
 
@@ -546,12 +677,12 @@ describe("StreamingProcessor", () => {
 			mockLLMFactory.getProviderNameSync.mockImplementation(() => {
 				throw new Error("Provider not found");
 			});
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
 			// Should still proceed with streaming despite provider name error
-			expect(mockLLM.autocomplete).toHaveBeenCalled();
+			expect(mockLLM.chat).toHaveBeenCalled();
 			expect(mockConfig.onComplete).toHaveBeenCalled();
 		});
 
@@ -560,12 +691,9 @@ describe("StreamingProcessor", () => {
 				throw new Error("Token callback error");
 			});
 
-			mockLLM.autocomplete.mockImplementation(
-				(
-					prompt: string,
-					content: string,
-					onToken?: (token: string) => void
-				) => {
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					const onToken = options?.callback;
 					onToken?.("token1");
 					onToken?.("token2");
 					return Promise.resolve();
@@ -575,7 +703,10 @@ describe("StreamingProcessor", () => {
 			await streamingProcessor.processStreaming(mockConfig);
 
 			// Should complete despite token callback errors
-			expect(mockConfig.onComplete).toHaveBeenCalledWith("token1token2");
+			expect(mockConfig.onComplete).toHaveBeenCalledWith(
+				"token1token2",
+				undefined
+			);
 			expect(streamingProcessor.getCurrentResult()).toBe("token1token2");
 		});
 
@@ -585,12 +716,9 @@ describe("StreamingProcessor", () => {
 				throw callbackError;
 			});
 
-			mockLLM.autocomplete.mockImplementation(
-				(
-					prompt: string,
-					content: string,
-					onToken?: (token: string) => void
-				) => {
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					const onToken = options?.callback;
 					onToken?.("test result");
 					return Promise.resolve();
 				}
@@ -598,7 +726,10 @@ describe("StreamingProcessor", () => {
 
 			await streamingProcessor.processStreaming(mockConfig);
 
-			expect(mockConfig.onError).toHaveBeenCalledWith(callbackError);
+			expect(mockConfig.onError).toHaveBeenCalledWith(
+				callbackError,
+				true
+			);
 			expect(streamingProcessor.isStreaming()).toBe(false);
 		});
 
@@ -612,7 +743,7 @@ describe("StreamingProcessor", () => {
 				.fn()
 				.mockReturnValue(mockEditor);
 
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
@@ -629,7 +760,7 @@ describe("StreamingProcessor", () => {
 			streamingProcessor["getActiveEditor"] = jest
 				.fn()
 				.mockReturnValue(mockEditor);
-			mockLLM.autocomplete.mockResolvedValue(undefined);
+			mockLLM.chat.mockResolvedValue(undefined);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
@@ -640,7 +771,7 @@ describe("StreamingProcessor", () => {
 
 		it("should show user-friendly error notices", async () => {
 			const networkError = new Error("network timeout");
-			mockLLM.autocomplete.mockRejectedValue(networkError);
+			mockLLM.chat.mockRejectedValue(networkError);
 
 			await streamingProcessor.processStreaming(mockConfig);
 
@@ -654,6 +785,41 @@ describe("StreamingProcessor", () => {
 			);
 		});
 
+		it("should report token usage and cost when the provider returns it", async () => {
+			mockSettings.aiProviders.models.push({
+				id: "test-model",
+				name: "Test Model",
+				providerId: "test-provider",
+				modelName: "test",
+				pricing: { input: 1, output: 2 },
+			});
+			mockLLM.chat.mockImplementation(
+				(_request: ChatRequest, options?: ChatOptions) => {
+					options?.callback?.("Done");
+					options?.onUsage?.({
+						inputTokens: 1000,
+						outputTokens: 500,
+						reasoningTokens: 200,
+					});
+					return Promise.resolve();
+				}
+			);
+
+			await streamingProcessor.processStreaming(mockConfig);
+
+			const obsidianMock = jest.requireMock("obsidian") as unknown as {
+				Notice: jest.Mock;
+			};
+			expect(obsidianMock.Notice).toHaveBeenCalledWith(
+				"Test Model: 1000 in · 500 out (200 reasoning) · $0.0020"
+			);
+			expect(mockConfig.onComplete).toHaveBeenCalledWith("Done", {
+				inputTokens: 1000,
+				outputTokens: 500,
+				reasoningTokens: 200,
+			});
+		});
+
 		it("should handle concurrent streaming attempts properly", async () => {
 			// Start first streaming
 			const firstPromise =
@@ -673,7 +839,7 @@ describe("StreamingProcessor", () => {
 		});
 
 		it("should handle cancellation during error scenarios", async () => {
-			mockLLM.autocomplete.mockImplementation(() => {
+			mockLLM.chat.mockImplementation(() => {
 				// Cancel during streaming
 				streamingProcessor.cancel();
 				throw new Error("Streaming error");
@@ -880,7 +1046,9 @@ describe("PromptProcessor", () => {
 				expect.any(Function), // onLocationAction
 				false, // hasFileOutput
 				expect.any(Function), // onCancel
-				"REPLACE_CURRENT" // location
+				"REPLACE_CURRENT", // location
+				"", // usage summary
+				expect.any(Function) // onRegenerate
 			);
 
 			expect(mockEditor.focus).toHaveBeenCalledTimes(2); // Before and after streaming
@@ -892,7 +1060,7 @@ describe("PromptProcessor", () => {
 			// Mock streaming error
 			mockStreamingProcessor.processStreaming.mockImplementation(
 				(config: StreamingConfig) => {
-					config.onError(testError);
+					config.onError(testError, false);
 					return Promise.reject(testError);
 				}
 			);
@@ -910,6 +1078,149 @@ describe("PromptProcessor", () => {
 			).not.toHaveBeenCalled();
 		});
 
+		it("should retry on the next fallback model and report it", async () => {
+			mockSettings.aiProviders.models.push({
+				id: "backup-model",
+				name: "Backup Model",
+				providerId: "test-provider",
+				modelName: "backup",
+			});
+			mockAction.fallbackModels = ["backup-model"];
+			const showNotice: Array<boolean | undefined> = [];
+			mockStreamingProcessor.processStreaming.mockImplementation(
+				(config: StreamingConfig) => {
+					if (config.action.model === "test-model") {
+						const error = new ProviderError(
+							"Groq API error: 503 Service Unavailable",
+							{ status: 503 }
+						);
+						showNotice.push(config.shouldShowErrorNotice?.(error));
+						config.onError(error, false);
+					} else {
+						config.onComplete("Backup result");
+					}
+					return Promise.resolve();
+				}
+			);
+
+			await promptProcessor.processPrompt(mockConfig);
+
+			const calls = mockStreamingProcessor.processStreaming.mock.calls;
+			expect(calls).toHaveLength(2);
+			// The backup model gets its chance before anything is shown
+			expect(showNotice).toEqual([false]);
+			expect(calls[1][0].action.model).toBe("backup-model");
+
+			const obsidianMock = jest.requireMock("obsidian") as unknown as {
+				Notice: jest.Mock;
+			};
+			expect(obsidianMock.Notice).toHaveBeenCalledWith(
+				"Result from fallback model Backup Model"
+			);
+			expect(
+				mockActionResultManager.showResultPanel
+			).toHaveBeenCalledWith(
+				"Backup result",
+				null,
+				expect.any(Function),
+				expect.any(Function),
+				false,
+				expect.any(Function),
+				"REPLACE_CURRENT",
+				"via Backup Model",
+				expect.any(Function)
+			);
+		});
+
+		it("should not use fallback models for request errors", async () => {
+			mockAction.fallbackModels = ["backup-model"];
+			let showNotice: boolean | undefined;
+			mockStreamingProcessor.processStreaming.mockImplementation(
+				(config: StreamingConfig) => {
+					const error = new Error("Groq API error: 400 Bad Request");
+					showNotice = config.shouldShowErrorNotice?.(error);
+					config.onError(error, showNotice ?? true);
+					return Promise.resolve();
+				}
+			);
+
+			await expect(
+				promptProcessor.processPrompt(mockConfig)
+			).rejects.toThrow("400 Bad Request");
+			expect(
+				mockStreamingProcessor.processStreaming
+			).toHaveBeenCalledTimes(1);
+			// No other model will explain the failure
+			expect(showNotice).toBe(true);
+		});
+
+		it("should explain failures after partial output instead of falling back", async () => {
+			mockAction.fallbackModels = ["backup-model"];
+			let showNotice: boolean | undefined;
+			mockStreamingProcessor.processStreaming.mockImplementation(
+				(config: StreamingConfig) => {
+					const error = new Error(
+						"Groq API error: 503 Service Unavailable"
+					);
+					config.onToken("Partial");
+					showNotice = config.shouldShowErrorNotice?.(error);
+					config.onError(error, showNotice ?? true);
+					return Promise.resolve();
+				}
+			);
+
+			await expect(
+				promptProcessor.processPrompt(mockConfig)
+			).rejects.toThrow("503 Service Unavailable");
+			expect(
+				mockStreamingProcessor.processStreaming
+			).toHaveBeenCalledTimes(1);
+			expect(showNotice).toBe(true);
+		});
+
+		it("should explain provider errors that were not shown while streaming", async () => {
+			const obsidianMock = jest.requireMock("obsidian") as unknown as {
+				Notice: jest.Mock;
+			};
+			mockStreamingProcessor.processStreaming.mockImplementation(
+				(config: StreamingConfig) => {
+					config.onError(
+						new ProviderError("Groq API error: 400 Bad Request"),
+						false
+					);
+					return Promise.resolve();
+				}
+			);
+
+			await expect(
+				promptProcessor.processPrompt(mockConfig)
+			).rejects.toThrow("400 Bad Request");
+			expect(obsidianMock.Notice).toHaveBeenCalledWith(
+				"Prompt processing error: Groq API error: 400 Bad Request",
+				6000
+			);
+		});
+
+		it("should not repeat a notice StreamingProcessor already showed", async () => {
+			const obsidianMock = jest.requireMock("obsidian") as unknown as {
+				Notice: jest.Mock;
+			};
+			mockStreamingProcessor.processStreaming.mockImplementation(
+				(config: StreamingConfig) => {
+					config.onError(
+						new ProviderError("Groq API error: 400 Bad Request"),
+						true
+					);
+					return Promise.resolve();
+				}
+			);
+
+			await expect(
+				promptProcessor.processPrompt(mockConfig)
+			).rejects.toThrow("400 Bad Request");
+			expect(obsidianMock.Notice).not.toHaveBeenCalled();
+		});
+
 		it("should handle empty streaming result", async () => {
 			// Mock empty result
 			mockStreamingProcessor.processStreaming.mockImplementation(
@@ -1519,6 +1830,141 @@ describe("ActionHandler Integration Tests", () => {
 			});
 		});
 
+		it("should send a copied screenshot as an image input", async () => {
+			mockAction.sel = Selection.CLIPBOARD;
+			const screenshot = {
+				type: "image/png",
+				size: 8,
+				arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
+			};
+			Object.assign(navigator, {
+				clipboard: {
+					read: jest.fn().mockResolvedValue([
+						{
+							types: ["image/png"],
+							getType: jest.fn().mockResolvedValue(screenshot),
+						},
+					]),
+				},
+			});
+			const processPromptSpy = jest
+				.spyOn(PromptProcessor.prototype, "processPrompt")
+				.mockResolvedValue(undefined);
+
+			await actionHandler.process(
+				mockApp,
+				mockSettings,
+				mockAction,
+				mockEditor as unknown as Editor,
+				mockView
+			);
+
+			expect(processPromptSpy).toHaveBeenCalledWith(
+				expect.objectContaining({
+					input: "",
+					images: [{ mimeType: "image/png", data: "iVBORw0KGgo=" }],
+				})
+			);
+		});
+
+		it("should save generated images as attachments and embed them", async () => {
+			mockAction.kind = "image";
+			mockAction.image = { size: "1024x1024" };
+			const image = new ArrayBuffer(8);
+			const generateImage = jest.fn().mockResolvedValue(image);
+			(
+				actionHandler as unknown as {
+					llmFactory: { generateImage: jest.Mock };
+				}
+			).llmFactory.generateImage = generateImage;
+			const createBinary = jest
+				.fn()
+				.mockResolvedValue({ path: "attachments/Generated image.png" });
+			const app = {
+				fileManager: {
+					getAvailablePathForAttachment: jest
+						.fn()
+						.mockResolvedValue("attachments/Generated image.png"),
+				},
+				vault: { createBinary },
+				metadataCache: {
+					fileToLinktext: jest
+						.fn()
+						.mockReturnValue("Generated image.png"),
+				},
+			} as unknown as App;
+			const processPromptSpy = jest.spyOn(
+				PromptProcessor.prototype,
+				"processPrompt"
+			);
+
+			await actionHandler.process(
+				app,
+				mockSettings,
+				mockAction,
+				mockEditor as unknown as Editor,
+				mockView
+			);
+
+			expect(generateImage).toHaveBeenCalledWith(
+				"validated-model-id",
+				"Test prompt: selected text",
+				{ size: "1024x1024" },
+				expect.any(AbortSignal)
+			);
+			expect(createBinary).toHaveBeenCalledWith(
+				"attachments/Generated image.png",
+				image
+			);
+			expect(mockEditor.replaceSelection).toHaveBeenCalledWith(
+				"![[Generated image.png]]"
+			);
+			expect(processPromptSpy).not.toHaveBeenCalled();
+		});
+
+		it("should cancel image generation on escape", async () => {
+			mockAction.kind = "image";
+			const generateImage = jest.fn(
+				(
+					_modelId: string,
+					_prompt: string,
+					_settings: unknown,
+					signal: AbortSignal
+				) =>
+					new Promise<ArrayBuffer>((_resolve, reject) => {
+						signal.addEventListener("abort", () => {
+							const error = new Error("Request aborted");
+							error.name = "AbortError";
+							reject(error);
+						});
+					})
+			);
+			(
+				actionHandler as unknown as {
+					llmFactory: { generateImage: jest.Mock };
+				}
+			).llmFactory.generateImage = generateImage;
+			const createBinary = jest.fn();
+			const app = { vault: { createBinary } } as unknown as App;
+
+			const processing = actionHandler.process(
+				app,
+				mockSettings,
+				mockAction,
+				mockEditor as unknown as Editor,
+				mockView
+			);
+			await new Promise(resolve => setTimeout(resolve, 0));
+			document.dispatchEvent(
+				new KeyboardEvent("keydown", { key: "Escape" })
+			);
+			await processing;
+
+			expect(generateImage.mock.calls[0][3].aborted).toBe(true);
+			expect(createBinary).not.toHaveBeenCalled();
+			expect(Notice).toHaveBeenCalledWith("Image generation cancelled");
+		});
+
 		// Note: Clipboard error handling tests are skipped as they require complex mocking
 		// of browser APIs that don't work reliably in test environment. The functionality
 		// is preserved in the getTextInput method and works correctly in the actual application.
@@ -1567,6 +2013,32 @@ describe("ActionHandler Integration Tests", () => {
 			expect(result).toBe(mockClipboardContent);
 		});
 
+		it("should take a copied image as input without reading it again", async () => {
+			const image = { mimeType: "image/png", data: "iVBORw0KGgo=" };
+			Object.assign(navigator, {
+				clipboard: {
+					read: jest
+						.fn()
+						.mockResolvedValue([
+							{ types: ["image/png"], getType: jest.fn() },
+						]),
+				},
+			});
+			const getClipboardImages = jest.spyOn(
+				actionHandler,
+				"getClipboardImages"
+			);
+
+			const result = await actionHandler.getTextInput(
+				Selection.CLIPBOARD,
+				mockEditor as unknown as Editor,
+				[image]
+			);
+
+			expect(result).toBe("");
+			expect(getClipboardImages).not.toHaveBeenCalled();
+		});
+
 		it("should preserve addToNote method functionality", async () => {
 			const mockVault = {
 				append: jest.fn(),
@@ -1628,11 +2100,11 @@ describe("ActionHandler Integration Tests", () => {
 			};
 
 			// Mock LLM
-			const autocompleteMock = jest
+			const chatMock = jest
 				.fn<Promise<string>, unknown[]>()
 				.mockResolvedValue("test result");
 			const mockLLM = {
-				autocomplete: autocompleteMock,
+				chat: chatMock,
 			};
 			const createMock = jest
 				.fn<unknown, [string]>()
@@ -1649,14 +2121,13 @@ describe("ActionHandler Integration Tests", () => {
 
 			expect(createMock).toHaveBeenCalledWith("test-model");
 			// The prompt is processed by replacing {{input}} with the actual input
-			expect(autocompleteMock).toHaveBeenCalledWith(
-				"Test: test input", // {{input}} is replaced with 'test input'
-				"test input",
-				undefined,
-				0.5,
-				undefined,
-				false,
-				true
+			expect(chatMock).toHaveBeenCalledWith(
+				{
+					system: "Test: test input", // {{input}} is replaced with 'test input'
+					messages: [{ role: "user", content: "test input" }],
+					params: { temperature: 0.5 },
+				},
+				{ systemPromptSupport: true, priority: "background" }
 			);
 			expect(result).toBe("test result");
 		});
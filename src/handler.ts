@@ -1,12 +1,27 @@
 import { App, Editor, MarkdownView, Notice, TFile, Vault } from "obsidian";
 import type { EditorView } from "@codemirror/view";
 import { LLMFactory } from "./llm/factory";
+import { buildChatRequest, mergeGenerationParams } from "./llm/chat";
+import type { ChatImage, GenerationParams } from "./llm/chat";
+import { addUsage, formatUsage } from "./llm/usage";
+import type { TokenUsage } from "./llm/usage";
 import type { AIEditorSettings } from "src/settings";
 import type { UserAction } from "./action";
 import { Selection, Location } from "./action";
 import { spinnerPlugin, type SpinnerPlugin } from "./spinnerPlugin";
 import type { ActionResultManager } from "./action-result-manager";
 import { stripThinkingTags } from "./utils/thinking-tags";
+import { shouldUseFallback } from "./utils/fallback";
+import { isAbortError } from "./utils/abort";
+import { ProviderError, describeProviderError } from "./llm/errors";
+import { DEFAULT_QUERY_TIMEOUT } from "./llm/base";
+import {
+	isSupportedImageType,
+	readImageBlob,
+	readImageEmbeds,
+} from "./utils/imageEmbeds";
+import { needsMapReduce, runMapReduce } from "./llm/map_reduce";
+import type { LongInputConfig } from "./llm/map_reduce";
 
 // Plugin interface
 export interface PluginInterface {
@@ -21,12 +36,35 @@ export interface PluginInterface {
 export interface StreamingConfig {
 	action: UserAction;
 	input: string;
+	images?: ChatImage[]; // Embedded in the input; dropped for models without image support
 	cursorPosition: number;
 	userPrompt?: string;
 	onToken: (token: string) => void;
-	onComplete: (result: string) => void;
-	onError: (error: Error) => void;
+	onComplete: (result: string, usage?: TokenUsage) => void;
+	onError: (error: Error, noticeShown: boolean) => void;
 	onCancel: () => void;
+	// Defaults to always; false when the failure is retried with a fallback model
+	shouldShowErrorNotice?: (error: Error) => boolean;
+	bypassCache?: boolean; // Ask the model even if the response is cached
+	onCacheHit?: () => void;
+}
+
+// Handles returned by setupSpinner
+type SpinnerControls = {
+	hideSpinner: () => void;
+	onUpdate: (text: string) => void;
+	onStatus: (text: string) => void;
+};
+
+// A failed step of PromptProcessor outside the provider request
+class PromptStepError extends Error {
+	constructor(
+		message: string,
+		public step: "editor" | "result"
+	) {
+		super(message);
+		this.name = "PromptStepError";
+	}
 }
 
 export interface StreamingState {
@@ -39,12 +77,32 @@ export interface StreamingState {
 export interface PromptConfig {
 	action: UserAction;
 	input: string;
+	images?: ChatImage[]; // Besides the ones embedded in the input, e.g. from the clipboard
 	editor: Editor;
 	view: MarkdownView;
 	app: App;
 	userPrompt?: string;
 	outputMode?: string;
 	plugin?: unknown; // Reference to main plugin
+	bypassCache?: boolean; // Set when regenerating a result
+}
+
+/**
+ * Generation params for a run: the model's defaults with the action's
+ * overrides, temperature and reasoning effort on top
+ */
+function getGenerationParams(
+	llmFactory: LLMFactory,
+	action: UserAction
+): GenerationParams {
+	return mergeGenerationParams(
+		llmFactory.getGenerationDefaults(action.model),
+		action.generation,
+		{
+			temperature: action.temperature,
+			reasoningEffort: action.reasoningEffort,
+		}
+	);
 }
 
 /**
@@ -60,10 +118,11 @@ export class StreamingProcessor {
 	private escapeHandler?: (e: KeyboardEvent) => void;
 	private app?: App;
 	private activeEditor?: Editor; // Track active editor for focus restoration
+	private abortController?: AbortController; // Closes the provider request on cancel
 
 	constructor(settings: AIEditorSettings, app?: App) {
 		this.settings = settings;
-		this.llmFactory = new LLMFactory(settings);
+		this.llmFactory = new LLMFactory(settings, app);
 		this.app = app;
 		this.state = {
 			isActive: false,
@@ -89,13 +148,15 @@ export class StreamingProcessor {
 			currentResult: "",
 			isCancelled: false,
 		};
+		const abortController = new AbortController();
+		this.abortController = abortController;
 
 		let providerName = "Unknown provider";
 		let modelName = "";
-		let spinner: {
-			hideSpinner: () => void;
-			onUpdate: (text: string) => void;
-		} | null = null;
+		let usage: TokenUsage | undefined;
+		let spinner: SpinnerControls | null = null;
+		let hasStatus = false;
+		let idleTimer: number | undefined;
 
 		try {
 			// Get provider name for notice with error handling
@@ -130,16 +191,97 @@ export class StreamingProcessor {
 				config.action.model
 			);
 
-			await llm.autocomplete(
+			let images = config.images;
+			if (
+				images?.length &&
+				!this.llmFactory.getImageSupport(config.action.model)
+			) {
+				new Notice(
+					`${modelName || "This model"} does not accept images, so ${images.length} embedded image(s) were left out. If it does, enable image support in the model settings.`,
+					8000
+				);
+				images = undefined;
+			}
+
+			const params = getGenerationParams(this.llmFactory, config.action);
+			let request = buildChatRequest(
 				config.action.prompt,
 				config.input,
-				(token: string) => {
+				config.userPrompt,
+				params,
+				images
+			);
+
+			const contextLength = this.llmFactory.getContextLength(
+				config.action.model
+			);
+			const longInput: LongInputConfig | undefined = contextLength
+				? {
+						prompt: config.action.prompt,
+						input: config.input,
+						userPrompt: config.userPrompt,
+						params,
+						images,
+						contextLength,
+					}
+				: undefined;
+
+			// Too long for the model: process the chunks first, then stream the combined result
+			if (longInput && needsMapReduce(longInput)) {
+				request = await runMapReduce(
+					longInput,
+					async (stepRequest, step) => {
+						hasStatus = true;
+						spinner?.onStatus(
+							step.phase === "map"
+								? `chunk ${step.index}/${step.total}…`
+								: `combining ${step.index}/${step.total}…`
+						);
+						const result = await llm.chat(stepRequest, {
+							systemPromptSupport,
+							signal: abortController.signal,
+							onUsage: (reported: TokenUsage) => {
+								usage = usage
+									? addUsage(usage, reported)
+									: reported;
+							},
+							bypassCache: config.bypassCache,
+						});
+						return result as string;
+					}
+				);
+				hasStatus = true;
+				spinner?.onStatus("combining…");
+			}
+
+			// Close the stream when it stalls: no output for the query timeout
+			const restartIdleTimer = () => {
+				window.clearTimeout(idleTimer);
+				idleTimer = window.setTimeout(() => {
+					abortController.abort(
+						new ProviderError(
+							`Timeout: no streaming output for ${llm.queryTimeout}ms.`,
+							{ kind: "timeout" }
+						)
+					);
+				}, llm.queryTimeout);
+			};
+			restartIdleTimer();
+
+			await llm.chat(request, {
+				callback: (token: string) => {
 					if (this.state.isCancelled) {
 						return; // Stop processing tokens if cancelled
 					}
+					restartIdleTimer();
 
 					this.state.currentResult += token;
 
+					if (hasStatus) {
+						hasStatus = false;
+						spinner?.onStatus("");
+					}
+
 					try {
 						config.onToken(token);
 
@@ -153,11 +295,32 @@ export class StreamingProcessor {
 						// Continue streaming despite callback errors
 					}
 				},
-				config.action.temperature,
-				config.userPrompt,
-				true, // streaming enabled
-				systemPromptSupport
-			);
+				streaming: true,
+				systemPromptSupport,
+				signal: abortController.signal,
+				onRetry: (attempt: number, maxAttempts: number) => {
+					restartIdleTimer();
+					hasStatus = true;
+					spinner?.onStatus(`retrying (${attempt}/${maxAttempts})…`);
+				},
+				onQueued: (position: number) => {
+					// Waiting behind other requests is not a stall
+					if (position > 0) {
+						window.clearTimeout(idleTimer);
+					} else {
+						restartIdleTimer();
+					}
+					hasStatus = position > 0;
+					spinner?.onStatus(
+						position > 0 ? `queued (#${position})…` : ""
+					);
+				},
+				onUsage: (reported: TokenUsage) => {
+					usage = usage ? addUsage(usage, reported) : reported;
+				},
+				bypassCache: config.bypassCache,
+				onCacheHit: config.onCacheHit,
+			});
 
 			// Check if cancelled during streaming
 			if (this.state.isCancelled) {
@@ -168,20 +331,40 @@ export class StreamingProcessor {
 			// Streaming completed successfully
 			this.state.isActive = false;
 
-			config.onComplete(this.state.currentResult);
+			if (usage) {
+				this.showUsageNotice(usage, config.action.model, modelName);
+			}
+
+			config.onComplete(this.state.currentResult, usage);
 		} catch (error) {
 			this.state.isActive = false;
+
+			// Aborted by cancel(): the request was closed on purpose
+			if (this.state.isCancelled) {
+				config.onCancel();
+				return;
+			}
+
 			const streamingError = error as Error;
 
 			// Show user-friendly error notice
-			this.showErrorNotice(streamingError, providerName);
+			const showNotice =
+				config.shouldShowErrorNotice?.(streamingError) ?? true;
+			if (showNotice) {
+				this.showErrorNotice(streamingError, providerName, modelName);
+			}
 
 			try {
-				config.onError(streamingError);
+				config.onError(streamingError, showNotice);
 			} catch {
 				// Don't throw callback errors to avoid masking original error
 			}
 		} finally {
+			window.clearTimeout(idleTimer);
+			if (this.abortController === abortController) {
+				this.abortController = undefined;
+			}
+
 			// Guaranteed cleanup with error handling
 			this.performCleanup();
 		}
@@ -237,6 +420,9 @@ export class StreamingProcessor {
 				this.state.isCancelled = true;
 				this.state.isActive = false;
 
+				// Close the provider stream so generation stops server-side
+				this.abortController?.abort();
+
 				// Perform comprehensive cleanup
 				this.clearResults();
 				this.performCleanup();
@@ -266,9 +452,7 @@ export class StreamingProcessor {
 	/**
 	 * Setup spinner at cursor position with error handling
 	 */
-	private setupSpinner(
-		cursorPosition: number
-	): { hideSpinner: () => void; onUpdate: (text: string) => void } | null {
+	private setupSpinner(cursorPosition: number): SpinnerControls | null {
 		try {
 			if (!this.app) {
 				return null;
@@ -312,7 +496,15 @@ export class StreamingProcessor {
 				}
 			};
 
-			return { hideSpinner, onUpdate };
+			const onStatus = (status: string) => {
+				try {
+					spinner.setStatus(status);
+				} catch {
+					// Silently handle spinner status errors
+				}
+			};
+
+			return { hideSpinner, onUpdate, onStatus };
 		} catch {
 			return null;
 		}
@@ -445,30 +637,34 @@ export class StreamingProcessor {
 	/**
 	 * Show user-friendly error notice
 	 */
-	private showErrorNotice(error: Error, providerName: string): void {
-		let errorMessage = `${providerName} error: ${error.message}`;
-
-		// Handle common error types with user-friendly messages
-		if (
-			error.message.includes("network") ||
-			error.message.includes("fetch")
-		) {
-			errorMessage = `Network error connecting to ${providerName}. Please check your connection and try again.`;
-		} else if (
-			error.message.includes("API key") ||
-			error.message.includes("authentication")
-		) {
-			errorMessage = `Authentication error with ${providerName}. Please check your API key in settings.`;
-		} else if (
-			error.message.includes("rate limit") ||
-			error.message.includes("quota")
-		) {
-			errorMessage = `Rate limit exceeded for ${providerName}. Please wait and try again.`;
-		} else if (error.message.includes("timeout")) {
-			errorMessage = `Request timeout for ${providerName}. Please try again.`;
-		}
+	private showErrorNotice(
+		error: Error,
+		providerName: string,
+		modelName?: string
+	): void {
+		const { message, fix } = describeProviderError(error, providerName, {
+			modelName,
+			useNativeFetch: this.settings.useNativeFetch,
+		});
 
-		new Notice(errorMessage, 8000); // Show for 8 seconds
+		new Notice(fix ? `${message} ${fix}` : message, 8000); // Show for 8 seconds
+	}
+
+	/**
+	 * Show token totals (and cost when the model has prices) for a finished run
+	 */
+	private showUsageNotice(
+		usage: TokenUsage,
+		modelId: string,
+		modelName: string
+	): void {
+		const pricing = this.settings.aiProviders?.models.find(
+			model => model.id === modelId
+		)?.pricing;
+
+		new Notice(
+			`${modelName ? `${modelName}: ` : ""}${formatUsage(usage, pricing)}`
+		);
 	}
 
 	/**
@@ -596,6 +792,8 @@ export class PromptProcessor {
 		let cursorPositionFrom: { line: number; ch: number };
 		let cursorPositionTo: { line: number; ch: number };
 		let cursorOffset: number;
+		// Set when StreamingProcessor already explained the failure
+		let errorNoticeShown = false;
 
 		try {
 			// Prepare cursor positions for result application with error handling
@@ -604,7 +802,10 @@ export class PromptProcessor {
 				cursorPositionTo = editor.getCursor("to");
 				cursorOffset = editor.posToOffset(cursorPositionTo);
 			} catch {
-				throw new Error("Failed to get editor cursor position");
+				throw new PromptStepError(
+					"Failed to get editor cursor position",
+					"editor"
+				);
 			}
 
 			// Ensure editor has focus for streaming visibility
@@ -615,49 +816,104 @@ export class PromptProcessor {
 			}
 
 			let accumulatedResult = "";
+			let usage: TokenUsage | undefined;
 			let streamingError: Error | null = null;
 			let wasCancelled = false;
+			let fromCache = false;
+
+			const images = [
+				...(config.images ?? []),
+				...(await this.readInputImages(config)),
+			];
+
+			// Try the action's model, then its fallbacks, until one succeeds
+			const modelChain = this.getModelChain(action);
+			let resultModelId = action.model;
+
+			for (let index = 0; index < modelChain.length; index++) {
+				const modelId = modelChain[index];
+				const isLastModel = index === modelChain.length - 1;
+				// Only switch models if nothing was produced yet
+				const willFallBack = (error: Error) =>
+					!isLastModel &&
+					!accumulatedResult &&
+					shouldUseFallback(error);
+				accumulatedResult = "";
+				usage = undefined;
+				streamingError = null;
+				errorNoticeShown = false;
+				fromCache = false;
+
+				// Create streaming configuration
+				const streamingConfig: StreamingConfig = {
+					action:
+						modelId === action.model
+							? action
+							: { ...action, model: modelId },
+					input,
+					images,
+					cursorPosition: cursorOffset,
+					userPrompt,
+					shouldShowErrorNotice: error => !willFallBack(error),
+					bypassCache: config.bypassCache,
+					onCacheHit: () => {
+						fromCache = true;
+					},
+					onToken: (token: string) => {
+						accumulatedResult += token;
+					},
+					onComplete: (result: string, reported?: TokenUsage) => {
+						accumulatedResult = result;
+						usage = reported;
+					},
+					onError: (error: Error, noticeShown: boolean) => {
+						streamingError = error;
+						errorNoticeShown = noticeShown;
+					},
+					onCancel: () => {
+						// Streaming was cancelled, hide spinner and clear results
+						wasCancelled = true;
+						this.streamingProcessor.hideSpinner();
+						this.streamingProcessor.clearResults();
+					},
+				};
+
+				// Execute streaming
+				await this.streamingProcessor.processStreaming(streamingConfig);
+
+				// Check if streaming was cancelled
+				if (wasCancelled) {
+					return;
+				}
 
-			// Create streaming configuration
-			const streamingConfig: StreamingConfig = {
-				action,
-				input,
-				cursorPosition: cursorOffset,
-				userPrompt,
-				onToken: (token: string) => {
-					accumulatedResult += token;
-				},
-				onComplete: (result: string) => {
-					accumulatedResult = result;
-				},
-				onError: (error: Error) => {
-					streamingError = error;
-				},
-				onCancel: () => {
-					// Streaming was cancelled, hide spinner and clear results
-					wasCancelled = true;
+				if (streamingError && willFallBack(streamingError)) {
 					this.streamingProcessor.hideSpinner();
 					this.streamingProcessor.clearResults();
-				},
-			};
-
-			// Execute streaming
-			await this.streamingProcessor.processStreaming(streamingConfig);
+					continue;
+				}
 
-			// Check if streaming was cancelled
-			if (wasCancelled) {
-				return;
+				resultModelId = modelId;
+				break;
 			}
 
 			// Check if streaming had an error
 			if (streamingError) {
-				throw new Error(String(streamingError));
+				// Assigned in onError, which the type checker can't follow
+				throw streamingError as Error;
 			}
 
 			if (!accumulatedResult.trim()) {
 				return;
 			}
 
+			const resultModelName =
+				resultModelId !== action.model
+					? this.getModelName(resultModelId)
+					: undefined;
+			if (resultModelName) {
+				new Notice(`Result from fallback model ${resultModelName}`);
+			}
+
 			// Ensure editor maintains focus after streaming
 			try {
 				editor.focus();
@@ -688,11 +944,20 @@ export class PromptProcessor {
 
 				// Show ActionResultManager panel, keep result visible until user action
 				// Do NOT hide spinner or clear results here - they remain visible until user chooses action
+				const summary = [
+					resultModelName ? `via ${resultModelName}` : "",
+					usage ? this.formatUsageSummary(usage, resultModelId) : "",
+					fromCache ? "cached" : "",
+				]
+					.filter(Boolean)
+					.join(" · ");
+
 				void this.handleModalResult(
 					accumulatedResult,
 					config,
 					cursorPositionFrom,
-					cursorPositionTo
+					cursorPositionTo,
+					summary
 				);
 			}
 		} catch (error) {
@@ -707,7 +972,9 @@ export class PromptProcessor {
 			}
 
 			// Show user-friendly error notice
-			this.showPromptErrorNotice(promptError);
+			if (!errorNoticeShown) {
+				this.showPromptErrorNotice(promptError);
+			}
 
 			// Ensure editor maintains focus even on error
 			try {
@@ -728,14 +995,18 @@ export class PromptProcessor {
 		result: string,
 		config: PromptConfig,
 		cursorPositionFrom: { line: number; ch: number },
-		cursorPositionTo: { line: number; ch: number }
+		cursorPositionTo: { line: number; ch: number },
+		summary: string = ""
 	): void {
 		const { action, editor, view } = config;
 
 		try {
 			const resultManager = this.plugin?.actionResultManager;
 			if (!resultManager) {
-				throw new Error("ActionResultManager not available");
+				throw new PromptStepError(
+					"ActionResultManager not available",
+					"result"
+				);
 			}
 
 			// Create callbacks for result application with error handling
@@ -820,6 +1091,22 @@ export class PromptProcessor {
 				}
 			};
 
+			const onRegenerate = () => {
+				try {
+					this.streamingProcessor.hideSpinner();
+					this.streamingProcessor.clearResults();
+				} catch {
+					// Silently handle cleanup errors
+				}
+
+				// Ask the model again instead of replaying a cached response
+				void this.processPrompt({ ...config, bypassCache: true }).catch(
+					() => {
+						// Errors are already shown as notices
+					}
+				);
+			};
+
 			// Show result panel - result remains visible in spinner until user action
 			try {
 				void resultManager.showResultPanel(
@@ -830,7 +1117,9 @@ export class PromptProcessor {
 					action.loc === Location.APPEND_TO_FILE &&
 						!!action.locationExtra?.fileName,
 					onCancel,
-					action.loc // Pass default location from action settings
+					action.loc, // Pass default location from action settings
+					summary,
+					onRegenerate
 				);
 				// Note: Do NOT clear results here - they remain visible in spinner until user chooses action
 			} catch {
@@ -841,6 +1130,61 @@ export class PromptProcessor {
 		}
 	}
 
+	/**
+	 * Images embedded in the input, read from the vault
+	 */
+	private async readInputImages(config: PromptConfig): Promise<ChatImage[]> {
+		try {
+			const { images, skipped } = await readImageEmbeds(
+				config.app,
+				config.input,
+				config.view.file?.path ?? ""
+			);
+			if (skipped.length) {
+				new Notice(
+					`Left out ${skipped.length} embedded image(s) that are missing, larger than 5 MB or over the limit of 10: ${skipped.join(", ")}`,
+					8000
+				);
+			}
+			return images;
+		} catch (error) {
+			console.error("Failed to read embedded images:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * Primary model followed by its fallbacks, without duplicates
+	 */
+	private getModelChain(action: UserAction): string[] {
+		const fallbacks = (action.fallbackModels ?? []).filter(
+			(modelId, index, list) =>
+				!!modelId &&
+				modelId !== action.model &&
+				list.indexOf(modelId) === index
+		);
+		return [action.model, ...fallbacks];
+	}
+
+	private getModelName(modelId: string): string {
+		return (
+			this.settings.aiProviders?.models.find(
+				model => model.id === modelId
+			)?.name || modelId
+		);
+	}
+
+	/**
+	 * Format token usage with the model's prices for the result panel
+	 */
+	private formatUsageSummary(usage: TokenUsage, modelId: string): string {
+		const pricing = this.settings.aiProviders?.models.find(
+			model => model.id === modelId
+		)?.pricing;
+
+		return formatUsage(usage, pricing);
+	}
+
 	/**
 	 * Handle direct result application without modal
 	 */
@@ -864,7 +1208,10 @@ export class PromptProcessor {
 					cursorPositionTo
 				);
 			} catch {
-				throw new Error("Failed to apply result to editor");
+				throw new PromptStepError(
+					"Failed to apply result to editor",
+					"editor"
+				);
 			}
 		} else {
 			try {
@@ -876,7 +1223,10 @@ export class PromptProcessor {
 					action.locationExtra
 				);
 			} catch {
-				throw new Error("Failed to add result to note");
+				throw new PromptStepError(
+					"Failed to add result to note",
+					"editor"
+				);
 			}
 		}
 	}
@@ -907,19 +1257,11 @@ export class PromptProcessor {
 	 */
 	private showPromptErrorNotice(error: Error): void {
 		let errorMessage = `Prompt processing error: ${error.message}`;
-
-		// Handle specific error types
-		if (
-			error.message.includes("cursor") ||
-			error.message.includes("editor")
-		) {
-			errorMessage = "Editor error occurred. Please try again.";
-		} else if (
-			error.message.includes("modal") ||
-			error.message.includes("result manager")
-		) {
+		if (error instanceof PromptStepError) {
 			errorMessage =
-				"Result display error. The operation completed but results may not be visible.";
+				error.step === "editor"
+					? "Editor error occurred. Please try again."
+					: "Result display error. The operation completed but results may not be visible.";
 		}
 
 		new Notice(errorMessage, 6000);
@@ -928,10 +1270,12 @@ export class PromptProcessor {
 
 export class ActionHandler {
 	private llmFactory: LLMFactory;
+	private settings: AIEditorSettings;
 	private plugin?: PluginInterface; // Reference to the main plugin
 
 	constructor(settings: AIEditorSettings, plugin?: PluginInterface) {
-		this.llmFactory = new LLMFactory(settings);
+		this.llmFactory = new LLMFactory(settings, plugin?.app);
+		this.settings = settings;
 		this.plugin = plugin;
 	}
 
@@ -941,15 +1285,17 @@ export class ActionHandler {
 			userAction.model
 		);
 		const prompt = userAction.prompt.replace("{{input}}", input);
-		const result = await llm.autocomplete(
+		const request = buildChatRequest(
 			prompt,
 			input,
 			undefined,
-			userAction.temperature,
-			undefined,
-			false,
-			systemPromptSupport
+			getGenerationParams(this.llmFactory, userAction)
 		);
+		// Not tied to an editor, so it waits behind interactive requests
+		const result = await llm.chat(request, {
+			systemPromptSupport,
+			priority: "background",
+		});
 		return result as string;
 	}
 
@@ -957,24 +1303,37 @@ export class ActionHandler {
 		userAction: UserAction,
 		input: string,
 		onToken: (token: string) => void,
-		userPrompt?: string
+		userPrompt?: string,
+		signal?: AbortSignal
 	): Promise<void> {
 		const llm = this.llmFactory.create(userAction.model);
 		const systemPromptSupport = this.llmFactory.getSystemPromptSupport(
 			userAction.model
 		);
-		await llm.autocomplete(
+		const request = buildChatRequest(
 			userAction.prompt,
 			input,
-			onToken,
-			userAction.temperature,
 			userPrompt,
-			true,
-			systemPromptSupport
+			getGenerationParams(this.llmFactory, userAction)
 		);
+		await llm.chat(request, {
+			callback: onToken,
+			streaming: true,
+			systemPromptSupport,
+			signal,
+		});
 	}
 
-	async getTextInput(sel: Selection, editor: Editor): Promise<string> {
+	/**
+	 * Input text for the selection mode. clipboardImages are the images
+	 * already read from the clipboard: with them, a clipboard without text
+	 * is not an error.
+	 */
+	async getTextInput(
+		sel: Selection,
+		editor: Editor,
+		clipboardImages: ChatImage[] = []
+	): Promise<string> {
 		switch (sel) {
 			case Selection.ALL:
 				return editor.getValue();
@@ -985,6 +1344,10 @@ export class ActionHandler {
 					const clipboardContent = await this.readClipboardContent();
 					// Check if clipboard is empty or contains only whitespace
 					if (!clipboardContent || !clipboardContent.trim()) {
+						// A copied screenshot is input of its own
+						if (clipboardImages.length) {
+							return "";
+						}
 						new Notice(
 							"Clipboard is empty or contains only whitespace.",
 							10000
@@ -1005,6 +1368,42 @@ export class ActionHandler {
 		}
 	}
 
+	/**
+	 * Images on the clipboard, e.g. a screenshot, for models that accept images
+	 */
+	async getClipboardImages(): Promise<ChatImage[]> {
+		try {
+			const clipboardAPI = (
+				globalThis as unknown as {
+					navigator: { clipboard: { read(): Promise<unknown[]> } };
+				}
+			).navigator;
+			const clipboardItems = await clipboardAPI.clipboard.read();
+
+			const images: ChatImage[] = [];
+			for (const item of clipboardItems as unknown as Array<{
+				types: string[];
+				getType(type: string): Promise<Blob>;
+			}>) {
+				const type = item.types.find(isSupportedImageType);
+				if (!type) {
+					continue;
+				}
+
+				const image = await readImageBlob(await item.getType(type));
+				if (image) {
+					images.push(image);
+				} else {
+					new Notice("The copied image is too large to send.");
+				}
+			}
+			return images;
+		} catch (error) {
+			console.warn("Failed to read clipboard images:", error);
+			return [];
+		}
+	}
+
 	/**
 	 * Read clipboard content as-is without any modifications
 	 * Preserves original formatting by reading HTML content directly
@@ -1090,6 +1489,85 @@ export class ActionHandler {
 		}
 	}
 
+	/**
+	 * Generate an image from the prompt and the input, save it as an
+	 * attachment of the note and insert an embed at the action's location
+	 */
+	private async processImageAction(
+		app: App,
+		action: UserAction,
+		input: string,
+		editor: Editor,
+		view: MarkdownView
+	): Promise<void> {
+		const prompt = action.prompt.includes("{{input}}")
+			? action.prompt.replace(/\{\{input\}\}/g, input)
+			: [action.prompt, input].filter(part => part.trim()).join("\n\n");
+		const providerName = this.llmFactory.getProviderNameSync(action.model);
+
+		// Escape cancels the request, as it does for text actions; there is
+		// no streamed output to watch, so the whole request shares one timeout
+		const abortController = new AbortController();
+		const escapeHandler = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				e.preventDefault();
+				e.stopPropagation();
+				abortController.abort();
+			}
+		};
+		document.addEventListener("keydown", escapeHandler, true);
+		const timeoutId = window.setTimeout(() => {
+			abortController.abort(
+				new ProviderError(
+					`Timeout: no image after ${DEFAULT_QUERY_TIMEOUT}ms.`,
+					{ kind: "timeout" }
+				)
+			);
+		}, DEFAULT_QUERY_TIMEOUT);
+
+		new Notice(`${providerName}: generating image…`);
+		try {
+			const image = await this.llmFactory.generateImage(
+				action.model,
+				prompt,
+				action.image,
+				abortController.signal
+			);
+
+			const sourcePath = view.file?.path ?? "";
+			const path = await app.fileManager.getAvailablePathForAttachment(
+				`Generated image ${formatTimestamp(new Date())}.png`,
+				sourcePath
+			);
+			const file = await app.vault.createBinary(path, image);
+			const embed = `![[${app.metadataCache.fileToLinktext(file, sourcePath)}]]`;
+
+			await this.addToNote(
+				action.loc,
+				action.format?.trim()
+					? action.format.replace(/\{\{result\}\}/g, embed)
+					: embed,
+				editor,
+				app.vault,
+				action.locationExtra
+			);
+		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice("Image generation cancelled");
+				return;
+			}
+			const { message, fix } = describeProviderError(
+				error as Error,
+				providerName,
+				{ useNativeFetch: this.settings.useNativeFetch }
+			);
+			new Notice(fix ? `${message} ${fix}` : message, 8000);
+		} finally {
+			document.removeEventListener("keydown", escapeHandler, true);
+			window.clearTimeout(timeoutId);
+		}
+	}
+
 	private async appendToFileInVault(
 		vault: Vault,
 		fileName: string,
@@ -1117,13 +1595,22 @@ export class ActionHandler {
 		// Update action with validated model ID
 		action.model = validatedModelId;
 
-		// Text input preparation
-		const text = await this.getTextInput(action.sel, editor);
+		// Input preparation; the clipboard is read once for text and images
+		const images =
+			action.sel === Selection.CLIPBOARD
+				? await this.getClipboardImages()
+				: [];
+		const text = await this.getTextInput(action.sel, editor, images);
+		if (action.kind === "image") {
+			await this.processImageAction(app, action, text, editor, view);
+			return;
+		}
 
 		const promptProcessor = new PromptProcessor(settings, this.plugin);
 		await promptProcessor.processPrompt({
 			action,
 			input: text,
+			...(images.length ? { images } : {}),
 			editor,
 			view,
 			app,
@@ -1132,6 +1619,19 @@ export class ActionHandler {
 	}
 }
 
+// Like Obsidian's names for pasted images, e.g. "20241231235959"
+function formatTimestamp(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return [
+		date.getFullYear(),
+		pad(date.getMonth() + 1),
+		pad(date.getDate()),
+		pad(date.getHours()),
+		pad(date.getMinutes()),
+		pad(date.getSeconds()),
+	].join("");
+}
+
 async function getFile(vault: Vault, fileName: string): Promise<TFile> {
 	const file = vault.getAbstractFileByPath(fileName);
 	if (file == null) {
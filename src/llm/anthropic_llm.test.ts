@@ -87,7 +87,7 @@ describe("AnthropicLLM", () => {
 			expect(result).toBe("Generated completion text");
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				system: "You are a helpful assistant",
 				messages: [
@@ -99,7 +99,7 @@ describe("AnthropicLLM", () => {
 			});
 		});
 
-		it("should use default temperature and fixed Anthropic limit when not provided", async () => {
+		it("should use default temperature and the non-streaming limit when not provided", async () => {
 			const mockResponse = {
 				content: [
 					{
@@ -114,7 +114,7 @@ describe("AnthropicLLM", () => {
 
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				system: "System prompt",
 				messages: [
@@ -126,6 +126,50 @@ describe("AnthropicLLM", () => {
 			});
 		});
 
+		it("should forward the abort signal as a request option", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [{ type: "text", text: "ok" }],
+			});
+			const controller = new AbortController();
+
+			await anthropicLLM.autocomplete(
+				"System prompt",
+				"User input",
+				undefined,
+				0.7,
+				undefined,
+				false,
+				true,
+				controller.signal
+			);
+
+			expect(mockClient.messages.create).toHaveBeenCalledWith(
+				expect.objectContaining({ model: "claude-3-sonnet-20240229" }),
+				{ signal: controller.signal }
+			);
+		});
+
+		it("should surface an abort error instead of an API error when cancelled", async () => {
+			const controller = new AbortController();
+			mockClient.messages.create.mockImplementation(() => {
+				controller.abort();
+				return Promise.reject(new Error("Request was aborted."));
+			});
+
+			await expect(
+				anthropicLLM.autocomplete(
+					"System prompt",
+					"User input",
+					undefined,
+					0.7,
+					undefined,
+					false,
+					true,
+					controller.signal
+				)
+			).rejects.toMatchObject({ name: "AbortError" });
+		});
+
 		it("should handle empty response gracefully", async () => {
 			const mockResponse = { content: [] };
 			mockClient.messages.create.mockResolvedValue(mockResponse);
@@ -264,6 +308,94 @@ describe("AnthropicLLM", () => {
 			expect(callback).not.toHaveBeenCalled();
 		});
 
+		it("should stream thinking deltas inside think tags", async () => {
+			const mockStream = {
+				async *[Symbol.asyncIterator]() {
+					await Promise.resolve();
+					yield {
+						type: "content_block_start",
+						index: 0,
+						content_block: { type: "thinking", thinking: "" },
+					};
+					yield {
+						type: "content_block_delta",
+						delta: { type: "thinking_delta", thinking: "Let me" },
+					};
+					yield {
+						type: "content_block_delta",
+						delta: { type: "thinking_delta", thinking: " think" },
+					};
+					yield {
+						type: "content_block_delta",
+						delta: { type: "signature_delta", signature: "abc" },
+					};
+					yield {
+						type: "content_block_delta",
+						delta: { type: "text_delta", text: "Answer" },
+					};
+				},
+			};
+			mockClient.messages.create.mockResolvedValue(mockStream);
+
+			const callback = jest.fn();
+			await anthropicLLM.chat(
+				{
+					messages: [{ role: "user", content: "Hi" }],
+					params: { reasoningEffort: "low" },
+				},
+				{ callback, streaming: true }
+			);
+
+			expect(callback.mock.calls).toEqual([
+				["<think>Let me"],
+				[" think"],
+				["</think>Answer"],
+			]);
+			expect(mockClient.messages.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					thinking: { type: "enabled", budget_tokens: 2048 },
+					stream: true,
+				})
+			);
+		});
+
+		it("should close the think tag when only thinking was streamed", async () => {
+			const mockStream = {
+				async *[Symbol.asyncIterator]() {
+					await Promise.resolve();
+					yield {
+						type: "content_block_delta",
+						delta: { type: "thinking_delta", thinking: "Hmm" },
+					};
+				},
+			};
+			mockClient.messages.create.mockResolvedValue(mockStream);
+
+			const callback = jest.fn();
+			await anthropicLLM.chat(
+				{ messages: [{ role: "user", content: "Hi" }] },
+				{ callback, streaming: true }
+			);
+
+			expect(callback.mock.calls).toEqual([["<think>Hmm"], ["</think>"]]);
+		});
+
+		it("should leave thinking blocks out of non-streaming results", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [
+					{ type: "thinking", thinking: "Hidden", signature: "s" },
+					{ type: "text", text: "Visible" },
+				],
+			});
+
+			const result = await anthropicLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: "high" },
+			});
+
+			expect(result).toBe("Visible");
+		});
+
 		it("should successfully stream completion without userPrompt", async () => {
 			const mockStream = {
 				async *[Symbol.asyncIterator]() {
@@ -323,6 +455,45 @@ describe("AnthropicLLM", () => {
 			});
 		});
 
+		it("should report usage from message_start and message_delta events", async () => {
+			const mockStream = {
+				async *[Symbol.asyncIterator]() {
+					await Promise.resolve();
+					yield {
+						type: "message_start",
+						message: {
+							usage: {
+								input_tokens: 40,
+								cache_read_input_tokens: 10,
+								output_tokens: 1,
+							},
+						},
+					};
+					yield {
+						type: "content_block_delta",
+						delta: { type: "text_delta", text: "Hi" },
+					};
+					yield {
+						type: "message_delta",
+						usage: { output_tokens: 25 },
+					};
+				},
+			};
+			mockClient.messages.create.mockResolvedValue(mockStream);
+
+			const onUsage = jest.fn();
+			await anthropicLLM.chat(
+				{ messages: [{ role: "user", content: "Say hi" }] },
+				{ callback: jest.fn(), streaming: true, onUsage }
+			);
+
+			expect(onUsage).toHaveBeenCalledTimes(1);
+			expect(onUsage).toHaveBeenCalledWith({
+				inputTokens: 50,
+				outputTokens: 25,
+			});
+		});
+
 		it("should handle userPrompt correctly", async () => {
 			const mockStream = {
 				async *[Symbol.asyncIterator]() {
@@ -518,7 +689,7 @@ describe("AnthropicLLM", () => {
 			expect(result).toBe("Response with system prompt");
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				system: "You are a helpful assistant",
 				messages: [
@@ -554,7 +725,7 @@ describe("AnthropicLLM", () => {
 			expect(result).toBe("Response without system prompt");
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				messages: [
 					{
@@ -593,7 +764,7 @@ describe("AnthropicLLM", () => {
 			expect(result).toBe("Response with user prompt and no system");
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				messages: [
 					{
@@ -718,7 +889,7 @@ describe("AnthropicLLM", () => {
 			expect(result).toBe("Default behavior response");
 			expect(mockClient.messages.create).toHaveBeenCalledWith({
 				model: "claude-3-sonnet-20240229",
-				max_tokens: 64000,
+				max_tokens: 8192,
 				temperature: 0.7,
 				system: "Default system prompt",
 				messages: [
@@ -730,4 +901,108 @@ describe("AnthropicLLM", () => {
 			});
 		});
 	});
+
+	describe("generation params", () => {
+		it("should map max output tokens, top P and stop sequences", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [{ type: "text", text: "Short" }],
+			});
+
+			await anthropicLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: {
+					maxOutputTokens: 256,
+					topP: 0.9,
+					stop: ["END"],
+					seed: 3,
+				},
+			});
+
+			expect(mockClient.messages.create).toHaveBeenCalledWith({
+				model: "claude-3-sonnet-20240229",
+				max_tokens: 256,
+				temperature: 0.7,
+				top_p: 0.9,
+				stop_sequences: ["END"],
+				messages: [{ role: "user", content: "Hi" }],
+			});
+		});
+
+		it("should enable extended thinking without temperature", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [{ type: "text", text: "Answer" }],
+			});
+
+			await anthropicLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { temperature: 0.2, reasoningEffort: "medium" },
+			});
+
+			expect(mockClient.messages.create).toHaveBeenCalledWith({
+				model: "claude-3-sonnet-20240229",
+				max_tokens: 8192,
+				thinking: { type: "enabled", budget_tokens: 8191 },
+				messages: [{ role: "user", content: "Hi" }],
+			});
+		});
+
+		it("should keep the thinking budget below max tokens", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [{ type: "text", text: "Answer" }],
+			});
+
+			await anthropicLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { maxOutputTokens: 4000, reasoningEffort: 10000 },
+			});
+
+			expect(mockClient.messages.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					max_tokens: 4000,
+					thinking: { type: "enabled", budget_tokens: 3999 },
+				})
+			);
+		});
+	});
+
+	describe("images", () => {
+		it("should send images as base64 image blocks before the text", async () => {
+			mockClient.messages.create.mockResolvedValue({
+				content: [{ type: "text", text: "A diagram" }],
+			});
+
+			await anthropicLLM.chat({
+				messages: [
+					{
+						role: "user",
+						content: "What does this show?",
+						images: [
+							{ mimeType: "image/png", data: "iVBORw0KGgo=" },
+						],
+					},
+				],
+			});
+
+			expect(mockClient.messages.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					messages: [
+						{
+							role: "user",
+							content: [
+								{
+									type: "image",
+									source: {
+										type: "base64",
+										media_type: "image/png",
+										data: "iVBORw0KGgo=",
+									},
+								},
+								{ type: "text", text: "What does this show?" },
+							],
+						},
+					],
+				})
+			);
+		});
+	});
 });
@@ -1,6 +1,102 @@
 import { BaseProviderLLM } from "./base_provider_llm";
-import type { AIProvider } from "../types";
+import { getCassetteClientOptions } from "./cassette";
+import { resolveSystemPrompt } from "./chat";
+import type {
+	ChatMessage,
+	ChatOptions,
+	ChatRequest,
+	GenerationParams,
+} from "./chat";
+import type { TokenUsage } from "./usage";
+import { getReasoningBudget } from "./reasoning";
+import { toProviderError } from "./errors";
+import type { AIProvider, ReasoningEffort } from "../types";
 import Anthropic from "@anthropic-ai/sdk";
+import { createAbortError } from "../utils/abort";
+
+// Cached prompt tokens are billed as input too
+function getInputTokens(usage: {
+	input_tokens: number | null;
+	cache_creation_input_tokens?: number | null;
+	cache_read_input_tokens?: number | null;
+}): number {
+	return (
+		(usage.input_tokens ?? 0) +
+		(usage.cache_creation_input_tokens ?? 0) +
+		(usage.cache_read_input_tokens ?? 0)
+	);
+}
+
+// Images go as base64 image blocks before the text
+function toAnthropicMessages(
+	messages: ChatMessage[]
+): Anthropic.MessageParam[] {
+	return messages.map(({ role, content, images }) => ({
+		role,
+		content: images?.length
+			? [
+					...images.map(image => ({
+						type: "image" as const,
+						source: {
+							type: "base64" as const,
+							media_type:
+								image.mimeType as Anthropic.Base64ImageSource["media_type"],
+							data: image.data,
+						},
+					})),
+					// Empty text blocks are rejected
+					...(content
+						? [{ type: "text" as const, text: content }]
+						: []),
+				]
+			: content,
+	}));
+}
+
+// The messages API requires max_tokens; used when the model sets no limit
+const DEFAULT_MAX_TOKENS = 64000;
+
+// The SDK rejects non-streaming requests that could run past its timeout
+// (above about 21k max_tokens, 8192 for some models), e.g. map-reduce steps
+const NONSTREAMING_MAX_TOKENS = 8192;
+
+// Anthropic has no seed or penalties
+function getAnthropicGenerationParams(
+	params: GenerationParams = {},
+	streaming: boolean
+): {
+	max_tokens: number;
+	top_p?: number;
+	stop_sequences?: string[];
+} {
+	const maxTokens = params.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+	return {
+		max_tokens: streaming
+			? maxTokens
+			: Math.min(maxTokens, NONSTREAMING_MAX_TOKENS),
+		...(params.topP !== undefined ? { top_p: params.topP } : {}),
+		...(params.stop?.length ? { stop_sequences: params.stop } : {}),
+	};
+}
+
+// Smallest thinking budget accepted by the API
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Extended thinking config; the budget has to stay below max_tokens.
+ * Undefined when thinking is off or the budget would be too small.
+ */
+function getAnthropicThinking(
+	effort: ReasoningEffort | undefined,
+	maxTokens: number
+): { type: "enabled"; budget_tokens: number } | undefined {
+	const budget = Math.min(getReasoningBudget(effort) ?? 0, maxTokens - 1);
+	if (budget < MIN_THINKING_BUDGET) {
+		return undefined;
+	}
+
+	return { type: "enabled", budget_tokens: budget };
+}
 
 export class AnthropicLLM extends BaseProviderLLM {
 	private client: Anthropic;
@@ -17,6 +113,9 @@ export class AnthropicLLM extends BaseProviderLLM {
 			apiKey: provider.apiKey,
 			baseURL: provider.url || this.getDefaultBaseUrl(),
 			dangerouslyAllowBrowser: true,
+			// Retries are handled by withRetry so they show in the spinner
+			maxRetries: 0,
+			...getCassetteClientOptions(),
 		});
 	}
 
@@ -37,76 +136,47 @@ export class AnthropicLLM extends BaseProviderLLM {
 		return headers;
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const generationParams = getAnthropicGenerationParams(
+			request.params,
+			streaming && !!callback
+		);
+		const thinking = getAnthropicThinking(
+			request.params?.reasoningEffort,
+			generationParams.max_tokens
+		);
+		// Extended thinking does not allow a custom temperature
+		const samplingParams = {
+			...(thinking
+				? { thinking }
+				: this.getTemperatureParam(temperature)),
+			...generationParams,
+		};
+
 		try {
-			let messages: Array<{ role: "user"; content: string }>;
-			let systemPrompt: string | undefined;
-
-			if (systemPromptSupport) {
-				// Use system parameter in API
-				systemPrompt = prompt;
-				messages = userPrompt
-					? [
-							{
-								role: "user" as const,
-								content: userPrompt,
-							},
-							{
-								role: "user" as const,
-								content: content,
-							},
-						]
-					: [
-							{
-								role: "user" as const,
-								content: content,
-							},
-						];
-			} else {
-				// Add prompt as first user message
-				systemPrompt = undefined;
-				messages = userPrompt
-					? [
-							{
-								role: "user" as const,
-								content: prompt,
-							},
-							{
-								role: "user" as const,
-								content: userPrompt,
-							},
-							{
-								role: "user" as const,
-								content: content,
-							},
-						]
-					: [
-							{
-								role: "user" as const,
-								content: prompt,
-							},
-							{
-								role: "user" as const,
-								content: content,
-							},
-						];
-			}
+			const { system: systemPrompt, messages } = resolveSystemPrompt(
+				request,
+				systemPromptSupport
+			);
 
 			if (streaming && callback) {
 				// Streaming mode
 				const requestParams: Anthropic.MessageCreateParams = {
 					model: this.modelName,
-					max_tokens: 64000,
-					...this.getTemperatureParam(temperature),
-					messages: messages,
+					...samplingParams,
+					messages: toAnthropicMessages(messages),
 					stream: true,
 				};
 
@@ -114,42 +184,113 @@ export class AnthropicLLM extends BaseProviderLLM {
 					requestParams.system = systemPrompt;
 				}
 
-				const stream = await this.client.messages.create(requestParams);
+				const stream = await this.withRetry(
+					() =>
+						this.client.messages.create(
+							requestParams,
+							...this.getRequestOptions(signal)
+						),
+					options
+				);
+
+				let usage: TokenUsage | undefined;
+				let isThinking = false;
+
+				// Thinking is wrapped in <think> tags so the spinner shows it
+				// and it is stripped from the inserted result
+				const emitThinking = (text: string) => {
+					if (!text) {
+						return;
+					}
+
+					if (!isThinking) {
+						callback(`<think>${text}`);
+						isThinking = true;
+						return;
+					}
+
+					callback(text);
+				};
+
+				const emitText = (text: string) => {
+					if (!text) {
+						return;
+					}
+
+					if (isThinking) {
+						callback(`</think>${text}`);
+						isThinking = false;
+						return;
+					}
+
+					callback(text);
+				};
 
 				for await (const chunk of stream) {
-					if (
-						chunk.type === "content_block_delta" &&
-						chunk.delta.type === "text_delta"
+					if (chunk.type === "message_start" && chunk.message.usage) {
+						usage = {
+							inputTokens: getInputTokens(chunk.message.usage),
+							outputTokens: chunk.message.usage.output_tokens,
+						};
+					} else if (
+						chunk.type === "message_delta" &&
+						chunk.usage &&
+						usage
 					) {
-						callback(chunk.delta.text);
+						usage.outputTokens = chunk.usage.output_tokens;
 					}
+
+					if (chunk.type === "content_block_delta") {
+						if (chunk.delta.type === "thinking_delta") {
+							emitThinking(chunk.delta.thinking);
+						} else if (chunk.delta.type === "text_delta") {
+							emitText(chunk.delta.text);
+						}
+					}
+				}
+
+				if (isThinking) {
+					callback("</think>");
+				}
+
+				if (usage) {
+					onUsage?.(usage);
 				}
 				return;
 			} else {
 				// Non-streaming mode
 				const requestParams: Anthropic.MessageCreateParams = {
 					model: this.modelName,
-					max_tokens: 64000,
-					...this.getTemperatureParam(temperature),
-					messages: messages,
+					...samplingParams,
+					messages: toAnthropicMessages(messages),
 				};
 
 				if (systemPrompt) {
 					requestParams.system = systemPrompt;
 				}
 
-				const message =
-					await this.client.messages.create(requestParams);
+				const message = await this.withRetry(
+					() =>
+						this.client.messages.create(
+							requestParams,
+							...this.getRequestOptions(signal)
+						),
+					options
+				);
 
+				if (message.usage) {
+					onUsage?.({
+						inputTokens: getInputTokens(message.usage),
+						outputTokens: message.usage.output_tokens,
+					});
+				}
+
+				// Thinking blocks are left out of the result
 				let result = "";
 				if (message.content && message.content.length > 0) {
-					const textBlock = message.content.find(
-						(block: { type: string; text?: string }) =>
-							block.type === "text"
-					);
-					if (textBlock && "text" in textBlock) {
-						result = textBlock.text;
-					}
+					result = message.content
+						.map(block => (block.type === "text" ? block.text : ""))
+						.join("");
 				}
 
 				// Call callback with the full result if provided
@@ -160,9 +301,10 @@ export class AnthropicLLM extends BaseProviderLLM {
 				return result;
 			}
 		} catch (error) {
-			throw new Error(
-				`Anthropic API error: ${error instanceof Error ? error.message : "Unknown error"}`
-			);
+			if (signal?.aborted) {
+				throw createAbortError(signal);
+			}
+			throw toProviderError(error, "Anthropic API error");
 		}
 	}
 }
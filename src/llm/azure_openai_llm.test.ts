@@ -0,0 +1,158 @@
+import { AzureOpenAI } from "openai";
+import {
+	AzureOpenAILLM,
+	AzureOpenAIResponsesLLM,
+	DEFAULT_AZURE_API_VERSION,
+} from "./azure_openai_llm";
+import { LLMFactory } from "./factory";
+import type { AIEditorSettings } from "../settings";
+import type { AIProvider } from "../types";
+import { Location, Selection } from "../action";
+
+type MockAzureClient = {
+	chat: { completions: { create: jest.Mock } };
+	responses: { create: jest.Mock };
+};
+
+jest.mock("openai", () => ({
+	__esModule: true,
+	default: jest.fn(),
+	AzureOpenAI: jest.fn().mockImplementation(() => ({
+		chat: { completions: { create: jest.fn() } },
+		responses: { create: jest.fn() },
+	})),
+}));
+
+describe("AzureOpenAILLM", () => {
+	let provider: AIProvider;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+
+		provider = {
+			id: "azure1",
+			name: "Azure OpenAI",
+			type: "azure",
+			apiKey: "azure-key",
+			url: "https://my-resource.openai.azure.com",
+		};
+	});
+
+	it("should create an Azure client with the default API version", () => {
+		new AzureOpenAILLM(provider, "gpt-4o-prod");
+
+		expect(AzureOpenAI).toHaveBeenCalledWith({
+			apiKey: "azure-key",
+			endpoint: "https://my-resource.openai.azure.com",
+			apiVersion: DEFAULT_AZURE_API_VERSION,
+			dangerouslyAllowBrowser: true,
+			maxRetries: 0,
+		});
+	});
+
+	it("should use the configured API version", () => {
+		new AzureOpenAILLM(
+			{ ...provider, apiVersion: "2024-10-21" },
+			"gpt-4o-prod"
+		);
+
+		expect(AzureOpenAI).toHaveBeenCalledWith(
+			expect.objectContaining({ apiVersion: "2024-10-21" })
+		);
+	});
+
+	it("should send the model name as the deployment", async () => {
+		const llm = new AzureOpenAILLM(provider, "gpt-4o-prod");
+		const client = llm["openai"] as unknown as MockAzureClient;
+		client.chat.completions.create.mockResolvedValue({
+			choices: [{ message: { content: "Hello" } }],
+		});
+
+		const result = await llm.chat({
+			messages: [{ role: "user", content: "Hi" }],
+		});
+
+		expect(result).toBe("Hello");
+		expect(client.chat.completions.create).toHaveBeenCalledWith({
+			model: "gpt-4o-prod",
+			messages: [{ role: "user", content: "Hi" }],
+			temperature: 0.7,
+		});
+	});
+
+	it("should prefer the provider's fixed deployment", async () => {
+		const llm = new AzureOpenAIResponsesLLM(
+			{ ...provider, deployment: "shared-deployment" },
+			"gpt-4o",
+			false,
+			false
+		);
+		const client = llm["openai"] as unknown as MockAzureClient;
+		client.responses.create.mockResolvedValue({ output_text: "Done" });
+
+		const result = await llm.chat({
+			messages: [{ role: "user", content: "Hi" }],
+		});
+
+		expect(result).toBe("Done");
+		expect(client.responses.create).toHaveBeenCalledWith(
+			expect.objectContaining({ model: "shared-deployment" })
+		);
+	});
+});
+
+describe("LLMFactory with Azure OpenAI", () => {
+	const createSettings = (
+		openAIRequestMode: "completions" | "responses"
+	): AIEditorSettings => ({
+		customActions: [],
+		quickPrompt: {
+			name: "Quick Prompt",
+			prompt: "Prompt",
+			sel: Selection.CURSOR,
+			loc: Location.REPLACE_CURRENT,
+			format: "{{result}}",
+			model: "model1",
+			temperature: undefined,
+		},
+		aiProviders: {
+			providers: [
+				{
+					id: "azure1",
+					name: "Azure OpenAI",
+					type: "azure",
+					apiKey: "azure-key",
+					url: "https://my-resource.openai.azure.com",
+				},
+			],
+			models: [
+				{
+					id: "model1",
+					name: "GPT-4o",
+					providerId: "azure1",
+					modelName: "gpt-4o-prod",
+					openAIRequestMode,
+				},
+			],
+			usePluginAIProviders: false,
+		},
+		useNativeFetch: false,
+		developmentMode: false,
+	});
+
+	it("should create a chat completions client by default", () => {
+		const llm = new LLMFactory(createSettings("completions")).create(
+			"model1"
+		);
+
+		expect(llm).toBeInstanceOf(AzureOpenAILLM);
+	});
+
+	it("should create a responses client in responses mode", () => {
+		const llm = new LLMFactory(createSettings("responses")).create(
+			"model1"
+		);
+
+		expect(llm).toBeInstanceOf(AzureOpenAIResponsesLLM);
+	});
+});
@@ -0,0 +1,71 @@
+import { AzureOpenAI } from "openai";
+import { getCassetteClientOptions } from "./cassette";
+import { OpenAILLM } from "./openai_llm";
+import type { OpenAIModel } from "./openai_llm";
+import { OpenAIResponsesLLM } from "./openai_responses_llm";
+import type { AIProvider } from "../types";
+
+// Recent enough for both chat completions and the responses API
+export const DEFAULT_AZURE_API_VERSION = "2025-04-01-preview";
+
+// Deployments are only listed by this older data-plane API version
+export const AZURE_DEPLOYMENTS_API_VERSION = "2022-12-01";
+
+/**
+ * Client for an Azure OpenAI resource.
+ * The SDK sends the key as an api-key header, adds the api-version
+ * query parameter and routes chat completions to /deployments/{model}.
+ */
+function createAzureClient(provider: AIProvider): AzureOpenAI {
+	return new AzureOpenAI({
+		apiKey: provider.apiKey,
+		endpoint: provider.url,
+		apiVersion: provider.apiVersion || DEFAULT_AZURE_API_VERSION,
+		dangerouslyAllowBrowser: true,
+		// Retries are handled by withRetry so they show in the spinner
+		maxRetries: 0,
+		...getCassetteClientOptions(),
+	});
+}
+
+/**
+ * Deployment to call: the provider's fixed deployment, otherwise the
+ * model name, which on Azure is the deployment name
+ */
+function getDeploymentName(provider: AIProvider, modelName: string): string {
+	return provider.deployment?.trim() || modelName;
+}
+
+export class AzureOpenAILLM extends OpenAILLM {
+	constructor(
+		provider: AIProvider,
+		modelName: string,
+		temperatureSupported: boolean = true
+	) {
+		super(
+			getDeploymentName(provider, modelName) as OpenAIModel,
+			provider.apiKey ?? "",
+			provider.url,
+			temperatureSupported
+		);
+		this.openai = createAzureClient(provider);
+	}
+}
+
+export class AzureOpenAIResponsesLLM extends OpenAIResponsesLLM {
+	constructor(
+		provider: AIProvider,
+		modelName: string,
+		temperatureSupported: boolean = true,
+		reasoningSummarySupported: boolean = true
+	) {
+		super(
+			getDeploymentName(provider, modelName) as OpenAIModel,
+			provider.apiKey ?? "",
+			provider.url,
+			temperatureSupported,
+			reasoningSummarySupported
+		);
+		this.openai = createAzureClient(provider);
+	}
+}
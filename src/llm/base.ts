@@ -1,7 +1,16 @@
+import { buildChatRequest } from "./chat";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { ProviderError } from "./errors";
+import { withRetry } from "../utils/retry";
+
+export const DEFAULT_QUERY_TIMEOUT = 45000;
+
 export abstract class LLM {
 	// For streaming mode, this is the timeout between each callback
 	// For non-streaming mode, this is the timeout for the whole query
-	queryTimeout = 45000;
+	queryTimeout = DEFAULT_QUERY_TIMEOUT;
+	// Extra attempts for transient failures (429, 5xx) before the first token
+	maxRetries = 0;
 	protected temperatureSupported: boolean;
 
 	constructor(temperatureSupported: boolean = true) {
@@ -18,30 +27,94 @@ export abstract class LLM {
 		return { temperature: temperature !== undefined ? temperature : 0.7 };
 	}
 
-	abstract autocomplete(
+	/**
+	 * SDK request options carrying the abort signal.
+	 * Returned as a spreadable tuple so that no options argument is passed
+	 * at all when there is nothing to cancel.
+	 */
+	protected getRequestOptions(
+		signal?: AbortSignal
+	): [] | [{ signal: AbortSignal }] {
+		return signal ? [{ signal }] : [];
+	}
+
+	/**
+	 * Retry a request that fails before any output was produced
+	 */
+	protected withRetry<T>(
+		operation: () => Promise<T>,
+		options: Pick<ChatOptions, "signal" | "onRetry">
+	): Promise<T> {
+		return withRetry(operation, {
+			maxRetries: this.maxRetries,
+			signal: options.signal,
+			onRetry: options.onRetry,
+		});
+	}
+
+	/**
+	 * Run a chat request against the provider.
+	 * Resolves with the full text in non-streaming mode; in streaming mode
+	 * text is delivered through options.callback and nothing is returned.
+	 */
+	abstract chat(
+		request: ChatRequest,
+		options?: ChatOptions
+	): Promise<string | void>;
+
+	/**
+	 * Embedding vectors of the texts, in the same order.
+	 * Rejects for providers without an embeddings API.
+	 */
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		return Promise.reject(
+			new Error("This provider does not support embeddings")
+		);
+	}
+
+	/**
+	 * Positional form of chat() kept for backward compatibility
+	 */
+	autocomplete(
 		prompt: string,
 		content: string,
 		callback?: (text: string) => void,
 		temperature?: number,
 		userPrompt?: string,
 		streaming?: boolean,
-		systemPromptSupport?: boolean
-	): Promise<string | void>;
+		systemPromptSupport?: boolean,
+		signal?: AbortSignal
+	): Promise<string | void> {
+		return this.chat(
+			buildChatRequest(prompt, content, userPrompt, { temperature }),
+			{ callback, streaming, systemPromptSupport, signal }
+		);
+	}
 
 	async autocompleteStreaming(
 		prompt: string,
 		content: string,
 		callback: (text: string) => void,
 		temperature?: number,
-		userPrompt?: string
+		userPrompt?: string,
+		signal?: AbortSignal
 	): Promise<void> {
 		let last_tick = new Date().getTime();
 		let has_timeout = false;
 
+		// Aborted on timeout or when the caller's signal fires,
+		// so the underlying HTTP stream is closed as well.
+		const controller = new AbortController();
+		const onExternalAbort = () => controller.abort(signal?.reason);
+		if (signal?.aborted) {
+			controller.abort(signal.reason);
+		} else {
+			signal?.addEventListener("abort", onExternalAbort);
+		}
+
 		// define a wrapper function to update last_tick
 		function callback_wrapper(text: string): void {
-			// Once start the query promise, we cannot cancel it.
-			// Ignore the callback if timeout has already happened.
+			// Ignore late chunks if timeout has already happened.
 			if (has_timeout) {
 				return;
 			}
@@ -49,14 +122,13 @@ export abstract class LLM {
 			callback(text);
 		}
 
-		let promise = this.autocomplete(
-			prompt,
-			content,
-			callback_wrapper,
-			temperature,
-			userPrompt,
-			true,
-			undefined
+		let promise = this.chat(
+			buildChatRequest(prompt, content, userPrompt, { temperature }),
+			{
+				callback: callback_wrapper,
+				streaming: true,
+				signal: controller.signal,
+			}
 		);
 		return new Promise<void>((resolve, reject) => {
 			const intervalId = globalThis.setInterval(() => {
@@ -64,20 +136,24 @@ export abstract class LLM {
 				if (now - last_tick > this.queryTimeout) {
 					has_timeout = true;
 					clearInterval(intervalId);
-					reject(
-						new Error(
-							`Timeout: last streaming output is ${now - last_tick}ms ago.`
-						)
+					signal?.removeEventListener("abort", onExternalAbort);
+					const timeoutError = new ProviderError(
+						`Timeout: last streaming output is ${now - last_tick}ms ago.`,
+						{ kind: "timeout" }
 					);
+					controller.abort(timeoutError);
+					reject(timeoutError);
 				}
 			}, 1000);
 			promise
 				.then((_: string | void) => {
 					clearInterval(intervalId);
+					signal?.removeEventListener("abort", onExternalAbort);
 					resolve();
 				})
 				.catch((error: Error) => {
 					clearInterval(intervalId);
+					signal?.removeEventListener("abort", onExternalAbort);
 					reject(error);
 				});
 		});
@@ -1,11 +1,15 @@
 import { LLM } from "./base";
 import type { AIProvider } from "../types";
 import { nativeFetch, standardFetch } from "../utils/fetch";
-
-type FetchFn = (
-	input: RequestInfo | URL,
-	init?: RequestInit
-) => Promise<Response>;
+import { throwIfAborted } from "../utils/abort";
+import { HttpStatusError, isRetryableStatus } from "../utils/retry";
+import type { ChatOptions, EmbedOptions } from "./chat";
+import { withCassette } from "./cassette";
+import type { FetchFn } from "./cassette";
+import { createResponseError, toProviderError } from "./errors";
+import { parseOpenAIUsage } from "./usage";
+import { createThinkTagEmitter, isRecord } from "./response_parts";
+import type { ResponseParts } from "./response_parts";
 
 export abstract class BaseProviderLLM extends LLM {
 	protected provider: AIProvider;
@@ -28,9 +32,12 @@ export abstract class BaseProviderLLM extends LLM {
 		input: RequestInfo | URL,
 		init?: RequestInit
 	) => Promise<Response> {
-		const fetchImpl = (this.useNativeFetch
-			? nativeFetch
-			: standardFetch) as unknown as FetchFn;
+		// An active cassette (development mode) records or replaces the traffic
+		const fetchImpl = withCassette(
+			(this.useNativeFetch
+				? nativeFetch
+				: standardFetch) as unknown as FetchFn
+		);
 
 		return (input: RequestInfo | URL, init?: RequestInit) =>
 			fetchImpl(input, init);
@@ -42,6 +49,10 @@ export abstract class BaseProviderLLM extends LLM {
 
 	protected abstract getDefaultBaseUrl(): string;
 
+	protected getRequestUrl(endpoint: string): string {
+		return `${this.getBaseUrl()}${endpoint}`;
+	}
+
 	protected getHeaders(): Record<string, string> {
 		const headers: Record<string, string> = {
 			"Content-Type": "application/json",
@@ -54,21 +65,162 @@ export abstract class BaseProviderLLM extends LLM {
 		return headers;
 	}
 
+	/**
+	 * POST to the provider, retrying rate limits and temporary server errors.
+	 * Once retries are exhausted the last non-OK response is returned so that
+	 * providers report it the usual way.
+	 */
 	protected async makeRequest(
 		endpoint: string,
-		body: Record<string, unknown>
+		body: Record<string, unknown>,
+		options: Pick<ChatOptions, "signal" | "onRetry"> = {}
 	): Promise<Response> {
-		const url = `${this.getBaseUrl()}${endpoint}`;
+		const { signal } = options;
+		const url = this.getRequestUrl(endpoint);
 		const fetchFn = this.getFetch();
 		const headers = this.getHeaders();
 		const requestBody = JSON.stringify(body);
+		let lastResponse: Response | undefined;
+
+		try {
+			return await this.withRetry(async () => {
+				const response = await fetchFn(url, {
+					method: "POST",
+					headers: headers,
+					body: requestBody,
+					...(signal ? { signal } : {}),
+				});
+
+				if (!response.ok && isRetryableStatus(response.status)) {
+					lastResponse = response;
+					throw new HttpStatusError(
+						response.status,
+						response.headers
+					);
+				}
+
+				return response;
+			}, options);
+		} catch (error) {
+			if (error instanceof HttpStatusError && lastResponse) {
+				return lastResponse;
+			}
+			throw toProviderError(error);
+		}
+	}
+
+	/**
+	 * Embeddings from an OpenAI-compatible POST /embeddings endpoint
+	 */
+	protected async requestOpenAIEmbeddings(
+		texts: string[],
+		options: EmbedOptions,
+		errorPrefix: string
+	): Promise<number[][]> {
+		const response = await this.makeRequest(
+			"/embeddings",
+			{ model: this.modelName, input: texts },
+			options
+		);
+		if (!response.ok) {
+			throw await createResponseError(response, errorPrefix);
+		}
+
+		const data = (await response.json()) as {
+			data: Array<{ index: number; embedding: number[] }>;
+		};
+		return data.data
+			.sort((a, b) => a.index - b.index)
+			.map(item => item.embedding);
+	}
+
+	/**
+	 * Read an OpenAI-style event stream ("data: {...}" lines up to
+	 * "data: [DONE]"). getParts picks the text out of each chunk; usage is
+	 * reported when a chunk carries it.
+	 */
+	protected async readChatCompletionStream(
+		response: Response,
+		callback: (text: string) => void,
+		getParts: (data: unknown) => ResponseParts,
+		options: Pick<ChatOptions, "signal" | "onUsage"> = {}
+	): Promise<void> {
+		const emit = createThinkTagEmitter(callback);
 
-		const response = await fetchFn(url, {
-			method: "POST",
-			headers: headers,
-			body: requestBody,
-		});
+		await this.readLines(
+			response,
+			line => {
+				if (!line.trim() || !line.startsWith("data: ")) {
+					return;
+				}
 
-		return response;
+				const jsonStr = line.slice(6);
+				if (jsonStr.trim() === "[DONE]") return true;
+
+				try {
+					const data: unknown = JSON.parse(jsonStr);
+					const parts = getParts(data);
+					emit.reasoning(parts.reasoning);
+					emit.content(parts.content);
+
+					const usage = parseOpenAIUsage(
+						isRecord(data) ? data["usage"] : undefined
+					);
+					if (usage) {
+						options.onUsage?.(usage);
+					}
+				} catch {
+					// Skip invalid JSON lines
+				}
+			},
+			options.signal
+		);
+
+		emit.finish();
+	}
+
+	/**
+	 * Read a streamed response body line by line.
+	 * Cancels the underlying stream as soon as the signal is aborted.
+	 */
+	protected async readLines(
+		response: Response,
+		onLine: (line: string) => boolean | void,
+		signal?: AbortSignal
+	): Promise<void> {
+		const reader = response.body?.getReader();
+		if (!reader) {
+			throw new Error("No response body reader available");
+		}
+
+		const onAbort = () => {
+			void reader.cancel?.().catch(() => undefined);
+		};
+		signal?.addEventListener("abort", onAbort);
+
+		const decoder = new TextDecoder();
+		let buffer = "";
+
+		try {
+			while (true) {
+				throwIfAborted(signal);
+				const { done, value } = await reader.read();
+				throwIfAborted(signal);
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					if (onLine(line) === true) {
+						return;
+					}
+				}
+			}
+		} finally {
+			signal?.removeEventListener("abort", onAbort);
+			reader.releaseLock();
+		}
 	}
 }
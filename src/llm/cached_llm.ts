@@ -0,0 +1,80 @@
+import { LLM } from "./base";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { getCacheKey } from "./response_cache";
+import type { ResponseCache } from "./response_cache";
+import { throwIfAborted } from "../utils/abort";
+
+/**
+ * Wraps an LLM with the response cache. A cached response is replayed
+ * through the same callback as a live one but reports no usage, since the
+ * provider was not called; completed live responses are stored.
+ */
+export class CachedLLM extends LLM {
+	private llm: LLM;
+	private cache: ResponseCache;
+	// Identifies the model beyond the request, e.g. model and provider ids
+	private scope: Record<string, string>;
+
+	constructor(llm: LLM, cache: ResponseCache, scope: Record<string, string>) {
+		super();
+		this.llm = llm;
+		this.cache = cache;
+		this.scope = scope;
+		this.queryTimeout = llm.queryTimeout;
+		this.maxRetries = llm.maxRetries;
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const { callback, streaming = false, signal } = options;
+		const key = await getCacheKey({
+			...this.scope,
+			request,
+			systemPromptSupport: options.systemPromptSupport ?? true,
+			// Streamed output keeps think tags that plain responses leave out
+			streaming,
+		});
+
+		if (!options.bypassCache) {
+			const cached = await this.cache.get(key);
+			if (cached) {
+				throwIfAborted(signal);
+				options.onCacheHit?.();
+				if (streaming) {
+					callback?.(cached.text);
+					return;
+				}
+				return cached.text;
+			}
+		}
+
+		this.llm.maxRetries = this.maxRetries;
+		this.llm.queryTimeout = this.queryTimeout;
+
+		let streamed = "";
+		const result = await this.llm.chat(request, {
+			...options,
+			callback: callback
+				? (text: string) => {
+						streamed += text;
+						callback(text);
+					}
+				: undefined,
+		});
+
+		const text = streaming ? streamed : result;
+		if (text && !signal?.aborted) {
+			await this.cache.set(key, text);
+		}
+
+		return result;
+	}
+
+	// Embeddings are kept in the search index instead
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		this.llm.maxRetries = this.maxRetries;
+		return this.llm.embed(texts, options);
+	}
+}
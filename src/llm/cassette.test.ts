@@ -0,0 +1,262 @@
+/**
+ * @jest-environment node
+ */
+import {
+	createCassette,
+	createRecordingFetch,
+	createReplayFetch,
+	parseCassette,
+	setActiveCassette,
+	withCassette,
+	withCassetteGlobalFetch,
+} from "./cassette";
+import type { Cassette, FetchFn } from "./cassette";
+import { DeepSeekLLM } from "./deepseek_llm";
+import type { AIProvider } from "../types";
+
+const encoder = new TextEncoder();
+
+function streamResponse(chunks: string[], init: ResponseInit = {}) {
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+			controller.close();
+		},
+	});
+	return new Response(body, {
+		headers: { "Content-Type": "text/event-stream" },
+		...init,
+	});
+}
+
+async function readChunks(response: Response): Promise<string[]> {
+	const reader = response.body!.getReader();
+	const decoder = new TextDecoder();
+	const chunks: string[] = [];
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) return chunks;
+		chunks.push(decoder.decode(value));
+	}
+}
+
+const sseCassette: Cassette = {
+	version: 1,
+	interactions: [
+		{
+			request: {
+				method: "POST",
+				url: "https://api.deepseek.com/chat/completions",
+				body: '{"model":"deepseek-chat"}',
+			},
+			response: {
+				status: 200,
+				statusText: "OK",
+				headers: { "content-type": "text/event-stream" },
+				chunks: ["data: one\n\n", "data: two\n\n"],
+			},
+		},
+	],
+};
+
+describe("createRecordingFetch", () => {
+	it("passes the response through and records it once read", async () => {
+		const cassette = createCassette();
+		const onRecord = jest.fn();
+		const fetchFn = jest.fn<ReturnType<FetchFn>, Parameters<FetchFn>>(() =>
+			Promise.resolve(
+				streamResponse(["data: a", "\n\ndata: b\n\n"], {
+					status: 201,
+					headers: {
+						"Content-Type": "text/event-stream",
+						"Set-Cookie": "secret",
+					},
+				})
+			)
+		);
+
+		const response = await createRecordingFetch(
+			fetchFn,
+			cassette,
+			onRecord
+		)("https://api.example.com/chat", {
+			method: "post",
+			headers: { Authorization: "Bearer key" },
+			body: '{"stream":true}',
+		});
+
+		expect(onRecord).not.toHaveBeenCalled();
+		expect(await readChunks(response)).toEqual([
+			"data: a",
+			"\n\ndata: b\n\n",
+		]);
+		expect(response.status).toBe(201);
+		expect(onRecord).toHaveBeenCalledWith(cassette);
+		expect(cassette.interactions).toEqual([
+			{
+				request: {
+					method: "POST",
+					url: "https://api.example.com/chat",
+					body: '{"stream":true}',
+				},
+				response: {
+					status: 201,
+					statusText: "",
+					headers: { "content-type": "text/event-stream" },
+					chunks: ["data: a", "\n\ndata: b\n\n"],
+				},
+			},
+		]);
+		expect(JSON.stringify(cassette)).not.toContain("Bearer key");
+	});
+});
+
+describe("createReplayFetch", () => {
+	it("replays recorded chunks without the network", async () => {
+		const replay = createReplayFetch(sseCassette);
+
+		const response = await replay(
+			"https://api.deepseek.com/chat/completions",
+			{ method: "POST", body: '{"model":"deepseek-chat"}' }
+		);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+		expect(await readChunks(response)).toEqual([
+			"data: one\n\n",
+			"data: two\n\n",
+		]);
+	});
+
+	it("replays matching requests in recorded order", async () => {
+		const request = {
+			method: "GET",
+			url: "https://api.example.com/models",
+		};
+		const response = {
+			status: 200,
+			statusText: "OK",
+			headers: {},
+		};
+		const replay = createReplayFetch({
+			version: 1,
+			interactions: [
+				{ request, response: { ...response, chunks: ["first"] } },
+				{ request, response: { ...response, chunks: ["second"] } },
+			],
+		});
+
+		const texts: string[] = [];
+		for (let i = 0; i < 3; i++) {
+			texts.push(await (await replay(request.url)).text());
+		}
+
+		expect(texts).toEqual(["first", "second", "second"]);
+	});
+
+	it("rejects requests that were not recorded", async () => {
+		const replay = createReplayFetch(sseCassette);
+
+		await expect(
+			replay("https://api.deepseek.com/chat/completions", {
+				method: "POST",
+				body: '{"model":"other"}',
+			})
+		).rejects.toThrow(
+			"Cassette has no recorded response for POST https://api.deepseek.com/chat/completions"
+		);
+	});
+});
+
+describe("parseCassette", () => {
+	it("reads saved cassettes and ignores invalid files", () => {
+		expect(parseCassette(JSON.stringify(sseCassette))).toEqual(sseCassette);
+		expect(parseCassette("not json")).toEqual(createCassette());
+		expect(parseCassette("{}")).toEqual(createCassette());
+	});
+});
+
+describe("active cassette", () => {
+	afterEach(() => setActiveCassette(null));
+
+	it("leaves fetch untouched when no cassette is active", () => {
+		const fetchFn: FetchFn = jest.fn();
+
+		expect(withCassette(fetchFn)).toBe(fetchFn);
+	});
+
+	it("restores the global fetch after overlapping calls", async () => {
+		const originalFetch = globalThis.fetch;
+		setActiveCassette({ mode: "replay", cassette: sseCassette });
+		let finishFirst = () => {};
+		let finishSecond = () => {};
+
+		const first = withCassetteGlobalFetch(
+			() => new Promise<void>(resolve => (finishFirst = resolve))
+		);
+		const second = withCassetteGlobalFetch(
+			() => new Promise<void>(resolve => (finishSecond = resolve))
+		);
+		expect(globalThis.fetch).not.toBe(originalFetch);
+
+		// The call that started first ends first
+		finishFirst();
+		await first;
+		expect(globalThis.fetch).not.toBe(originalFetch);
+
+		finishSecond();
+		await second;
+		expect(globalThis.fetch).toBe(originalFetch);
+	});
+
+	it("replays a provider stream end to end", async () => {
+		const provider: AIProvider = {
+			id: "deepseek",
+			name: "DeepSeek",
+			type: "deepseek",
+			apiKey: "key",
+		};
+		const body = {
+			model: "deepseek-chat",
+			messages: [{ role: "user", content: "Hi" }],
+			stream: true,
+			stream_options: { include_usage: true },
+		};
+		const chunk = (content: string) =>
+			`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+		const stream = chunk("Hel") + chunk("lo") + "data: [DONE]\n\n";
+		setActiveCassette({
+			mode: "replay",
+			cassette: {
+				version: 1,
+				interactions: [
+					{
+						request: {
+							method: "POST",
+							url: "https://api.deepseek.com/chat/completions",
+							body: JSON.stringify(body),
+						},
+						response: {
+							status: 200,
+							statusText: "OK",
+							headers: {},
+							// Split mid-event, as a network stream may be
+							chunks: [stream.slice(0, 30), stream.slice(30)],
+						},
+					},
+				],
+			},
+		});
+		const llm = new DeepSeekLLM(provider, "deepseek-chat", false, false);
+		const callback = jest.fn<void, [string]>();
+
+		await llm.chat(
+			{ messages: [{ role: "user", content: "Hi" }] },
+			{ callback, streaming: true, systemPromptSupport: false }
+		);
+
+		expect(callback.mock.calls.map(([text]) => text).join("")).toBe(
+			"Hello"
+		);
+	});
+});
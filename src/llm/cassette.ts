@@ -0,0 +1,302 @@
+// Record and replay of raw provider HTTP traffic for development and tests
+import { createAbortError } from "../utils/abort";
+
+export type FetchFn = (
+	input: RequestInfo | URL,
+	init?: RequestInit
+) => Promise<Response>;
+
+export type CassetteMode = "off" | "record" | "replay";
+
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		url: string;
+		body?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		/** Body text in the chunks it arrived in, so streams replay the same way */
+		chunks: string[];
+	};
+}
+
+export interface Cassette {
+	version: 1;
+	interactions: CassetteInteraction[];
+}
+
+export interface CassetteSession {
+	mode: Exclude<CassetteMode, "off">;
+	cassette: Cassette;
+	/** Called after each recorded interaction, e.g. to save the cassette */
+	onRecord?: (cassette: Cassette) => void;
+}
+
+// Response headers that are never written to a cassette
+const SKIPPED_HEADERS = new Set(["set-cookie", "content-length"]);
+
+export function createCassette(): Cassette {
+	return { version: 1, interactions: [] };
+}
+
+/**
+ * Parse a cassette file; anything unreadable gives an empty cassette
+ */
+export function parseCassette(text: string): Cassette {
+	try {
+		const parsed = JSON.parse(text) as Partial<Cassette> | null;
+		if (parsed && Array.isArray(parsed.interactions)) {
+			return { version: 1, interactions: parsed.interactions };
+		}
+	} catch {
+		// Fall through to an empty cassette
+	}
+	return createCassette();
+}
+
+function getRequestUrl(input: RequestInfo | URL): string {
+	if (typeof input === "string") return input;
+	if (input instanceof URL) return input.href;
+	return input.url;
+}
+
+function getRequestMethod(input: RequestInfo | URL, init?: RequestInit) {
+	const method =
+		init?.method ??
+		(typeof input === "object" && "method" in input
+			? input.method
+			: undefined);
+	return (method ?? "GET").toUpperCase();
+}
+
+function getRequestBody(init?: RequestInit): string | undefined {
+	// Only text bodies are recorded; providers send JSON strings
+	return typeof init?.body === "string" ? init.body : undefined;
+}
+
+function getResponseHeaders(headers: Headers): Record<string, string> {
+	const recorded: Record<string, string> = {};
+	headers.forEach((value, name) => {
+		if (!SKIPPED_HEADERS.has(name.toLowerCase())) {
+			recorded[name.toLowerCase()] = value;
+		}
+	});
+	return recorded;
+}
+
+function matchesRequest(
+	interaction: CassetteInteraction,
+	method: string,
+	url: string,
+	body: string | undefined
+): boolean {
+	const { request } = interaction;
+	return (
+		request.method === method &&
+		request.url === url &&
+		(request.body ?? "") === (body ?? "")
+	);
+}
+
+/**
+ * Wrap a fetch so every response is passed through unchanged and also
+ * stored in the cassette once its body has been read to the end.
+ * Request headers are not recorded so that API keys stay out of cassettes.
+ */
+export function createRecordingFetch(
+	fetchFn: FetchFn,
+	cassette: Cassette,
+	onRecord?: (cassette: Cassette) => void
+): FetchFn {
+	return async (input, init) => {
+		const request = {
+			method: getRequestMethod(input, init),
+			url: getRequestUrl(input),
+			body: getRequestBody(init),
+		};
+		const response = await fetchFn(input, init);
+		const chunks: string[] = [];
+		const record = () => {
+			cassette.interactions.push({
+				request,
+				response: {
+					status: response.status,
+					statusText: response.statusText,
+					headers: getResponseHeaders(response.headers),
+					chunks,
+				},
+			});
+			onRecord?.(cassette);
+		};
+
+		if (!response.body) {
+			record();
+			return response;
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		const body = new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				const { done, value } = await reader.read();
+				if (done) {
+					const rest = decoder.decode();
+					if (rest) chunks.push(rest);
+					record();
+					controller.close();
+					return;
+				}
+				const text = decoder.decode(value, { stream: true });
+				if (text) chunks.push(text);
+				controller.enqueue(value);
+			},
+			cancel(reason) {
+				return reader.cancel(reason);
+			},
+		});
+
+		return new Response(body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+}
+
+/**
+ * Fetch that answers from the cassette without touching the network.
+ * Each request gets the first recorded response with the same method,
+ * URL and body that has not been replayed yet; once all are used the
+ * last one is repeated.
+ */
+export function createReplayFetch(cassette: Cassette): FetchFn {
+	const replayed = new Set<CassetteInteraction>();
+
+	return (input, init) => {
+		const method = getRequestMethod(input, init);
+		const url = getRequestUrl(input);
+		const matches = cassette.interactions.filter(interaction =>
+			matchesRequest(interaction, method, url, getRequestBody(init))
+		);
+		const interaction =
+			matches.find(match => !replayed.has(match)) ??
+			matches[matches.length - 1];
+
+		if (!interaction) {
+			return Promise.reject(
+				new Error(
+					`Cassette has no recorded response for ${method} ${url}`
+				)
+			);
+		}
+		replayed.add(interaction);
+
+		const { response } = interaction;
+		const encoder = new TextEncoder();
+		const chunks = [...response.chunks];
+		const signal = init?.signal ?? undefined;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (signal?.aborted) {
+					controller.error(createAbortError(signal));
+					return;
+				}
+				const chunk = chunks.shift();
+				if (chunk === undefined) {
+					controller.close();
+				} else {
+					controller.enqueue(encoder.encode(chunk));
+				}
+			},
+		});
+
+		return Promise.resolve(
+			new Response(body, {
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			})
+		);
+	};
+}
+
+let activeSession: CassetteSession | null = null;
+let replayFetch: FetchFn | null = null;
+
+/**
+ * Route provider traffic through a cassette, or back to the network with null
+ */
+export function setActiveCassette(session: CassetteSession | null): void {
+	activeSession = session;
+	replayFetch =
+		session?.mode === "replay" ? createReplayFetch(session.cassette) : null;
+}
+
+/**
+ * The given fetch, recorded or replaced by the active cassette if there is one
+ */
+export function withCassette(fetchFn: FetchFn): FetchFn {
+	if (!activeSession) {
+		return fetchFn;
+	}
+	if (replayFetch) {
+		return replayFetch;
+	}
+	return createRecordingFetch(
+		fetchFn,
+		activeSession.cassette,
+		activeSession.onRecord
+	);
+}
+
+/**
+ * Options for SDK clients (OpenAI, Anthropic) that accept a custom fetch
+ */
+export function getCassetteClientOptions(): { fetch?: FetchFn } {
+	return activeSession
+		? {
+				fetch: withCassette((input, init) =>
+					globalThis.fetch(input, init)
+				),
+			}
+		: {};
+}
+
+// Calls running with the cassette in place of the global fetch, and the
+// fetch to put back once the last of them ends
+let globalFetchUsers = 0;
+let originalGlobalFetch: typeof globalThis.fetch | null = null;
+
+/**
+ * Run an SDK call that always uses the global fetch (Gemini) with the
+ * active cassette in place of it. Development mode only: other requests
+ * started meanwhile go through the cassette too.
+ */
+export async function withCassetteGlobalFetch<T>(
+	operation: () => Promise<T>
+): Promise<T> {
+	if (!activeSession) {
+		return operation();
+	}
+
+	if (globalFetchUsers === 0) {
+		const originalFetch = globalThis.fetch;
+		originalGlobalFetch = originalFetch;
+		globalThis.fetch = withCassette((input, init) =>
+			originalFetch(input, init)
+		) as typeof globalThis.fetch;
+	}
+	globalFetchUsers++;
+	try {
+		return await operation();
+	} finally {
+		globalFetchUsers--;
+		if (globalFetchUsers === 0 && originalGlobalFetch) {
+			globalThis.fetch = originalGlobalFetch;
+			originalGlobalFetch = null;
+		}
+	}
+}
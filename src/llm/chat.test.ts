@@ -0,0 +1,199 @@
+import {
+	buildChatRequest,
+	mergeGenerationParams,
+	resolveSystemPrompt,
+	toOpenAIGenerationParams,
+	toOpenAIVisionMessages,
+	toRoleMessages,
+} from "./chat";
+import type { ChatRequest } from "./chat";
+
+describe("buildChatRequest", () => {
+	it("puts the prompt in system and the input as the last user message", () => {
+		expect(buildChatRequest("Summarize", "Some text")).toEqual({
+			system: "Summarize",
+			messages: [{ role: "user", content: "Some text" }],
+		});
+	});
+
+	it("inserts the user prompt before the input and keeps params", () => {
+		expect(
+			buildChatRequest("Summarize", "Some text", "Be brief", {
+				temperature: 0.2,
+			})
+		).toEqual({
+			system: "Summarize",
+			messages: [
+				{ role: "user", content: "Be brief" },
+				{ role: "user", content: "Some text" },
+			],
+			params: { temperature: 0.2 },
+		});
+	});
+});
+
+describe("resolveSystemPrompt", () => {
+	const request: ChatRequest = {
+		system: "Translate to French",
+		messages: [
+			{ role: "user", content: "Hello" },
+			{ role: "assistant", content: "Bonjour" },
+			{ role: "user", content: "Good night" },
+		],
+	};
+
+	it("keeps the system prompt separate when supported", () => {
+		expect(resolveSystemPrompt(request, true)).toEqual({
+			system: "Translate to French",
+			messages: request.messages,
+		});
+	});
+
+	it("moves the system prompt into the first user message when unsupported", () => {
+		const resolved = resolveSystemPrompt(request, false);
+		expect(resolved.system).toBeUndefined();
+		expect(resolved.messages).toEqual([
+			{ role: "user", content: "Translate to French" },
+			...request.messages,
+		]);
+	});
+
+	it("returns messages untouched when there is no system prompt", () => {
+		expect(
+			resolveSystemPrompt({ messages: request.messages }, false)
+		).toEqual({ messages: request.messages });
+	});
+});
+
+describe("toRoleMessages", () => {
+	it("prepends a system message when supported", () => {
+		expect(
+			toRoleMessages(buildChatRequest("Rules", "Input", "Ask"), true)
+		).toEqual([
+			{ role: "system", content: "Rules" },
+			{ role: "user", content: "Ask" },
+			{ role: "user", content: "Input" },
+		]);
+	});
+
+	it("uses a user message for the prompt when unsupported", () => {
+		expect(
+			toRoleMessages(buildChatRequest("Rules", "Input"), false)
+		).toEqual([
+			{ role: "user", content: "Rules" },
+			{ role: "user", content: "Input" },
+		]);
+	});
+});
+
+describe("toOpenAIVisionMessages", () => {
+	const image = { mimeType: "image/png", data: "iVBORw0KGgo=" };
+
+	it("sends images as image_url parts after the text", () => {
+		expect(
+			toOpenAIVisionMessages(
+				buildChatRequest("Rules", "Input", "Ask", undefined, [image])
+			)
+		).toEqual([
+			{ role: "system", content: "Rules" },
+			{ role: "user", content: "Ask" },
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Input" },
+					{
+						type: "image_url",
+						image_url: {
+							url: "data:image/png;base64,iVBORw0KGgo=",
+						},
+					},
+				],
+			},
+		]);
+	});
+
+	it("sends a pasted image without an empty text part", () => {
+		expect(
+			toOpenAIVisionMessages(
+				buildChatRequest("Transcribe", "", undefined, undefined, [
+					image,
+				])
+			)[1]
+		).toEqual({
+			role: "user",
+			content: [
+				{
+					type: "image_url",
+					image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+				},
+			],
+		});
+	});
+
+	it("leaves images out of plain role messages", () => {
+		expect(
+			toRoleMessages(
+				buildChatRequest("Rules", "Input", undefined, undefined, [
+					image,
+				])
+			)
+		).toEqual([
+			{ role: "system", content: "Rules" },
+			{ role: "user", content: "Input" },
+		]);
+	});
+});
+
+describe("mergeGenerationParams", () => {
+	it("lets later layers override earlier ones", () => {
+		expect(
+			mergeGenerationParams(
+				{ maxOutputTokens: 1000, topP: 0.9 },
+				{ maxOutputTokens: 200 },
+				{ temperature: 0.2 }
+			)
+		).toEqual({ maxOutputTokens: 200, topP: 0.9, temperature: 0.2 });
+	});
+
+	it("ignores unset values and missing layers", () => {
+		expect(
+			mergeGenerationParams({ seed: 7 }, undefined, {
+				seed: undefined,
+				temperature: undefined,
+			})
+		).toEqual({ seed: 7 });
+	});
+});
+
+describe("toOpenAIGenerationParams", () => {
+	it("maps settings to chat-completions fields", () => {
+		expect(
+			toOpenAIGenerationParams({
+				temperature: 0.5,
+				maxOutputTokens: 512,
+				topP: 0.8,
+				stop: ["###"],
+				seed: 42,
+				presencePenalty: 0.5,
+				frequencyPenalty: -0.5,
+			})
+		).toEqual({
+			max_tokens: 512,
+			top_p: 0.8,
+			stop: ["###"],
+			seed: 42,
+			presence_penalty: 0.5,
+			frequency_penalty: -0.5,
+		});
+	});
+
+	it("uses the given max tokens field and omits empty values", () => {
+		expect(
+			toOpenAIGenerationParams(
+				{ maxOutputTokens: 100, stop: [] },
+				"max_completion_tokens"
+			)
+		).toEqual({ max_completion_tokens: 100 });
+		expect(toOpenAIGenerationParams()).toEqual({});
+	});
+});
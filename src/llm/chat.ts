@@ -0,0 +1,227 @@
+// Provider-neutral chat request model shared by all LLM implementations
+import type { RequestPriority } from "./scheduler";
+import type { TokenUsage } from "./usage";
+import type { GenerationSettings, ReasoningEffort } from "../types";
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatImage {
+	mimeType: string; // e.g. "image/png"
+	data: string; // Base64, without the data URL prefix
+}
+
+export interface ChatMessage {
+	role: ChatRole;
+	content: string;
+	/** Sent along with the text to models that accept images */
+	images?: ChatImage[];
+}
+
+export type OpenAIContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
+export interface GenerationParams extends GenerationSettings {
+	temperature?: number;
+	reasoningEffort?: ReasoningEffort;
+}
+
+export interface ChatRequest {
+	/** Instructions for the model; sent as a system prompt when supported */
+	system?: string;
+	/** Ordered conversation turns (few-shot examples, user prompt, input) */
+	messages: ChatMessage[];
+	params?: GenerationParams;
+}
+
+export interface ChatOptions {
+	callback?: (text: string) => void;
+	streaming?: boolean;
+	systemPromptSupport?: boolean;
+	signal?: AbortSignal;
+	/** Called before a failed request is retried, e.g. (2, 3) */
+	onRetry?: (attempt: number, maxAttempts: number) => void;
+	/** Receives token counts once the provider reports them */
+	onUsage?: (usage: TokenUsage) => void;
+	/** Skip cached responses, e.g. to regenerate; the new one is still cached */
+	bypassCache?: boolean;
+	/** Called when the response is replayed from the response cache */
+	onCacheHit?: () => void;
+	/** Interactive by default; background requests yield to interactive ones */
+	priority?: RequestPriority;
+	/** Position in the provider's request queue, from 1; 0 once started */
+	onQueued?: (position: number) => void;
+}
+
+// Embedding requests run through the same retries and request queue
+export type EmbedOptions = Pick<ChatOptions, "signal" | "onRetry" | "priority">;
+
+/**
+ * Build the standard action request: the action prompt as instructions,
+ * then the optional user prompt, then the input text and its images.
+ */
+export function buildChatRequest(
+	prompt: string,
+	content: string,
+	userPrompt?: string,
+	params?: GenerationParams,
+	images?: ChatImage[]
+): ChatRequest {
+	const messages: ChatMessage[] = [];
+
+	if (userPrompt) {
+		messages.push({ role: "user", content: userPrompt });
+	}
+
+	messages.push({
+		role: "user",
+		content: content,
+		...(images?.length ? { images } : {}),
+	});
+
+	return {
+		system: prompt,
+		messages,
+		...(params ? { params } : {}),
+	};
+}
+
+/**
+ * Combine generation settings from least to most specific
+ * (model defaults, then action overrides). Unset values never override.
+ */
+export function mergeGenerationParams(
+	...layers: Array<GenerationParams | undefined>
+): GenerationParams {
+	const params: GenerationParams = {};
+
+	for (const layer of layers) {
+		for (const key of Object.keys(layer ?? {}) as Array<
+			keyof GenerationParams
+		>) {
+			if (layer?.[key] !== undefined) {
+				Object.assign(params, { [key]: layer[key] });
+			}
+		}
+	}
+
+	return params;
+}
+
+/**
+ * Generation params under OpenAI chat-completions field names.
+ * Temperature is left to getTemperatureParam; unset values are omitted.
+ */
+export function toOpenAIGenerationParams(
+	params: GenerationParams = {},
+	maxTokensKey: "max_tokens" | "max_completion_tokens" = "max_tokens"
+): Record<string, number | string[]> {
+	const body: Record<string, number | string[]> = {};
+
+	if (params.maxOutputTokens !== undefined) {
+		body[maxTokensKey] = params.maxOutputTokens;
+	}
+	if (params.topP !== undefined) {
+		body["top_p"] = params.topP;
+	}
+	if (params.stop?.length) {
+		body["stop"] = params.stop;
+	}
+	if (params.seed !== undefined) {
+		body["seed"] = params.seed;
+	}
+	if (params.presencePenalty !== undefined) {
+		body["presence_penalty"] = params.presencePenalty;
+	}
+	if (params.frequencyPenalty !== undefined) {
+		body["frequency_penalty"] = params.frequencyPenalty;
+	}
+
+	return body;
+}
+
+/**
+ * Resolve where the system prompt goes for a model.
+ * Models without system prompt support receive it as the first user message.
+ */
+export function resolveSystemPrompt(
+	request: ChatRequest,
+	systemPromptSupport: boolean = true
+): { system?: string; messages: ChatMessage[] } {
+	if (request.system === undefined) {
+		return { messages: request.messages };
+	}
+
+	if (systemPromptSupport) {
+		return { system: request.system, messages: request.messages };
+	}
+
+	return {
+		messages: [
+			{ role: "user", content: request.system },
+			...request.messages,
+		],
+	};
+}
+
+/**
+ * Flatten the request into OpenAI-style role/content messages.
+ * Used by every chat-completions compatible provider; images are left out.
+ */
+export function toRoleMessages(
+	request: ChatRequest,
+	systemPromptSupport: boolean = true
+): Array<{ role: "system" | ChatRole; content: string }> {
+	const { system, messages } = resolveSystemPrompt(
+		request,
+		systemPromptSupport
+	);
+	const roleMessages = messages.map(({ role, content }) => ({
+		role,
+		content,
+	}));
+
+	return system !== undefined
+		? [{ role: "system", content: system }, ...roleMessages]
+		: roleMessages;
+}
+
+export function toDataUrl(image: ChatImage): string {
+	return `data:${image.mimeType};base64,${image.data}`;
+}
+
+/**
+ * Like toRoleMessages, but messages with images get text and image_url
+ * parts, for chat-completions APIs that accept images
+ */
+export function toOpenAIVisionMessages(
+	request: ChatRequest,
+	systemPromptSupport: boolean = true
+): Array<{
+	role: "system" | ChatRole;
+	content: string | OpenAIContentPart[];
+}> {
+	const { system, messages } = resolveSystemPrompt(
+		request,
+		systemPromptSupport
+	);
+	const roleMessages = messages.map(({ role, content, images }) => ({
+		role,
+		content: images?.length
+			? [
+					// An image alone, e.g. a pasted screenshot, has no text
+					...(content
+						? [{ type: "text" as const, text: content }]
+						: []),
+					...images.map(image => ({
+						type: "image_url" as const,
+						image_url: { url: toDataUrl(image) },
+					})),
+				]
+			: content,
+	}));
+
+	return system !== undefined
+		? [{ role: "system", content: system }, ...roleMessages]
+		: roleMessages;
+}
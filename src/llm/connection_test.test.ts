@@ -0,0 +1,201 @@
+import { requestUrl } from "obsidian";
+import { testProviderConnection } from "./connection_test";
+import type { AIProvider } from "../types";
+
+const requestUrlMock = requestUrl as jest.Mock;
+
+const openai: AIProvider = {
+	id: "openai",
+	name: "OpenAI",
+	type: "openai",
+	url: "https://api.openai.com/v1",
+	apiKey: "sk-test",
+};
+
+describe("testProviderConnection", () => {
+	let fetchMock: jest.Mock;
+	const originalFetch = globalThis.fetch;
+
+	beforeEach(() => {
+		requestUrlMock.mockReset();
+		fetchMock = jest.fn(() => Promise.resolve({ status: 200 }));
+		globalThis.fetch = fetchMock;
+	});
+
+	afterAll(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("reports latency and a working key", async () => {
+		requestUrlMock.mockResolvedValue({ status: 200, text: "{}" });
+		let time = 1000;
+
+		const result = await testProviderConnection(openai, {
+			now: () => (time += 120),
+		});
+
+		expect(requestUrlMock).toHaveBeenCalledWith(
+			expect.objectContaining({
+				url: "https://api.openai.com/v1/models",
+				method: "GET",
+				headers: { Authorization: "Bearer sk-test" },
+			})
+		);
+		expect(result).toEqual({
+			ok: true,
+			endpoint: "GET /v1/models",
+			status: 200,
+			latencyMs: 120,
+			auth: "ok",
+			nativeFetchRequired: false,
+			message: "Connected in 120 ms.",
+		});
+	});
+
+	it("checks Ollama through its tags endpoint without a key", async () => {
+		requestUrlMock.mockResolvedValue({ status: 200, text: "{}" });
+
+		const result = await testProviderConnection({
+			id: "ollama",
+			name: "Ollama",
+			type: "ollama",
+			url: "http://localhost:11434",
+		});
+
+		expect(requestUrlMock).toHaveBeenCalledWith(
+			expect.objectContaining({ url: "http://localhost:11434/api/tags" })
+		);
+		expect(result.auth).toBe("not required");
+	});
+
+	it("explains a rejected key", async () => {
+		requestUrlMock.mockResolvedValue({ status: 401, text: "" });
+
+		const result = await testProviderConnection(openai);
+
+		expect(result).toMatchObject({
+			ok: false,
+			auth: "failed",
+			problem: "auth",
+		});
+		expect(result.remediation).toContain("API key");
+	});
+
+	it("falls back to a one-token completion without a model list", async () => {
+		requestUrlMock
+			.mockResolvedValueOnce({ status: 404, text: "" })
+			.mockResolvedValueOnce({ status: 200, text: "{}" });
+
+		const result = await testProviderConnection({
+			id: "custom",
+			name: "Custom",
+			type: "custom",
+			url: "https://llm.example.com/v1",
+			apiKey: "key",
+			availableModels: ["local-model"],
+		});
+
+		expect(requestUrlMock).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				url: "https://llm.example.com/v1/chat/completions",
+				method: "POST",
+				body: JSON.stringify({
+					model: "local-model",
+					messages: [{ role: "user", content: "Hi" }],
+					max_tokens: 1,
+				}),
+			})
+		);
+		expect(result).toMatchObject({
+			ok: true,
+			endpoint: "POST /v1/chat/completions",
+		});
+	});
+
+	it("detects servers that need native fetch", async () => {
+		requestUrlMock.mockResolvedValue({ status: 200, text: "{}" });
+		fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+		const ollama: AIProvider = {
+			id: "ollama",
+			name: "Ollama",
+			type: "ollama",
+			url: "http://192.168.1.5:11434",
+		};
+
+		const result = await testProviderConnection(ollama);
+
+		expect(result).toMatchObject({
+			ok: false,
+			nativeFetchRequired: true,
+			problem: "cors",
+		});
+		expect(result.remediation).toContain("OLLAMA_ORIGINS");
+
+		const withNativeFetch = await testProviderConnection(ollama, {
+			useNativeFetch: true,
+		});
+		expect(withNativeFetch).toMatchObject({
+			ok: true,
+			nativeFetchRequired: true,
+		});
+	});
+
+	it("recognizes certificate errors", async () => {
+		requestUrlMock.mockRejectedValue(
+			new Error("net::ERR_CERT_AUTHORITY_INVALID")
+		);
+
+		const result = await testProviderConnection(openai);
+
+		expect(result).toMatchObject({
+			ok: false,
+			auth: "unknown",
+			problem: "tls",
+		});
+	});
+
+	it("reports a timeout", async () => {
+		requestUrlMock.mockReturnValue(new Promise(() => undefined));
+
+		const result = await testProviderConnection(openai, { timeoutMs: 10 });
+
+		expect(result.problem).toBe("timeout");
+	});
+
+	it("uses the provider's default URL when none is set", async () => {
+		requestUrlMock.mockResolvedValue({ status: 200, text: "{}" });
+
+		const result = await testProviderConnection({
+			id: "anthropic",
+			name: "Anthropic",
+			type: "anthropic",
+			apiKey: "sk-ant-test",
+		});
+
+		expect(requestUrlMock).toHaveBeenCalledWith(
+			expect.objectContaining({
+				url: "https://api.anthropic.com/v1/models",
+			})
+		);
+		expect(result.ok).toBe(true);
+	});
+
+	it("asks for missing settings before sending anything", async () => {
+		const result = await testProviderConnection({ ...openai, apiKey: "" });
+
+		expect(result).toMatchObject({ ok: false, problem: "config" });
+
+		const azure = await testProviderConnection({
+			id: "azure",
+			name: "Azure",
+			type: "azure",
+			apiKey: "key",
+		});
+		expect(azure).toMatchObject({
+			ok: false,
+			problem: "config",
+			message: "No provider URL is set.",
+		});
+		expect(requestUrlMock).not.toHaveBeenCalled();
+	});
+});
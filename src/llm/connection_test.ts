@@ -0,0 +1,458 @@
+// Provider connection diagnostics for the provider editor
+import { requestUrl } from "obsidian";
+import type { AIProvider, AIProviderType } from "../types";
+import { standardFetch } from "../utils/fetch";
+import { AZURE_DEPLOYMENTS_API_VERSION } from "./azure_openai_llm";
+import {
+	appendQueryParams,
+	getCustomProviderHeaders,
+} from "./custom_openai_llm";
+
+export type ConnectionProblem =
+	| "config"
+	| "auth"
+	| "not-found"
+	| "rate-limit"
+	| "server"
+	| "tls"
+	| "network"
+	| "timeout"
+	| "cors";
+
+export interface ConnectionTestResult {
+	ok: boolean;
+	/** The request that was made, e.g. "GET /api/tags" */
+	endpoint?: string;
+	status?: number;
+	latencyMs?: number;
+	/** Whether the API key was accepted; unknown when the server was not reached */
+	auth: "ok" | "failed" | "not required" | "unknown";
+	/** The server works but blocks plugin requests made with the standard fetch */
+	nativeFetchRequired?: boolean;
+	problem?: ConnectionProblem;
+	message: string;
+	remediation?: string;
+}
+
+export interface ConnectionTestOptions {
+	useNativeFetch?: boolean;
+	timeoutMs?: number;
+	now?: () => number;
+}
+
+interface Probe {
+	url: string;
+	method: "GET" | "POST";
+	headers: Record<string, string>;
+	body?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Where the LLM classes send requests when the provider has no URL;
+// Azure has no default endpoint
+const DEFAULT_BASE_URLS: Partial<Record<AIProviderType, string>> = {
+	openai: "https://api.openai.com/v1",
+	anthropic: "https://api.anthropic.com",
+	ollama: "http://localhost:11434",
+	gemini: "https://generativelanguage.googleapis.com/v1beta",
+	openrouter: "https://openrouter.ai/api/v1",
+	lmstudio: "http://localhost:1234/v1",
+	groq: "https://api.groq.com/openai/v1",
+	mistral: "https://api.mistral.ai/v1",
+	deepseek: "https://api.deepseek.com",
+	custom: "http://localhost:8000/v1",
+};
+
+function trimUrl(url: string): string {
+	return url.replace(/\/+$/, "");
+}
+
+function getBaseUrl(provider: AIProvider): string {
+	return trimUrl(
+		provider.url?.trim() || DEFAULT_BASE_URLS[provider.type] || ""
+	);
+}
+
+/**
+ * The cheapest request that proves the URL and key work: a model list
+ * where the provider has one (no tokens used)
+ */
+function getProbe(provider: AIProvider): Probe {
+	const baseUrl = getBaseUrl(provider);
+	const apiKey = provider.apiKey ?? "";
+
+	switch (provider.type) {
+		case "ollama":
+			return {
+				url: `${baseUrl.replace(/\/v1$/, "")}/api/tags`,
+				method: "GET",
+				headers: {},
+			};
+		case "anthropic":
+			return {
+				url: `${baseUrl}/v1/models`,
+				method: "GET",
+				headers: {
+					"x-api-key": apiKey,
+					"anthropic-version": ANTHROPIC_VERSION,
+					// Sent by the SDK, which the plugin uses in the browser
+					"anthropic-dangerous-direct-browser-access": "true",
+				},
+			};
+		case "gemini":
+			return {
+				url: `${baseUrl.replace(/\/openai$/, "")}/models?key=${encodeURIComponent(apiKey)}`,
+				method: "GET",
+				headers: {},
+			};
+		case "azure":
+			return {
+				url: `${baseUrl}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`,
+				method: "GET",
+				headers: { "api-key": apiKey },
+			};
+		case "custom":
+			return {
+				url: appendQueryParams(
+					`${baseUrl}/models`,
+					provider.queryParams
+				),
+				method: "GET",
+				headers: getCustomProviderHeaders(provider),
+			};
+		default:
+			return {
+				url: `${baseUrl}/models`,
+				method: "GET",
+				headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+			};
+	}
+}
+
+/**
+ * Some OpenAI-compatible servers have no model list; a one-token
+ * completion with a known model checks them instead
+ */
+function getCompletionProbe(provider: AIProvider): Probe | null {
+	const model = provider.availableModels?.[0];
+	if (provider.type !== "custom" || !model) {
+		return null;
+	}
+
+	return {
+		url: appendQueryParams(
+			`${getBaseUrl(provider)}/chat/completions`,
+			provider.queryParams
+		),
+		method: "POST",
+		headers: {
+			...getCustomProviderHeaders(provider),
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify({
+			model,
+			messages: [{ role: "user", content: "Hi" }],
+			max_tokens: 1,
+		}),
+	};
+}
+
+function describeEndpoint(probe: Probe): string {
+	try {
+		// The path only: Gemini keys are sent in the query string
+		return `${probe.method} ${new URL(probe.url).pathname}`;
+	} catch {
+		return probe.method;
+	}
+}
+
+function isKeyRequired(provider: AIProvider): boolean {
+	if (provider.type === "ollama" || provider.type === "lmstudio") {
+		return false;
+	}
+	return !(provider.type === "custom" && provider.authScheme === "none");
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(() => {
+			const error = new Error(`Timed out after ${timeoutMs} ms`);
+			error.name = "TimeoutError";
+			reject(error);
+		}, timeoutMs);
+		promise.then(
+			value => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(error: unknown) => {
+				clearTimeout(timer);
+				reject(
+					error instanceof Error ? error : new Error(String(error))
+				);
+			}
+		);
+	});
+}
+
+/**
+ * Explain a request that never got a response
+ */
+function describeNetworkError(
+	error: Error,
+	provider: AIProvider
+): Pick<ConnectionTestResult, "problem" | "message" | "remediation"> {
+	const text = `${error.name} ${error.message}`;
+
+	if (error.name === "TimeoutError") {
+		return {
+			problem: "timeout",
+			message: "The server did not answer in time.",
+			remediation:
+				"Check that the server is running and reachable from this device. Local servers can be slow while a model loads; try again.",
+		};
+	}
+
+	if (/CERT|SSL|TLS|certificate/i.test(text)) {
+		return {
+			problem: "tls",
+			message: `The secure connection failed: ${error.message}`,
+			remediation:
+				"The server's certificate is not trusted. Use a certificate from a trusted authority, add your own CA to the system's trust store, or use http:// for a server on your local network.",
+		};
+	}
+
+	if (/NAME_NOT_RESOLVED|ENOTFOUND|EAI_AGAIN/i.test(text)) {
+		return {
+			problem: "network",
+			message: `The host name could not be found: ${error.message}`,
+			remediation:
+				"Check the provider URL for typos and that this device is online.",
+		};
+	}
+
+	if (/CONNECTION_REFUSED|ECONNREFUSED/i.test(text)) {
+		const isLocal =
+			provider.type === "ollama" || provider.type === "lmstudio";
+		return {
+			problem: "network",
+			message: `The connection was refused: ${error.message}`,
+			remediation: isLocal
+				? "Start the local server and check its port in the provider URL. On mobile, localhost is the phone itself; use the computer's network address instead."
+				: "Check the host and port in the provider URL and that the server is running.",
+		};
+	}
+
+	return {
+		problem: "network",
+		message: `The server could not be reached: ${error.message}`,
+		remediation:
+			"Check the provider URL, your internet connection and any proxy or firewall.",
+	};
+}
+
+/**
+ * Explain an HTTP error status from the probe
+ */
+function describeStatus(
+	status: number,
+	provider: AIProvider
+): Pick<ConnectionTestResult, "problem" | "message" | "remediation"> {
+	if (status === 401 || status === 403) {
+		return {
+			problem: "auth",
+			message: `The API key was rejected (HTTP ${status}).`,
+			remediation:
+				provider.type === "custom"
+					? "Check the API key and the authentication setting; some servers expect an API-key header instead of a bearer token."
+					: "Check that the API key is complete, active and belongs to this provider.",
+		};
+	}
+
+	if (status === 404) {
+		return {
+			problem: "not-found",
+			message:
+				"The server answered, but the endpoint was not found (HTTP 404).",
+			remediation:
+				provider.type === "ollama"
+					? "Use the server's base URL without a path, e.g. http://localhost:11434."
+					: provider.type === "anthropic"
+						? "Use the base URL without a path, e.g. https://api.anthropic.com."
+						: "Check the path in the provider URL; OpenAI-compatible URLs usually end in /v1.",
+		};
+	}
+
+	if (status === 429) {
+		return {
+			problem: "rate-limit",
+			message:
+				"The key works, but the provider is rate limiting it (HTTP 429).",
+			remediation:
+				"Wait a moment, check the quota or billing of the account, or set request limits for this provider.",
+		};
+	}
+
+	return {
+		problem: "server",
+		message: `The server returned an error (HTTP ${status}).`,
+		remediation:
+			status >= 500
+				? "The provider has a temporary problem; try again later."
+				: "Check the provider URL and settings.",
+	};
+}
+
+function getAuthStatus(
+	status: number,
+	provider: AIProvider
+): ConnectionTestResult["auth"] {
+	if (status === 401 || status === 403) return "failed";
+	if (!isKeyRequired(provider) && !provider.apiKey) return "not required";
+	return status === 404 ? "unknown" : "ok";
+}
+
+async function sendProbe(
+	probe: Probe,
+	timeoutMs: number
+): Promise<{ status: number }> {
+	const response = await withTimeout(
+		requestUrl({
+			url: probe.url,
+			method: probe.method,
+			headers: probe.headers,
+			...(probe.body ? { body: probe.body } : {}),
+			throw: false,
+		}),
+		timeoutMs
+	);
+	return { status: response.status };
+}
+
+/**
+ * Whether the standard fetch reaches a server that answers Obsidian's
+ * requestUrl; it fails when the server sends no CORS headers
+ */
+async function isReachableWithStandardFetch(
+	probe: Probe,
+	timeoutMs: number
+): Promise<boolean> {
+	try {
+		await withTimeout(
+			standardFetch(probe.url, {
+				method: probe.method,
+				headers: probe.headers,
+				...(probe.body ? { body: probe.body } : {}),
+			}),
+			timeoutMs
+		);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check a provider's URL and API key with a cheap request and explain
+ * what is wrong, if anything
+ */
+export async function testProviderConnection(
+	provider: AIProvider,
+	options: ConnectionTestOptions = {}
+): Promise<ConnectionTestResult> {
+	const { timeoutMs = DEFAULT_TIMEOUT_MS, now = Date.now } = options;
+
+	if (provider.type === "mock") {
+		return {
+			ok: true,
+			auth: "not required",
+			message:
+				"The mock provider answers offline; nothing to connect to.",
+		};
+	}
+
+	if (!getBaseUrl(provider)) {
+		return {
+			ok: false,
+			auth: "unknown",
+			problem: "config",
+			message: "No provider URL is set.",
+			remediation: "Enter the API endpoint URL of the provider.",
+		};
+	}
+
+	if (isKeyRequired(provider) && !provider.apiKey?.trim()) {
+		return {
+			ok: false,
+			auth: "failed",
+			problem: "config",
+			message: "No API key is set.",
+			remediation: "Enter the API key from the provider's dashboard.",
+		};
+	}
+
+	let probe = getProbe(provider);
+	const startedAt = now();
+	let status: number;
+	try {
+		status = (await sendProbe(probe, timeoutMs)).status;
+
+		const completionProbe =
+			status === 404 ? getCompletionProbe(provider) : null;
+		if (completionProbe) {
+			probe = completionProbe;
+			status = (await sendProbe(probe, timeoutMs)).status;
+		}
+	} catch (error) {
+		return {
+			ok: false,
+			endpoint: describeEndpoint(probe),
+			auth: "unknown",
+			...describeNetworkError(error as Error, provider),
+		};
+	}
+	const latencyMs = now() - startedAt;
+
+	const endpoint = describeEndpoint(probe);
+	const auth = getAuthStatus(status, provider);
+	if (status < 200 || status >= 300) {
+		return {
+			ok: false,
+			endpoint,
+			status,
+			latencyMs,
+			auth,
+			...describeStatus(status, provider),
+		};
+	}
+
+	// Requests from the plugin use the standard fetch unless native fetch is on
+	const nativeFetchRequired = !(await isReachableWithStandardFetch(
+		probe,
+		timeoutMs
+	));
+	const result: ConnectionTestResult = {
+		ok: true,
+		endpoint,
+		status,
+		latencyMs,
+		auth,
+		nativeFetchRequired,
+		message: `Connected in ${latencyMs} ms.`,
+	};
+
+	if (nativeFetchRequired && !options.useNativeFetch) {
+		result.ok = false;
+		result.problem = "cors";
+		result.message = `Connected in ${latencyMs} ms, but the server blocks browser requests (CORS).`;
+		result.remediation =
+			provider.type === "ollama"
+				? "Turn on native fetch in the plugin settings, or start Ollama with OLLAMA_ORIGINS=app://obsidian.md*."
+				: "Turn on native fetch in the plugin settings.";
+	}
+
+	return result;
+}
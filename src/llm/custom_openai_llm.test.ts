@@ -0,0 +1,251 @@
+import {
+	CustomOpenAILLM,
+	appendQueryParams,
+	getCustomProviderHeaders,
+} from "./custom_openai_llm";
+import type { AIProvider } from "../types";
+import { standardFetch } from "../utils/fetch";
+
+// Ensure TextEncoder/TextDecoder exist in the Jest environment.
+// Obsidian plugins run in a browser-like context where these are typically available.
+const g = globalThis as typeof globalThis & {
+	TextEncoder?: typeof TextEncoder;
+	TextDecoder?: typeof TextDecoder;
+};
+
+if (typeof g.TextEncoder === "undefined") {
+	class FallbackTextEncoder {
+		encode(input = ""): Uint8Array {
+			// ASCII/UTF-8 subset is sufficient for JSON test payloads used here.
+			const bytes = new Uint8Array(input.length);
+			for (let i = 0; i < input.length; i++) {
+				bytes[i] = input.charCodeAt(i) & 0xff;
+			}
+			return bytes;
+		}
+	}
+
+	g.TextEncoder = FallbackTextEncoder as unknown as typeof TextEncoder;
+}
+
+if (typeof g.TextDecoder === "undefined") {
+	class FallbackTextDecoder {
+		decode(input?: ArrayBuffer | ArrayBufferView): string {
+			if (!input) return "";
+			const view =
+				input instanceof ArrayBuffer
+					? new Uint8Array(input)
+					: new Uint8Array(
+							input.buffer,
+							input.byteOffset,
+							input.byteLength
+						);
+			let out = "";
+			for (let i = 0; i < view.length; i++) {
+				out += String.fromCharCode(view[i]);
+			}
+			return out;
+		}
+	}
+
+	g.TextDecoder = FallbackTextDecoder as unknown as typeof TextDecoder;
+}
+
+// Mock the fetch functions
+jest.mock("../utils/fetch", () => ({
+	nativeFetch: jest.fn(),
+	standardFetch: jest.fn(),
+}));
+
+function createStreamResponse(lines: string[]) {
+	const read = jest.fn();
+	lines.forEach(line => {
+		read.mockResolvedValueOnce({
+			done: false,
+			value: new TextEncoder().encode(`${line}\n`),
+		});
+	});
+	read.mockResolvedValueOnce({ done: true, value: undefined });
+
+	return {
+		ok: true,
+		body: {
+			getReader: jest.fn().mockReturnValue({
+				read,
+				releaseLock: jest.fn(),
+			}),
+		},
+	};
+}
+
+describe("CustomOpenAILLM", () => {
+	let mockProvider: AIProvider;
+	let mockFetch: jest.Mock;
+
+	beforeEach(() => {
+		mockProvider = {
+			id: "test-custom",
+			name: "Gateway",
+			type: "custom",
+			apiKey: "test-api-key",
+			url: "https://gateway.example.com/v1",
+		};
+
+		jest.clearAllMocks();
+		mockFetch = standardFetch as jest.Mock;
+	});
+
+	describe("getCustomProviderHeaders", () => {
+		it("should send the API key as a bearer token by default", () => {
+			expect(getCustomProviderHeaders(mockProvider)).toEqual({
+				"Content-Type": "application/json",
+				Authorization: "Bearer test-api-key",
+			});
+		});
+
+		it("should send the API key in an api-key header", () => {
+			expect(
+				getCustomProviderHeaders({
+					...mockProvider,
+					authScheme: "api-key",
+				})
+			).toEqual({
+				"Content-Type": "application/json",
+				"api-key": "test-api-key",
+			});
+		});
+
+		it("should not send the API key when authentication is off", () => {
+			expect(
+				getCustomProviderHeaders({
+					...mockProvider,
+					authScheme: "none",
+				})
+			).toEqual({
+				"Content-Type": "application/json",
+			});
+		});
+
+		it("should add extra headers after the defaults", () => {
+			expect(
+				getCustomProviderHeaders({
+					...mockProvider,
+					headers: {
+						"X-Team": "writing",
+						Authorization: "Token abc",
+					},
+				})
+			).toEqual({
+				"Content-Type": "application/json",
+				Authorization: "Token abc",
+				"X-Team": "writing",
+			});
+		});
+	});
+
+	describe("appendQueryParams", () => {
+		it("should leave the URL unchanged without parameters", () => {
+			expect(appendQueryParams("https://a.test/v1/models")).toBe(
+				"https://a.test/v1/models"
+			);
+		});
+
+		it("should append encoded parameters", () => {
+			expect(
+				appendQueryParams("https://a.test/v1/models", {
+					tenant: "team a",
+					v: "2",
+				})
+			).toBe("https://a.test/v1/models?tenant=team+a&v=2");
+		});
+
+		it("should keep parameters already in the URL", () => {
+			expect(appendQueryParams("https://a.test/v1?x=1", { v: "2" })).toBe(
+				"https://a.test/v1?x=1&v=2"
+			);
+		});
+	});
+
+	describe("chat", () => {
+		it("should send configured headers and query parameters", async () => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				json: jest.fn().mockResolvedValue({
+					choices: [{ message: { content: "Hello" } }],
+					usage: { prompt_tokens: 10, completion_tokens: 2 },
+				}),
+			});
+			const llm = new CustomOpenAILLM(
+				{
+					...mockProvider,
+					authScheme: "api-key",
+					headers: { "X-Team": "writing" },
+					queryParams: { tenant: "docs" },
+				},
+				"llama-3"
+			);
+			const onUsage = jest.fn();
+
+			const result = await llm.chat(
+				{ messages: [{ role: "user", content: "Hi" }] },
+				{ onUsage }
+			);
+
+			expect(result).toBe("Hello");
+			expect(onUsage).toHaveBeenCalledWith({
+				inputTokens: 10,
+				outputTokens: 2,
+			});
+			expect(mockFetch).toHaveBeenCalledWith(
+				"https://gateway.example.com/v1/chat/completions?tenant=docs",
+				{
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						"api-key": "test-api-key",
+						"X-Team": "writing",
+					},
+					body: JSON.stringify({
+						model: "llama-3",
+						messages: [{ role: "user", content: "Hi" }],
+						temperature: 0.7,
+						stream: false,
+					}),
+				}
+			);
+		});
+
+		it("should stream content and reasoning deltas", async () => {
+			mockFetch.mockResolvedValue(
+				createStreamResponse([
+					'data: {"choices":[{"delta":{"reasoning_content":"Plan"}}]}',
+					'data: {"choices":[{"delta":{"content":"Done"}}]}',
+					"data: [DONE]",
+				])
+			);
+			const llm = new CustomOpenAILLM(mockProvider, "llama-3");
+			const callback = jest.fn();
+
+			await llm.chat(
+				{ messages: [{ role: "user", content: "Hi" }] },
+				{ callback, streaming: true }
+			);
+
+			expect(callback).toHaveBeenNthCalledWith(1, "<think>Plan");
+			expect(callback).toHaveBeenNthCalledWith(2, "</think>Done");
+		});
+
+		it("should report API errors", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 401,
+				statusText: "Unauthorized",
+			});
+			const llm = new CustomOpenAILLM(mockProvider, "llama-3");
+
+			await expect(
+				llm.chat({ messages: [{ role: "user", content: "Hi" }] })
+			).rejects.toThrow("OpenAI-compatible API error: 401 Unauthorized");
+		});
+	});
+});
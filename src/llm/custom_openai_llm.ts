@@ -0,0 +1,152 @@
+import { BaseProviderLLM } from "./base_provider_llm";
+import { toOpenAIGenerationParams, toRoleMessages } from "./chat";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import type { AIProvider } from "../types";
+import { createResponseError } from "./errors";
+import {
+	getFirstDeltaParts,
+	getFirstMessageContent,
+	isRecord,
+} from "./response_parts";
+
+/**
+ * Request headers for a custom provider: the API key according to its
+ * auth scheme, followed by the user's extra headers
+ */
+export function getCustomProviderHeaders(
+	provider: AIProvider
+): Record<string, string> {
+	const headers: Record<string, string> = {
+		"Content-Type": "application/json",
+	};
+
+	const authScheme = provider.authScheme ?? "bearer";
+	if (provider.apiKey && authScheme === "bearer") {
+		headers["Authorization"] = `Bearer ${provider.apiKey}`;
+	} else if (provider.apiKey && authScheme === "api-key") {
+		headers["api-key"] = provider.apiKey;
+	}
+
+	return { ...headers, ...provider.headers };
+}
+
+/**
+ * Append query parameters to a URL, keeping any it already has
+ */
+export function appendQueryParams(
+	url: string,
+	params?: Record<string, string>
+): string {
+	const query = new URLSearchParams(params).toString();
+	if (!query) {
+		return url;
+	}
+
+	return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+export class CustomOpenAILLM extends BaseProviderLLM {
+	constructor(
+		provider: AIProvider,
+		modelName: string,
+		useNativeFetch: boolean = false,
+		temperatureSupported: boolean = true
+	) {
+		super(provider, modelName, useNativeFetch, temperatureSupported);
+	}
+
+	protected getDefaultBaseUrl(): string {
+		return "http://localhost:8000/v1";
+	}
+
+	protected getRequestUrl(endpoint: string): string {
+		return appendQueryParams(
+			super.getRequestUrl(endpoint),
+			this.provider.queryParams
+		);
+	}
+
+	protected getHeaders(): Record<string, string> {
+		return getCustomProviderHeaders(this.provider);
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toRoleMessages(request, systemPromptSupport);
+
+		const body = {
+			model: this.modelName,
+			messages: messages,
+			...this.getTemperatureParam(temperature),
+			...toOpenAIGenerationParams(request.params),
+			stream: streaming,
+			// Usage is only sent in the final chunk when requested
+			...(streaming ? { stream_options: { include_usage: true } } : {}),
+		};
+
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
+
+		if (!response.ok) {
+			throw await createResponseError(
+				response,
+				"OpenAI-compatible API error"
+			);
+		}
+
+		if (streaming && callback) {
+			// Streaming mode
+			await this.readChatCompletionStream(
+				response,
+				callback,
+				data => getFirstDeltaParts(data),
+				{ signal, onUsage }
+			);
+			return;
+		} else {
+			// Non-streaming mode
+			const data: unknown = await response.json();
+
+			let result = "";
+			const messageContent = getFirstMessageContent(data);
+			result = messageContent ?? "";
+
+			const usage = parseOpenAIUsage(
+				isRecord(data) ? data["usage"] : undefined
+			);
+			if (usage) {
+				onUsage?.(usage);
+			}
+
+			// Call callback with the full result if provided
+			if (callback && result) {
+				callback(result);
+			}
+
+			return result;
+		}
+	}
+
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		return this.requestOpenAIEmbeddings(
+			texts,
+			options,
+			"OpenAI-compatible API error"
+		);
+	}
+}
@@ -0,0 +1,181 @@
+import { DeepSeekLLM } from "./deepseek_llm";
+import type { AIProvider } from "../types";
+import { standardFetch } from "../utils/fetch";
+
+// Ensure TextEncoder/TextDecoder exist in the Jest environment.
+// Obsidian plugins run in a browser-like context where these are typically available.
+const g = globalThis as typeof globalThis & {
+	TextEncoder?: typeof TextEncoder;
+	TextDecoder?: typeof TextDecoder;
+};
+
+if (typeof g.TextEncoder === "undefined") {
+	class FallbackTextEncoder {
+		encode(input = ""): Uint8Array {
+			// ASCII/UTF-8 subset is sufficient for JSON test payloads used here.
+			const bytes = new Uint8Array(input.length);
+			for (let i = 0; i < input.length; i++) {
+				bytes[i] = input.charCodeAt(i) & 0xff;
+			}
+			return bytes;
+		}
+	}
+
+	g.TextEncoder = FallbackTextEncoder as unknown as typeof TextEncoder;
+}
+
+if (typeof g.TextDecoder === "undefined") {
+	class FallbackTextDecoder {
+		decode(input?: ArrayBuffer | ArrayBufferView): string {
+			if (!input) return "";
+			const view =
+				input instanceof ArrayBuffer
+					? new Uint8Array(input)
+					: new Uint8Array(
+							input.buffer,
+							input.byteOffset,
+							input.byteLength
+						);
+			let out = "";
+			for (let i = 0; i < view.length; i++) {
+				out += String.fromCharCode(view[i]);
+			}
+			return out;
+		}
+	}
+
+	g.TextDecoder = FallbackTextDecoder as unknown as typeof TextDecoder;
+}
+
+// Mock the fetch functions
+jest.mock("../utils/fetch", () => ({
+	nativeFetch: jest.fn(),
+	standardFetch: jest.fn(),
+}));
+
+function createStreamResponse(lines: string[]) {
+	const read = jest.fn();
+	lines.forEach(line => {
+		read.mockResolvedValueOnce({
+			done: false,
+			value: new TextEncoder().encode(`${line}\n`),
+		});
+	});
+	read.mockResolvedValueOnce({ done: true, value: undefined });
+
+	return {
+		ok: true,
+		body: {
+			getReader: jest.fn().mockReturnValue({
+				read,
+				releaseLock: jest.fn(),
+			}),
+		},
+	};
+}
+
+describe("DeepSeekLLM", () => {
+	let llm: DeepSeekLLM;
+	let mockFetch: jest.Mock;
+
+	beforeEach(() => {
+		const provider: AIProvider = {
+			id: "test-deepseek",
+			name: "DeepSeek",
+			type: "deepseek",
+			apiKey: "test-api-key",
+		};
+
+		jest.clearAllMocks();
+		llm = new DeepSeekLLM(provider, "deepseek-reasoner");
+		mockFetch = standardFetch as jest.Mock;
+	});
+
+	it("should use the default base URL", () => {
+		expect(llm["getBaseUrl"]()).toBe("https://api.deepseek.com");
+	});
+
+	it("should stream reasoning_content as think tags", async () => {
+		mockFetch.mockResolvedValue(
+			createStreamResponse([
+				'data: {"choices":[{"delta":{"reasoning_content":"First"}}]}',
+				'data: {"choices":[{"delta":{"reasoning_content":" then"}}]}',
+				'data: {"choices":[{"delta":{"content":"Result"}}]}',
+				'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":30,"completion_tokens_details":{"reasoning_tokens":20}}}',
+				"data: [DONE]",
+			])
+		);
+		const callback = jest.fn();
+		const onUsage = jest.fn();
+
+		await llm.chat(
+			{ messages: [{ role: "user", content: "Hi" }] },
+			{ callback, streaming: true, onUsage }
+		);
+
+		expect(callback.mock.calls).toEqual([
+			["<think>First"],
+			[" then"],
+			["</think>Result"],
+		]);
+		expect(onUsage).toHaveBeenCalledWith({
+			inputTokens: 12,
+			outputTokens: 30,
+			reasoningTokens: 20,
+		});
+		expect(mockFetch).toHaveBeenCalledWith(
+			"https://api.deepseek.com/chat/completions",
+			expect.objectContaining({
+				body: JSON.stringify({
+					model: "deepseek-reasoner",
+					messages: [{ role: "user", content: "Hi" }],
+					temperature: 0.7,
+					stream: true,
+					stream_options: { include_usage: true },
+				}),
+			})
+		);
+	});
+
+	it("should close an unfinished think tag when the stream ends", async () => {
+		mockFetch.mockResolvedValue(
+			createStreamResponse([
+				'data: {"choices":[{"delta":{"reasoning_content":"Only thoughts"}}]}',
+				"data: [DONE]",
+			])
+		);
+		const callback = jest.fn();
+
+		await llm.chat(
+			{ messages: [{ role: "user", content: "Hi" }] },
+			{ callback, streaming: true }
+		);
+
+		expect(callback.mock.calls).toEqual([
+			["<think>Only thoughts"],
+			["</think>"],
+		]);
+	});
+
+	it("should return only the answer in non-streaming mode", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			json: jest.fn().mockResolvedValue({
+				choices: [
+					{
+						message: {
+							reasoning_content: "Hidden",
+							content: "Visible",
+						},
+					},
+				],
+			}),
+		});
+
+		const result = await llm.chat({
+			messages: [{ role: "user", content: "Hi" }],
+		});
+
+		expect(result).toBe("Visible");
+	});
+});
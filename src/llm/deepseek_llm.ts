@@ -0,0 +1,115 @@
+import { BaseProviderLLM } from "./base_provider_llm";
+import { toOpenAIGenerationParams, toRoleMessages } from "./chat";
+import type { ChatOptions, ChatRequest } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import type { AIProvider } from "../types";
+import { createResponseError } from "./errors";
+import { isRecord, isUnknownArray } from "./response_parts";
+
+/**
+ * Answer and reasoning text of the first choice's delta or message.
+ * deepseek-reasoner sends its chain of thought as reasoning_content.
+ */
+function getFirstChoiceParts(
+	value: unknown,
+	field: "delta" | "message"
+): { content: string; reasoning: string } {
+	const empty = { content: "", reasoning: "" };
+	if (!isRecord(value)) return empty;
+
+	const choices = value["choices"];
+	if (!isUnknownArray(choices) || choices.length === 0) return empty;
+
+	const firstChoice = choices[0];
+	if (!isRecord(firstChoice)) return empty;
+
+	const entry = firstChoice[field];
+	if (!isRecord(entry)) return empty;
+
+	const content = entry["content"];
+	const reasoning = entry["reasoning_content"];
+	return {
+		content: typeof content === "string" ? content : "",
+		reasoning: typeof reasoning === "string" ? reasoning : "",
+	};
+}
+
+export class DeepSeekLLM extends BaseProviderLLM {
+	constructor(
+		provider: AIProvider,
+		modelName: string,
+		useNativeFetch: boolean = false,
+		temperatureSupported: boolean = true
+	) {
+		super(provider, modelName, useNativeFetch, temperatureSupported);
+	}
+
+	protected getDefaultBaseUrl(): string {
+		return "https://api.deepseek.com";
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toRoleMessages(request, systemPromptSupport);
+
+		const body = {
+			model: this.modelName,
+			messages: messages,
+			...this.getTemperatureParam(temperature),
+			...toOpenAIGenerationParams(request.params),
+			stream: streaming,
+			// Usage is only sent in the final chunk when requested
+			...(streaming ? { stream_options: { include_usage: true } } : {}),
+		};
+
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
+
+		if (!response.ok) {
+			throw await createResponseError(response, "DeepSeek API error");
+		}
+
+		if (streaming && callback) {
+			// Streaming mode
+			await this.readChatCompletionStream(
+				response,
+				callback,
+				data => getFirstChoiceParts(data, "delta"),
+				{ signal, onUsage }
+			);
+			return;
+		} else {
+			// Non-streaming mode
+			const data: unknown = await response.json();
+			const result = getFirstChoiceParts(data, "message").content;
+
+			const usage = parseOpenAIUsage(
+				isRecord(data) ? data["usage"] : undefined
+			);
+			if (usage) {
+				onUsage?.(usage);
+			}
+
+			// Call callback with the full result if provided
+			if (callback && result) {
+				callback(result);
+			}
+
+			return result;
+		}
+	}
+}
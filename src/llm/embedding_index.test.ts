@@ -0,0 +1,94 @@
+import {
+	EmbeddingIndex,
+	averageVectors,
+	cosineSimilarity,
+} from "./embedding_index";
+import type { EmbeddingIndexStorage } from "./embedding_index";
+
+// In-memory stand-in for the index file
+function createStorage(): EmbeddingIndexStorage {
+	let data: string | null = null;
+	return {
+		load: () => Promise.resolve(data),
+		save: text => {
+			data = text;
+			return Promise.resolve();
+		},
+	};
+}
+
+describe("cosineSimilarity", () => {
+	it("compares directions, not lengths", () => {
+		expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe("averageVectors", () => {
+	it("averages each dimension", () => {
+		expect(
+			averageVectors([
+				[1, 2],
+				[3, 4],
+			])
+		).toEqual([2, 3]);
+	});
+});
+
+describe("EmbeddingIndex", () => {
+	it("ranks notes by their closest chunk", async () => {
+		const index = new EmbeddingIndex(createStorage());
+		await index.useModel("model-a");
+		index.set("cats.md", 1, [
+			[0, 1],
+			[1, 0],
+		]);
+		index.set("dogs.md", 1, [[0.6, 0.8]]);
+		index.set("current.md", 1, [[1, 0]]);
+
+		const results = index.search([1, 0], {
+			limit: 5,
+			exclude: "current.md",
+		});
+
+		expect(results.map(result => result.path)).toEqual([
+			"cats.md",
+			"dogs.md",
+		]);
+		expect(results[0].score).toBeCloseTo(1);
+	});
+
+	it("tracks modification times, renames and deletions", async () => {
+		const index = new EmbeddingIndex(createStorage());
+		await index.useModel("model-a");
+		index.set("a.md", 100, [[1, 0]]);
+
+		expect(index.isCurrent("a.md", 100)).toBe(true);
+		expect(index.isCurrent("a.md", 200)).toBe(false);
+
+		index.rename("a.md", "b.md");
+		expect(index.paths).toEqual(["b.md"]);
+
+		index.delete("b.md");
+		expect(index.size).toBe(0);
+	});
+
+	it("persists vectors and drops them when the model changes", async () => {
+		const storage = createStorage();
+		const index = new EmbeddingIndex(storage);
+		await index.useModel("model-a");
+		index.set("a.md", 100, [[0.5, -0.25]]);
+		await index.save();
+
+		const reloaded = new EmbeddingIndex(storage);
+		await reloaded.useModel("model-a");
+		expect(reloaded.isCurrent("a.md", 100)).toBe(true);
+		expect(
+			reloaded.search([0.5, -0.25], { limit: 1 })[0].score
+		).toBeCloseTo(1);
+
+		await reloaded.useModel("model-b");
+		expect(reloaded.size).toBe(0);
+	});
+});
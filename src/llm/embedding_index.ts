@@ -0,0 +1,229 @@
+// Local vector index of vault notes for semantic search
+import { arrayBufferToBase64, base64ToArrayBuffer } from "obsidian";
+
+export interface SemanticSearchSettings {
+	enabled: boolean;
+	modelId: string; // Embedding model; empty until one is picked
+}
+
+export const DEFAULT_SEMANTIC_SEARCH_SETTINGS: SemanticSearchSettings = {
+	enabled: false,
+	modelId: "",
+};
+
+/** Where the index is persisted, e.g. a file in the plugin folder */
+export interface EmbeddingIndexStorage {
+	load(): Promise<string | null>;
+	save(data: string): Promise<void>;
+}
+
+interface IndexedNote {
+	/** Modification time of the note when it was embedded */
+	mtime: number;
+	/** One vector per chunk of the note */
+	vectors: Float32Array[];
+}
+
+interface SerializedIndex {
+	version: 1;
+	modelId: string;
+	// Vectors as base64 Float32 data, about a third of the size of JSON numbers
+	notes: Array<[string, { mtime: number; vectors: string[] }]>;
+}
+
+export interface SearchResult {
+	path: string;
+	/** Cosine similarity of the closest chunk, from -1 to 1 */
+	score: number;
+}
+
+export function cosineSimilarity(
+	a: ArrayLike<number>,
+	b: ArrayLike<number>
+): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Mean of the vectors, e.g. of a query that was embedded in several chunks
+ */
+export function averageVectors(vectors: number[][]): number[] {
+	if (vectors.length === 0) {
+		return [];
+	}
+	const sum = new Array<number>(vectors[0].length).fill(0);
+	for (const vector of vectors) {
+		vector.forEach((value, i) => (sum[i] += value));
+	}
+	return sum.map(value => value / vectors.length);
+}
+
+function encodeVector(vector: Float32Array): string {
+	return arrayBufferToBase64(
+		vector.buffer.slice(
+			vector.byteOffset,
+			vector.byteOffset + vector.byteLength
+		)
+	);
+}
+
+function decodeVector(data: string): Float32Array {
+	return new Float32Array(base64ToArrayBuffer(data));
+}
+
+/**
+ * Embedding vectors of notes by path. Vectors of different models can't be
+ * compared, so the index belongs to one embedding model at a time.
+ */
+export class EmbeddingIndex {
+	private notes = new Map<string, IndexedNote>();
+	private modelId = "";
+	private changed = false;
+	private loading: Promise<void> | null = null;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(private storage: EmbeddingIndexStorage) {}
+
+	private load(): Promise<void> {
+		this.loading ??= this.storage
+			.load()
+			.then(text => {
+				const parsed = text
+					? (JSON.parse(text) as Partial<SerializedIndex>)
+					: null;
+				if (Array.isArray(parsed?.notes)) {
+					this.modelId = parsed.modelId ?? "";
+					this.notes = new Map(
+						parsed.notes.map(([path, note]) => [
+							path,
+							{
+								mtime: note.mtime,
+								vectors: note.vectors.map(decodeVector),
+							},
+						])
+					);
+				}
+			})
+			.catch(error => {
+				console.error("Failed to load embedding index:", error);
+			});
+		return this.loading;
+	}
+
+	/**
+	 * Load the index for the model, dropping it when it was built with
+	 * another model
+	 */
+	async useModel(modelId: string): Promise<void> {
+		await this.load();
+
+		if (modelId !== this.modelId) {
+			this.notes.clear();
+			this.modelId = modelId;
+			this.changed = true;
+		}
+	}
+
+	/**
+	 * Whether the note was embedded at this modification time
+	 */
+	isCurrent(path: string, mtime: number): boolean {
+		return this.notes.get(path)?.mtime === mtime;
+	}
+
+	set(path: string, mtime: number, vectors: number[][]): void {
+		this.notes.set(path, {
+			mtime,
+			vectors: vectors.map(vector => new Float32Array(vector)),
+		});
+		this.changed = true;
+	}
+
+	delete(path: string): void {
+		if (this.notes.delete(path)) {
+			this.changed = true;
+		}
+	}
+
+	rename(oldPath: string, newPath: string): void {
+		const note = this.notes.get(oldPath);
+		if (note) {
+			this.notes.delete(oldPath);
+			this.notes.set(newPath, note);
+			this.changed = true;
+		}
+	}
+
+	/** Whether the index changed since it was last saved */
+	get hasChanges(): boolean {
+		return this.changed;
+	}
+
+	get paths(): string[] {
+		return Array.from(this.notes.keys());
+	}
+
+	get size(): number {
+		return this.notes.size;
+	}
+
+	/**
+	 * Notes closest to the query vector, best first. A note scores as its
+	 * closest chunk, so one matching section is enough to find it.
+	 */
+	search(
+		query: number[],
+		options: { limit: number; exclude?: string }
+	): SearchResult[] {
+		const results: SearchResult[] = [];
+		for (const [path, note] of this.notes) {
+			if (path === options.exclude || note.vectors.length === 0) {
+				continue;
+			}
+			const score = Math.max(
+				...note.vectors.map(vector => cosineSimilarity(query, vector))
+			);
+			results.push({ path, score });
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score)
+			.slice(0, options.limit);
+	}
+
+	save(): Promise<void> {
+		const data: SerializedIndex = {
+			version: 1,
+			modelId: this.modelId,
+			notes: Array.from(this.notes, ([path, note]) => [
+				path,
+				{ mtime: note.mtime, vectors: note.vectors.map(encodeVector) },
+			]),
+		};
+		const text = JSON.stringify(data);
+		this.changed = false;
+
+		// Writes are chained so a slow write never overtakes a later one
+		this.saveQueue = this.saveQueue
+			.then(() => this.storage.save(text))
+			.catch(error => {
+				console.error("Failed to save embedding index:", error);
+			});
+		return this.saveQueue;
+	}
+
+	async clear(): Promise<void> {
+		await this.load();
+
+		this.notes.clear();
+		await this.save();
+	}
+}
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+import {
+	ProviderError,
+	classifyProviderError,
+	createResponseError,
+	describeProviderError,
+	toProviderError,
+} from "./errors";
+import { OllamaLLM } from "./ollama_llm";
+
+describe("classifyProviderError", () => {
+	it.each([
+		[401, "Unauthorized", "auth"],
+		[429, "Too Many Requests", "rate-limit"],
+		[402, "Insufficient credits", "rate-limit"],
+		[
+			404,
+			'model "llama3" not found, try pulling it first',
+			"model-not-found",
+		],
+		[
+			400,
+			"This model's maximum context length is 8192 tokens",
+			"context-length",
+		],
+		[
+			400,
+			"The response was filtered due to the content filter",
+			"content-filter",
+		],
+		[undefined, "Failed to fetch", "network"],
+		[
+			undefined,
+			"Timeout: last streaming output is 46000ms ago.",
+			"timeout",
+		],
+		[503, "Service Unavailable", "server"],
+		[400, "Bad Request", "unknown"],
+	])("classifies %s %s as %s", (status, message, kind) => {
+		expect(classifyProviderError(status, message)).toBe(kind);
+	});
+});
+
+describe("createResponseError", () => {
+	it("keeps the status and the provider's explanation", async () => {
+		const response = new Response(
+			JSON.stringify({ error: 'model "llama3" not found' }),
+			{ status: 404, statusText: "Not Found" }
+		);
+
+		const error = await createResponseError(response, "Ollama API error");
+
+		expect(error).toBeInstanceOf(ProviderError);
+		expect(error.message).toBe(
+			'Ollama API error: 404 Not Found - model "llama3" not found'
+		);
+		expect(error.status).toBe(404);
+		expect(error.kind).toBe("model-not-found");
+	});
+});
+
+describe("toProviderError", () => {
+	it("types SDK errors by their status", () => {
+		const sdkError = Object.assign(new Error("Invalid API key"), {
+			status: 401,
+		});
+
+		const error = toProviderError(sdkError, "Anthropic API error");
+
+		expect(error).toMatchObject({
+			message: "Anthropic API error: Invalid API key",
+			kind: "auth",
+			status: 401,
+		});
+	});
+
+	it("treats fetch type errors as network errors", () => {
+		expect(toProviderError(new TypeError("Load failed"))).toMatchObject({
+			kind: "network",
+		});
+	});
+
+	it("leaves cancellations alone", () => {
+		const abortError = new Error("Request aborted");
+		abortError.name = "AbortError";
+
+		expect(toProviderError(abortError)).toBe(abortError);
+	});
+});
+
+describe("describeProviderError", () => {
+	it("suggests a fix for each kind", () => {
+		const contextError = new ProviderError("too long", {
+			kind: "context-length",
+		});
+
+		expect(
+			describeProviderError(contextError, "OpenAI", {
+				modelName: "GPT-4",
+			})
+		).toEqual({
+			message: "The input is too long for GPT-4.",
+			fix: "Select less text, or pick a model with a larger context.",
+		});
+	});
+
+	it("mentions native fetch only while it is off", () => {
+		const networkError = new ProviderError("Failed to fetch", {
+			kind: "network",
+		});
+
+		expect(describeProviderError(networkError, "Ollama").fix).toContain(
+			"enable native fetch"
+		);
+		expect(
+			describeProviderError(networkError, "Ollama", {
+				useNativeFetch: true,
+			}).fix
+		).not.toContain("native fetch");
+	});
+
+	it("falls back to the raw message for unknown errors", () => {
+		expect(
+			describeProviderError(new Error("Something odd"), "Groq")
+		).toEqual({ message: "Groq error: Something odd" });
+	});
+});
+
+describe("provider classes", () => {
+	it("create typed errors from failed responses", async () => {
+		const fetchMock = jest.fn(() =>
+			Promise.resolve(
+				new Response(JSON.stringify({ error: "model not found" }), {
+					status: 404,
+					statusText: "Not Found",
+				})
+			)
+		);
+		const originalFetch = globalThis.fetch;
+		globalThis.fetch = fetchMock;
+		try {
+			const llm = new OllamaLLM(
+				{ id: "ollama", name: "Ollama", type: "ollama" },
+				"llama3"
+			);
+
+			await expect(
+				llm.chat({ messages: [{ role: "user", content: "Hi" }] })
+			).rejects.toMatchObject({
+				kind: "model-not-found",
+				status: 404,
+			});
+		} finally {
+			globalThis.fetch = originalFetch;
+		}
+	});
+});
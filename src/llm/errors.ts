@@ -0,0 +1,228 @@
+// Typed provider errors, so notices and fallbacks can tell failures apart
+import { isAbortError } from "../utils/abort";
+
+export type ProviderErrorKind =
+	| "auth"
+	| "rate-limit"
+	| "context-length"
+	| "model-not-found"
+	| "network"
+	| "content-filter"
+	| "timeout"
+	| "server"
+	| "unknown";
+
+// Checked in order; the first match wins
+const MESSAGE_PATTERNS: Array<[ProviderErrorKind, RegExp]> = [
+	[
+		"context-length",
+		/context[ _](length|window)|maximum context|too many tokens|token limit|prompt is too long|input is too long|exceeds the (maximum|context)/i,
+	],
+	[
+		"model-not-found",
+		/model[^.]*(not found|does not exist|not exist)|unknown model|no such model|model_not_found|try pulling it/i,
+	],
+	[
+		"content-filter",
+		/content[ _](filter|policy|management)|safety|flagged|moderation|blocked due to|prohibited[ _]content/i,
+	],
+	[
+		"auth",
+		/api[ _-]?key|unauthori[sz]ed|authentication|permission denied|forbidden/i,
+	],
+	[
+		"rate-limit",
+		/rate[ _-]?limit|quota|too many requests|insufficient[ _](credits|balance)|resource[ _]exhausted|overloaded/i,
+	],
+	[
+		"network",
+		/network|failed to fetch|fetch failed|load failed|cors|ECONNREFUSED|ENOTFOUND|ECONNRESET|net::/i,
+	],
+	["timeout", /timeout|timed out|ETIMEDOUT/i],
+];
+
+/**
+ * Work out the kind of a failure from its HTTP status and message
+ */
+export function classifyProviderError(
+	status: number | undefined,
+	message: string
+): ProviderErrorKind {
+	// Bodies of 400/404 responses often say more than the status does
+	const fromMessage = MESSAGE_PATTERNS.find(([, pattern]) =>
+		pattern.test(message)
+	)?.[0];
+
+	switch (status) {
+		case 401:
+		case 403:
+			return fromMessage === "content-filter" ? fromMessage : "auth";
+		case 402:
+		case 429:
+			return "rate-limit";
+		case 404:
+			return "model-not-found";
+		case 408:
+		case 504:
+			return "timeout";
+		case 413:
+			return "context-length";
+	}
+
+	if (fromMessage) {
+		return fromMessage;
+	}
+	return status !== undefined && status >= 500 ? "server" : "unknown";
+}
+
+/**
+ * A failed provider request. The message keeps the provider's wording,
+ * e.g. "Groq API error: 429 Too Many Requests"; kind says what went wrong.
+ */
+export class ProviderError extends Error {
+	readonly kind: ProviderErrorKind;
+	readonly status?: number;
+
+	constructor(
+		message: string,
+		options: { status?: number; kind?: ProviderErrorKind } = {}
+	) {
+		super(message);
+		this.name = "ProviderError";
+		this.status = options.status;
+		this.kind =
+			options.kind ?? classifyProviderError(options.status, message);
+	}
+}
+
+function getStatus(error: unknown): number | undefined {
+	const status = (error as { status?: unknown } | null)?.status;
+	return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Wrap an error thrown by an SDK or fetch. Cancellations and errors that
+ * are already typed pass through unchanged.
+ */
+export function toProviderError(error: unknown, prefix?: string): Error {
+	if (error instanceof ProviderError || isAbortError(error)) {
+		return error as Error;
+	}
+
+	const message = error instanceof Error ? error.message : "Unknown error";
+	return new ProviderError(prefix ? `${prefix}: ${message}` : message, {
+		status: getStatus(error),
+		// fetch rejects with a TypeError when the server can't be reached
+		...(error instanceof TypeError ? { kind: "network" as const } : {}),
+	});
+}
+
+/**
+ * The provider's explanation from an error response body, if any
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+	try {
+		const text = await response.text();
+		let detail = text;
+		try {
+			const body = JSON.parse(text) as {
+				error?: string | { message?: string };
+				message?: string;
+				detail?: string;
+			};
+			const error = body.error;
+			detail =
+				(typeof error === "string" ? error : error?.message) ??
+				body.message ??
+				body.detail ??
+				text;
+		} catch {
+			// Plain text body
+		}
+		return detail.trim().slice(0, 300);
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * Error for a non-OK fetch response, e.g.
+ * "Ollama API error: 404 Not Found - model "llama3" not found"
+ */
+export async function createResponseError(
+	response: Response,
+	prefix: string
+): Promise<ProviderError> {
+	const detail = await readErrorDetail(response);
+	return new ProviderError(
+		`${prefix}: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ""}`,
+		{ status: response.status }
+	);
+}
+
+export interface ErrorNotice {
+	message: string;
+	fix?: string;
+}
+
+/**
+ * User-facing explanation and suggested fix for a failed request
+ */
+export function describeProviderError(
+	error: Error,
+	providerName: string,
+	options: { modelName?: string; useNativeFetch?: boolean } = {}
+): ErrorNotice {
+	const kind =
+		error instanceof ProviderError
+			? error.kind
+			: classifyProviderError(getStatus(error), error.message);
+	const model = options.modelName || "this model";
+
+	switch (kind) {
+		case "auth":
+			return {
+				message: `Authentication error with ${providerName}.`,
+				fix: "Check the API key in the provider settings.",
+			};
+		case "rate-limit":
+			return {
+				message: `Rate limit or quota exceeded for ${providerName}.`,
+				fix: "Wait a moment and try again, check the account's quota, or set request limits for this provider.",
+			};
+		case "context-length":
+			return {
+				message: `The input is too long for ${model}.`,
+				fix: "Select less text, or pick a model with a larger context.",
+			};
+		case "model-not-found":
+			return {
+				message: `${providerName} does not know ${model}.`,
+				fix: "Check the model name in the model settings or refresh the provider's model list. Local models may need to be downloaded first.",
+			};
+		case "network":
+			return {
+				message: `Network error connecting to ${providerName}.`,
+				fix: options.useNativeFetch
+					? "Check your connection and the provider URL."
+					: "Check your connection and the provider URL. If the server blocks browser requests (CORS), enable native fetch in the plugin settings.",
+			};
+		case "content-filter":
+			return {
+				message: `${providerName} blocked the request or response with its content filter.`,
+				fix: "Rephrase the prompt or change the input.",
+			};
+		case "timeout":
+			return {
+				message: `Request timeout for ${providerName}.`,
+				fix: "Try again. Local models can take a while to load; a smaller model answers sooner.",
+			};
+		case "server":
+			return {
+				message: `${providerName} had a server error: ${error.message}`,
+				fix: "Try again later or set a fallback model for the action.",
+			};
+		default:
+			return { message: `${providerName} error: ${error.message}` };
+	}
+}
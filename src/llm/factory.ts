@@ -5,18 +5,33 @@ import { GeminiLLM } from "./gemini_llm";
 import { OllamaLLM } from "./ollama_llm";
 import { GroqLLM } from "./groq_llm";
 import { OpenRouterLLM } from "./openrouter_llm";
+import { MistralLLM } from "./mistral_llm";
+import { DeepSeekLLM } from "./deepseek_llm";
 import { LMStudioLLM } from "./lmstudio_llm";
 import { AnthropicLLM } from "./anthropic_llm";
+import { CustomOpenAILLM } from "./custom_openai_llm";
+import { AzureOpenAILLM, AzureOpenAIResponsesLLM } from "./azure_openai_llm";
+import { MockLLM } from "./mock_llm";
+import { CachedLLM } from "./cached_llm";
+import { getResponseCache } from "./response_cache";
+import { ScheduledLLM } from "./scheduled_llm";
+import { requestScheduler } from "./scheduler";
 import { PluginAIProvidersLLM } from "./plugin_ai_providers_llm";
+import { getImageSupport, getModelInfo } from "./model_catalog";
+import { generateImage } from "./image_generation";
 import { OpenAIModel } from "./openai_llm";
+import type { App } from "obsidian";
 import type { AIEditorSettings } from "../settings";
-import type { AIModel, AIProvider } from "../types";
+import type { AIModel, AIProvider, ImageGenerationSettings } from "../types";
+import type { GenerationParams } from "./chat";
 
 export class LLMFactory {
 	private settings: AIEditorSettings;
+	private app?: App;
 
-	constructor(settings: AIEditorSettings) {
+	constructor(settings: AIEditorSettings, app?: App) {
 		this.settings = settings;
+		this.app = app;
 	}
 
 	async getProviderName(modelId: string): Promise<string> {
@@ -103,16 +118,103 @@ export class LLMFactory {
 		return model.systemPromptSupport ?? true;
 	}
 
+	getGenerationDefaults(modelId: string): GenerationParams | undefined {
+		const model = this.settings.aiProviders?.models.find(
+			m => m.id === modelId
+		);
+		if (!model) {
+			return undefined;
+		}
+
+		return {
+			...model.generation,
+			reasoningEffort: model.reasoningEffort,
+		};
+	}
+
+	/**
+	 * Input tokens the model accepts, if known. Ollama's num_ctx wins because
+	 * Ollama silently truncates longer inputs.
+	 */
+	getContextLength(modelId: string): number | undefined {
+		const model = this.settings.aiProviders?.models.find(
+			m => m.id === modelId
+		);
+		if (!model) {
+			return undefined;
+		}
+
+		const provider = this.settings.aiProviders?.providers.find(
+			p => p.id === model.providerId
+		);
+		return (
+			model.ollama?.numCtx ??
+			model.contextLength ??
+			getModelInfo(provider, model.modelName).contextLength
+		);
+	}
+
+	/**
+	 * Whether the model gets the images embedded in the input
+	 */
+	getImageSupport(modelId: string): boolean {
+		const model = this.settings.aiProviders?.models.find(
+			m => m.id === modelId
+		);
+		if (!model) {
+			return false;
+		}
+
+		const provider = this.settings.aiProviders?.providers.find(
+			p => p.id === model.providerId
+		);
+		return getImageSupport(provider, model);
+	}
+
+	/**
+	 * Generate an image with the model and resolve with its PNG bytes
+	 */
+	async generateImage(
+		modelId: string,
+		prompt: string,
+		settings?: ImageGenerationSettings,
+		signal?: AbortSignal
+	): Promise<ArrayBuffer> {
+		const model = this.settings.aiProviders?.models.find(
+			m => m.id === modelId
+		);
+		if (!model) {
+			throw new Error(`Model not found: ${modelId}`);
+		}
+		const provider = this.settings.aiProviders?.providers.find(
+			p => p.id === model.providerId
+		);
+		if (!provider) {
+			throw new Error(`Provider not found for model: ${modelId}`);
+		}
+
+		return generateImage(provider, model.modelName, prompt, {
+			settings,
+			useNativeFetch: this.settings.useNativeFetch,
+			signal,
+		});
+	}
+
 	private createLLMInstance(
 		provider: AIProvider,
 		modelName: string,
 		modelSettings?: AIModel
 	): LLM {
-		if (!provider.apiKey) {
+		// Custom providers may be set up without any authentication
+		const apiKeyRequired =
+			provider.type !== "mock" &&
+			!(provider.type === "custom" && provider.authScheme === "none");
+		if (apiKeyRequired && !provider.apiKey) {
 			throw new Error(
 				`API key not configured for provider: ${provider.name}`
 			);
 		}
+		const apiKey = provider.apiKey ?? "";
 
 		const useNativeFetch = this.settings.useNativeFetch || false;
 		const resolvedModelSettings =
@@ -130,7 +232,7 @@ export class LLMFactory {
 				if (resolvedModelSettings?.openAIRequestMode === "responses") {
 					return new OpenAIResponsesLLM(
 						modelName as OpenAIModel,
-						provider.apiKey,
+						apiKey,
 						provider.url,
 						temperatureSupported,
 						reasoningSummarySupported
@@ -139,10 +241,25 @@ export class LLMFactory {
 
 				return new OpenAILLM(
 					modelName as OpenAIModel,
-					provider.apiKey,
+					apiKey,
 					provider.url,
 					temperatureSupported
 				);
+			case "azure":
+				if (resolvedModelSettings?.openAIRequestMode === "responses") {
+					return new AzureOpenAIResponsesLLM(
+						provider,
+						modelName,
+						temperatureSupported,
+						reasoningSummarySupported
+					);
+				}
+
+				return new AzureOpenAILLM(
+					provider,
+					modelName,
+					temperatureSupported
+				);
 			case "anthropic":
 				return new AnthropicLLM(
 					provider,
@@ -162,7 +279,8 @@ export class LLMFactory {
 					provider,
 					modelName,
 					useNativeFetch,
-					temperatureSupported
+					temperatureSupported,
+					resolvedModelSettings?.ollama
 				);
 			case "groq":
 				return new GroqLLM(
@@ -171,6 +289,20 @@ export class LLMFactory {
 					useNativeFetch,
 					temperatureSupported
 				);
+			case "mistral":
+				return new MistralLLM(
+					provider,
+					modelName,
+					useNativeFetch,
+					temperatureSupported
+				);
+			case "deepseek":
+				return new DeepSeekLLM(
+					provider,
+					modelName,
+					useNativeFetch,
+					temperatureSupported
+				);
 			case "openrouter":
 				return new OpenRouterLLM(
 					provider,
@@ -185,6 +317,15 @@ export class LLMFactory {
 					useNativeFetch,
 					temperatureSupported
 				);
+			case "custom":
+				return new CustomOpenAILLM(
+					provider,
+					modelName,
+					useNativeFetch,
+					temperatureSupported
+				);
+			case "mock":
+				return new MockLLM(provider, this.app?.vault);
 			default: {
 				const providerType = (provider as unknown as { type: string })
 					.type;
@@ -254,6 +395,24 @@ export class LLMFactory {
 			throw new Error(`Model name not found for model: ${modelId}`);
 		}
 
-		return this.createLLMInstance(provider, modelName, modelSettings);
+		let llm = this.createLLMInstance(provider, modelName, modelSettings);
+		llm.maxRetries = this.settings.maxRetries ?? 2;
+
+		const { maxConcurrent, requestsPerMinute } = provider.limits ?? {};
+		if (maxConcurrent || requestsPerMinute) {
+			llm = new ScheduledLLM(llm, requestScheduler, provider);
+		}
+
+		// Wrapping the scheduler, so cached responses are replayed without
+		// waiting in the queue
+		const cache = getResponseCache();
+		if (cache && this.settings.responseCache?.enabled) {
+			return new CachedLLM(llm, cache, {
+				modelId,
+				providerId: provider.id,
+				modelName,
+			});
+		}
+		return llm;
 	}
 }
@@ -229,6 +229,62 @@ describe("GeminiLLM", () => {
 			});
 		});
 
+		it("should report usage metadata with thoughts counted as output", async () => {
+			mockClient.models.generateContent.mockResolvedValue({
+				candidates: [{ content: { parts: [{ text: "Answer" }] } }],
+				usageMetadata: {
+					promptTokenCount: 8,
+					candidatesTokenCount: 5,
+					thoughtsTokenCount: 40,
+				},
+			});
+
+			const onUsage = jest.fn();
+			await geminiLLM.chat(
+				{ messages: [{ role: "user", content: "Question" }] },
+				{ onUsage }
+			);
+
+			expect(onUsage).toHaveBeenCalledWith({
+				inputTokens: 8,
+				outputTokens: 45,
+				reasoningTokens: 40,
+			});
+		});
+
+		it("should map assistant turns of a chat request to the model role", async () => {
+			mockClient.models.generateContent.mockResolvedValue({
+				candidates: [{ content: { parts: [{ text: "Au revoir" }] } }],
+			});
+
+			const result = await geminiLLM.chat(
+				{
+					system: "Translate to French",
+					messages: [
+						{ role: "user", content: "Hello" },
+						{ role: "assistant", content: "Bonjour" },
+						{ role: "user", content: "Goodbye" },
+					],
+					params: { temperature: 0.2 },
+				},
+				{ systemPromptSupport: true }
+			);
+
+			expect(result).toBe("Au revoir");
+			expect(mockClient.models.generateContent).toHaveBeenCalledWith({
+				model: "gemini-1.5-pro",
+				contents: [
+					{ role: "user", parts: [{ text: "Hello" }] },
+					{ role: "model", parts: [{ text: "Bonjour" }] },
+					{ role: "user", parts: [{ text: "Goodbye" }] },
+				],
+				config: {
+					temperature: 0.2,
+					systemInstruction: "Translate to French",
+				},
+			});
+		});
+
 		it("should handle empty response gracefully", async () => {
 			const mockResponse = { candidates: [] };
 			mockClient.models.generateContent.mockResolvedValue(mockResponse);
@@ -1094,4 +1150,56 @@ describe("GeminiLLM", () => {
 			});
 		});
 	});
+
+	describe("generation params", () => {
+		it("should add them to the generation config", async () => {
+			mockClient.models.generateContent.mockResolvedValue({
+				candidates: [{ content: { parts: [{ text: "Short" }] } }],
+			});
+
+			await geminiLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: {
+					maxOutputTokens: 64,
+					topP: 0.5,
+					stop: ["END"],
+					presencePenalty: 0.1,
+					frequencyPenalty: 0.2,
+				},
+			});
+
+			expect(mockClient.models.generateContent).toHaveBeenCalledWith({
+				model: "gemini-1.5-pro",
+				contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+				config: {
+					temperature: 0.7,
+					maxOutputTokens: 64,
+					topP: 0.5,
+					stopSequences: ["END"],
+					presencePenalty: 0.1,
+					frequencyPenalty: 0.2,
+				},
+			});
+		});
+
+		it("should send the reasoning effort as a thinking budget", async () => {
+			mockClient.models.generateContent.mockResolvedValue({
+				candidates: [{ content: { parts: [{ text: "Short" }] } }],
+			});
+
+			await geminiLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: "off" },
+			});
+
+			expect(mockClient.models.generateContent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					config: {
+						temperature: 0.7,
+						thinkingConfig: { thinkingBudget: 0 },
+					},
+				})
+			);
+		});
+	});
 });
@@ -1,4 +1,15 @@
 import { BaseProviderLLM } from "./base_provider_llm";
+import { withCassetteGlobalFetch } from "./cassette";
+import { resolveSystemPrompt } from "./chat";
+import type {
+	ChatOptions,
+	ChatRequest,
+	EmbedOptions,
+	GenerationParams,
+} from "./chat";
+import type { TokenUsage } from "./usage";
+import { getReasoningBudget } from "./reasoning";
+import { toProviderError } from "./errors";
 import type { AIProvider } from "../types";
 import { GoogleGenAI } from "@google/genai";
 import {
@@ -6,6 +17,56 @@ import {
 	GeminiThinkingStreamFormatter,
 	type GeminiResponseLike,
 } from "../utils/thinking-tags-gemini";
+import { createAbortError, throwIfAborted } from "../utils/abort";
+
+type GeminiUsageMetadata = {
+	promptTokenCount?: number;
+	candidatesTokenCount?: number;
+	thoughtsTokenCount?: number;
+};
+
+/**
+ * Read token counts from usageMetadata; thoughts are billed as output
+ */
+function getGeminiUsage(response: unknown): TokenUsage | undefined {
+	if (typeof response !== "object" || response === null) {
+		return undefined;
+	}
+
+	const metadata = (response as { usageMetadata?: GeminiUsageMetadata })
+		.usageMetadata;
+	if (!metadata) {
+		return undefined;
+	}
+
+	const reasoningTokens = metadata.thoughtsTokenCount ?? 0;
+	return {
+		inputTokens: metadata.promptTokenCount ?? 0,
+		outputTokens: (metadata.candidatesTokenCount ?? 0) + reasoningTokens,
+		...(reasoningTokens ? { reasoningTokens } : {}),
+	};
+}
+
+// Gemini takes the generation settings under their own names in the config
+function getGeminiGenerationConfig(params: GenerationParams = {}) {
+	const {
+		maxOutputTokens,
+		topP,
+		stop,
+		seed,
+		presencePenalty,
+		frequencyPenalty,
+	} = params;
+
+	return {
+		...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+		...(topP !== undefined ? { topP } : {}),
+		...(stop?.length ? { stopSequences: stop } : {}),
+		...(seed !== undefined ? { seed } : {}),
+		...(presencePenalty !== undefined ? { presencePenalty } : {}),
+		...(frequencyPenalty !== undefined ? { frequencyPenalty } : {}),
+	};
+}
 
 export class GeminiLLM extends BaseProviderLLM {
 	private client: GoogleGenAI;
@@ -33,67 +94,112 @@ export class GeminiLLM extends BaseProviderLLM {
 		return "https://generativelanguage.googleapis.com/v1beta";
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport?: boolean
+	chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
+		// The SDK has no fetch option, so cassettes replace the global fetch
+		return withCassetteGlobalFetch(() => this.sendChat(request, options));
+	}
+
+	private async sendChat(
+		request: ChatRequest,
+		options: ChatOptions
+	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
 		try {
-			const useSystemPrompt = systemPromptSupport !== false;
-
-			const contents = userPrompt
-				? useSystemPrompt
-					? [
-							{ role: "user", parts: [{ text: userPrompt }] },
-							{ role: "user", parts: [{ text: content }] },
-						]
-					: [
-							{ role: "user", parts: [{ text: prompt }] },
-							{ role: "user", parts: [{ text: userPrompt }] },
-							{ role: "user", parts: [{ text: content }] },
-						]
-				: useSystemPrompt
-					? [{ role: "user", parts: [{ text: content }] }]
-					: [
-							{ role: "user", parts: [{ text: prompt }] },
-							{ role: "user", parts: [{ text: content }] },
-						];
+			const { system, messages } = resolveSystemPrompt(
+				request,
+				systemPromptSupport
+			);
+
+			const contents = messages.map(message => ({
+				role: message.role === "assistant" ? "model" : "user",
+				parts: [
+					...(message.content || !message.images?.length
+						? [{ text: message.content }]
+						: []),
+					...(message.images ?? []).map(image => ({
+						inlineData: {
+							mimeType: image.mimeType,
+							data: image.data,
+						},
+					})),
+				],
+			}));
 
 			const config: {
 				temperature?: number;
+				maxOutputTokens?: number;
+				topP?: number;
+				stopSequences?: string[];
+				seed?: number;
+				presencePenalty?: number;
+				frequencyPenalty?: number;
 				systemInstruction?: string;
 				thinkingConfig?: {
-					includeThoughts: boolean;
+					includeThoughts?: boolean;
+					thinkingBudget?: number;
 				};
+				abortSignal?: AbortSignal;
 			} = {
 				...this.getTemperatureParam(temperature),
+				...getGeminiGenerationConfig(request.params),
 			};
 
+			if (signal) {
+				config.abortSignal = signal;
+			}
+
 			if (this.supportsThoughtSummaries()) {
 				config.thinkingConfig = {
 					includeThoughts: true,
 				};
 			}
 
+			// 0 turns thinking off on models that allow it
+			const thinkingBudget = getReasoningBudget(
+				request.params?.reasoningEffort
+			);
+			if (thinkingBudget !== undefined) {
+				config.thinkingConfig = {
+					...config.thinkingConfig,
+					thinkingBudget,
+				};
+			}
+
 			// Add system instruction when system prompt support is enabled
-			if (useSystemPrompt) {
-				config.systemInstruction = userPrompt ? prompt : prompt;
+			if (system !== undefined) {
+				config.systemInstruction = system;
 			}
 
 			if (streaming && callback) {
 				// Streaming mode
 				const streamFormatter = new GeminiThinkingStreamFormatter();
-				const stream = await this.client.models.generateContentStream({
-					model: this.modelName,
-					contents,
-					config,
-				});
+				const stream = await this.withRetry(
+					() =>
+						this.client.models.generateContentStream({
+							model: this.modelName,
+							contents,
+							config,
+						}),
+					options
+				);
+
+				let usage: TokenUsage | undefined;
 
 				for await (const chunk of stream) {
+					throwIfAborted(signal);
+					// Each chunk repeats the running totals; keep the latest
+					usage = getGeminiUsage(chunk) ?? usage;
 					const chunkText = streamFormatter.pushResponse(
 						chunk as unknown as GeminiResponseLike
 					);
@@ -106,14 +212,27 @@ export class GeminiLLM extends BaseProviderLLM {
 				if (trailingChunkText) {
 					callback(trailingChunkText);
 				}
+
+				if (usage) {
+					onUsage?.(usage);
+				}
 				return;
 			} else {
 				// Non-streaming mode
-				const response = await this.client.models.generateContent({
-					model: this.modelName,
-					contents,
-					config,
-				});
+				const response = await this.withRetry(
+					() =>
+						this.client.models.generateContent({
+							model: this.modelName,
+							contents,
+							config,
+						}),
+					options
+				);
+
+				const usage = getGeminiUsage(response);
+				if (usage) {
+					onUsage?.(usage);
+				}
 
 				const result = extractGeminiDisplayText(
 					response as unknown as GeminiResponseLike
@@ -127,9 +246,36 @@ export class GeminiLLM extends BaseProviderLLM {
 				return result;
 			}
 		} catch (error) {
-			throw new Error(
-				`Gemini SDK error: ${error instanceof Error ? error.message : "Unknown error"}`
-			);
+			if (signal?.aborted) {
+				throw createAbortError(signal);
+			}
+			throw toProviderError(error, "Gemini SDK error");
 		}
 	}
+
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		const { signal } = options;
+
+		return withCassetteGlobalFetch(async () => {
+			try {
+				const response = await this.withRetry(
+					() =>
+						this.client.models.embedContent({
+							model: this.modelName,
+							contents: texts,
+							config: signal ? { abortSignal: signal } : {},
+						}),
+					options
+				);
+				return (response.embeddings ?? []).map(
+					embedding => embedding.values ?? []
+				);
+			} catch (error) {
+				if (signal?.aborted) {
+					throw createAbortError(signal);
+				}
+				throw toProviderError(error, "Gemini SDK error");
+			}
+		});
+	}
 }
@@ -556,6 +556,40 @@ describe("GroqLLM", () => {
 			);
 		});
 
+		it("should pass the abort signal to fetch and stop reading once aborted", async () => {
+			const controller = new AbortController();
+			mockReader.read.mockImplementation(() => {
+				// Abort right after the first chunk has been delivered
+				controller.abort();
+				const value = new TextEncoder().encode(
+					'data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n'
+				);
+				return Promise.resolve({ done: false, value });
+			});
+
+			const callback = jest.fn();
+			await expect(
+				groqLLM.autocomplete(
+					"You are helpful",
+					"Say hello",
+					callback,
+					0.8,
+					undefined,
+					true,
+					true,
+					controller.signal
+				)
+			).rejects.toMatchObject({ name: "AbortError" });
+
+			expect(mockStandardFetch).toHaveBeenCalledWith(
+				"https://api.groq.com/openai/v1/chat/completions",
+				expect.objectContaining({ signal: controller.signal })
+			);
+			expect(mockReader.read).toHaveBeenCalledTimes(1);
+			expect(callback).not.toHaveBeenCalled();
+			expect(mockReader.releaseLock).toHaveBeenCalled();
+		});
+
 		it("should handle streaming with userPrompt", async () => {
 			const streamData = [
 				'data: {"choices":[{"delta":{"content":"Response"}}]}\n\n',
@@ -1223,4 +1257,60 @@ describe("GroqLLM", () => {
 			expect(headers["Authorization"]).toBeUndefined();
 		});
 	});
+
+	describe("retries", () => {
+		const rateLimited = {
+			ok: false,
+			status: 429,
+			statusText: "Too Many Requests",
+			headers: new Headers({ "retry-after": "0" }),
+			json: jest.fn(),
+		};
+
+		it("should retry a rate limited request and report the attempt", async () => {
+			mockResponse.json.mockResolvedValue({
+				choices: [{ message: { content: "Recovered" } }],
+			});
+			mockStandardFetch
+				.mockResolvedValueOnce(rateLimited as unknown as Response)
+				.mockResolvedValueOnce(mockResponse as unknown as Response);
+			groqLLM.maxRetries = 2;
+
+			const onRetry = jest.fn();
+			const result = await groqLLM.chat(
+				{ messages: [{ role: "user", content: "Hi" }] },
+				{ onRetry }
+			);
+
+			expect(result).toBe("Recovered");
+			expect(mockStandardFetch).toHaveBeenCalledTimes(2);
+			expect(onRetry).toHaveBeenCalledWith(2, 3);
+		});
+
+		it("should surface the last error once retries are exhausted", async () => {
+			mockStandardFetch.mockResolvedValue(
+				rateLimited as unknown as Response
+			);
+			groqLLM.maxRetries = 1;
+
+			await expect(
+				groqLLM.chat({ messages: [{ role: "user", content: "Hi" }] })
+			).rejects.toThrow("Groq API error: 429 Too Many Requests");
+			expect(mockStandardFetch).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not retry client errors", async () => {
+			mockStandardFetch.mockResolvedValue({
+				...rateLimited,
+				status: 401,
+				statusText: "Unauthorized",
+			} as unknown as Response);
+			groqLLM.maxRetries = 2;
+
+			await expect(
+				groqLLM.chat({ messages: [{ role: "user", content: "Hi" }] })
+			).rejects.toThrow("Groq API error: 401 Unauthorized");
+			expect(mockStandardFetch).toHaveBeenCalledTimes(1);
+		});
+	});
 });
@@ -1,5 +1,9 @@
 import { BaseProviderLLM } from "./base_provider_llm";
+import { toOpenAIGenerationParams, toRoleMessages } from "./chat";
+import type { ChatOptions, ChatRequest } from "./chat";
+import { parseOpenAIUsage } from "./usage";
 import type { AIProvider } from "../types";
+import { createResponseError } from "./errors";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null;
@@ -41,6 +45,14 @@ function getFirstMessageContent(value: unknown): string | null {
 	return typeof content === "string" ? content : null;
 }
 
+// Groq reports streaming usage under x_groq on the final chunk
+function getGroqUsage(value: unknown): unknown {
+	if (!isRecord(value)) return undefined;
+
+	const xGroq = value["x_groq"];
+	return value["usage"] ?? (isRecord(xGroq) ? xGroq["usage"] : undefined);
+}
+
 export class GroqLLM extends BaseProviderLLM {
 	constructor(
 		provider: AIProvider,
@@ -55,98 +67,68 @@ export class GroqLLM extends BaseProviderLLM {
 		return "https://api.groq.com/openai/v1";
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
-		const promptRole = systemPromptSupport ? "system" : "user";
-
-		const messages = userPrompt
-			? [
-					{
-						role: promptRole,
-						content: prompt,
-					},
-					{
-						role: "user",
-						content: userPrompt,
-					},
-					{
-						role: "user",
-						content: content,
-					},
-				]
-			: [
-					{
-						role: promptRole,
-						content: prompt,
-					},
-					{
-						role: "user",
-						content: content,
-					},
-				];
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toRoleMessages(request, systemPromptSupport);
 
 		const body = {
 			model: this.modelName,
 			messages: messages,
 			...this.getTemperatureParam(temperature),
+			...toOpenAIGenerationParams(request.params),
 			stream: streaming,
 		};
 
-		const response = await this.makeRequest("/chat/completions", body);
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
 
 		if (!response.ok) {
-			throw new Error(
-				`Groq API error: ${response.status} ${response.statusText}`
-			);
+			throw await createResponseError(response, "Groq API error");
 		}
 
 		if (streaming && callback) {
 			// Streaming mode
-			const reader = response.body?.getReader();
-			if (!reader) {
-				throw new Error("No response body reader available");
-			}
+			await this.readLines(
+				response,
+				line => {
+					if (!line.trim() || !line.startsWith("data: ")) {
+						return;
+					}
 
-			const decoder = new TextDecoder();
-			let buffer = "";
-
-			try {
-				while (true) {
-					const { done, value } = await reader.read();
-					if (done) break;
-
-					buffer += decoder.decode(value, { stream: true });
-					const lines = buffer.split("\n");
-					buffer = lines.pop() || "";
-
-					for (const line of lines) {
-						if (line.trim() && line.startsWith("data: ")) {
-							const jsonStr = line.slice(6);
-							if (jsonStr.trim() === "[DONE]") break;
-
-							try {
-								const parsed = JSON.parse(jsonStr) as unknown;
-								const deltaContent =
-									getFirstDeltaContent(parsed);
-								if (deltaContent && deltaContent.length > 0) {
-									callback(deltaContent);
-								}
-							} catch {
-								// Skip invalid JSON lines
-							}
+					const jsonStr = line.slice(6);
+					if (jsonStr.trim() === "[DONE]") return true;
+
+					try {
+						const parsed = JSON.parse(jsonStr) as unknown;
+						const deltaContent = getFirstDeltaContent(parsed);
+						if (deltaContent && deltaContent.length > 0) {
+							callback(deltaContent);
+						}
+
+						const usage = parseOpenAIUsage(getGroqUsage(parsed));
+						if (usage) {
+							onUsage?.(usage);
 						}
+					} catch {
+						// Skip invalid JSON lines
 					}
-				}
-			} finally {
-				reader.releaseLock();
-			}
+				},
+				signal
+			);
 			return;
 		} else {
 			// Non-streaming mode
@@ -154,6 +136,11 @@ export class GroqLLM extends BaseProviderLLM {
 			const messageContent = getFirstMessageContent(data);
 			const result = messageContent ?? "";
 
+			const usage = parseOpenAIUsage(getGroqUsage(data));
+			if (usage) {
+				onUsage?.(usage);
+			}
+
 			// Call callback with the full result if provided
 			if (callback && result) {
 				callback(result);
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+import { requestUrl } from "obsidian";
+import { generateImage, supportsImageGeneration } from "./image_generation";
+import type { AIProvider } from "../types";
+
+const requestUrlMock = requestUrl as jest.Mock;
+
+const openai: AIProvider = {
+	id: "openai",
+	name: "OpenAI",
+	type: "openai",
+	apiKey: "sk-test",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		statusText: status === 200 ? "OK" : "Bad Request",
+	});
+}
+
+describe("generateImage", () => {
+	let fetchMock: jest.Mock<Promise<Response>, [string, RequestInit]>;
+	const originalFetch = globalThis.fetch;
+
+	beforeEach(() => {
+		requestUrlMock.mockReset();
+		fetchMock = jest.fn<Promise<Response>, [string, RequestInit]>();
+		globalThis.fetch = fetchMock as unknown as typeof fetch;
+	});
+
+	afterAll(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("asks for base64 PNG data and decodes it", async () => {
+		fetchMock.mockResolvedValue(
+			jsonResponse({ data: [{ b64_json: "AQID" }] })
+		);
+
+		const image = await generateImage(openai, "dall-e-3", "A cat", {
+			settings: { size: "1024x1024", quality: "hd" },
+		});
+
+		expect(Array.from(new Uint8Array(image))).toEqual([1, 2, 3]);
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe("https://api.openai.com/v1/images/generations");
+		expect(init.headers).toMatchObject({
+			Authorization: "Bearer sk-test",
+		});
+		expect(JSON.parse(init.body as string)).toEqual({
+			model: "dall-e-3",
+			prompt: "A cat",
+			n: 1,
+			size: "1024x1024",
+			quality: "hd",
+			response_format: "b64_json",
+		});
+	});
+
+	it("leaves out response_format for gpt-image models", async () => {
+		fetchMock.mockResolvedValue(
+			jsonResponse({ data: [{ b64_json: "AQID" }] })
+		);
+
+		await generateImage(openai, "gpt-image-1", "A cat");
+
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body as string) as {
+			response_format?: string;
+		};
+		expect(body.response_format).toBeUndefined();
+	});
+
+	it("downloads the image when a local server returns a link", async () => {
+		fetchMock.mockResolvedValue(
+			jsonResponse({ data: [{ url: "http://localhost:8080/out.png" }] })
+		);
+		const image = new ArrayBuffer(4);
+		requestUrlMock.mockResolvedValue({ arrayBuffer: image });
+
+		const result = await generateImage(
+			{
+				id: "local",
+				name: "LocalAI",
+				type: "custom",
+				url: "http://localhost:8080/v1/",
+				authScheme: "none",
+			},
+			"stablediffusion",
+			"A cat"
+		);
+
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			"http://localhost:8080/v1/images/generations"
+		);
+		expect(requestUrlMock).toHaveBeenCalledWith({
+			url: "http://localhost:8080/out.png",
+		});
+		expect(result).toBe(image);
+	});
+
+	it("adds a custom provider's query parameters", async () => {
+		fetchMock.mockResolvedValue(
+			jsonResponse({ data: [{ b64_json: "AQID" }] })
+		);
+
+		await generateImage(
+			{
+				id: "gateway",
+				name: "Gateway",
+				type: "custom",
+				url: "https://gateway.example.com/v1",
+				authScheme: "none",
+				queryParams: { tenant: "docs" },
+			},
+			"dall-e-3",
+			"A cat"
+		);
+
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			"https://gateway.example.com/v1/images/generations?tenant=docs"
+		);
+	});
+
+	it("reports failed requests as provider errors", async () => {
+		fetchMock.mockResolvedValue(
+			jsonResponse(
+				{
+					error: {
+						message:
+							"Your request was rejected by the safety system",
+					},
+				},
+				400
+			)
+		);
+
+		await expect(
+			generateImage(openai, "dall-e-3", "A cat")
+		).rejects.toMatchObject({ kind: "content-filter", status: 400 });
+	});
+
+	it("supports OpenAI and OpenAI-compatible providers only", () => {
+		expect(supportsImageGeneration(openai)).toBe(true);
+		expect(supportsImageGeneration({ ...openai, type: "anthropic" })).toBe(
+			false
+		);
+	});
+});
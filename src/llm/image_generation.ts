@@ -0,0 +1,120 @@
+// Image generation through the OpenAI images API and compatible local servers
+import { base64ToArrayBuffer, requestUrl } from "obsidian";
+import type { AIProvider, ImageGenerationSettings } from "../types";
+import { nativeFetch, standardFetch } from "../utils/fetch";
+import { withCassette } from "./cassette";
+import type { FetchFn } from "./cassette";
+import {
+	appendQueryParams,
+	getCustomProviderHeaders,
+} from "./custom_openai_llm";
+import { createResponseError, toProviderError } from "./errors";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export interface ImageGenerationOptions {
+	settings?: ImageGenerationSettings;
+	useNativeFetch?: boolean;
+	signal?: AbortSignal;
+}
+
+/**
+ * Whether the provider serves POST /images/generations. Custom providers
+ * cover OpenAI-compatible servers such as LocalAI.
+ */
+export function supportsImageGeneration(provider: AIProvider): boolean {
+	return provider.type === "openai" || provider.type === "custom";
+}
+
+function getImageHeaders(provider: AIProvider): Record<string, string> {
+	if (provider.type === "custom") {
+		return getCustomProviderHeaders(provider);
+	}
+	return {
+		"Content-Type": "application/json",
+		...(provider.apiKey
+			? { Authorization: `Bearer ${provider.apiKey}` }
+			: {}),
+	};
+}
+
+function getImageUrl(provider: AIProvider, baseUrl: string): string {
+	const url = `${baseUrl}/images/generations`;
+	if (provider.type === "custom") {
+		return appendQueryParams(url, provider.queryParams);
+	}
+	return url;
+}
+
+/**
+ * Generate one image from the prompt and resolve with its PNG bytes
+ */
+export async function generateImage(
+	provider: AIProvider,
+	modelName: string,
+	prompt: string,
+	options: ImageGenerationOptions = {}
+): Promise<ArrayBuffer> {
+	if (!supportsImageGeneration(provider)) {
+		throw new Error(`${provider.name} does not support image generation`);
+	}
+
+	const baseUrl = (
+		provider.url || (provider.type === "openai" ? OPENAI_BASE_URL : "")
+	).replace(/\/+$/, "");
+	if (!baseUrl) {
+		throw new Error(`URL not configured for provider: ${provider.name}`);
+	}
+
+	const { settings = {}, signal } = options;
+	const body = {
+		model: modelName,
+		prompt,
+		n: 1,
+		...(settings.size ? { size: settings.size } : {}),
+		...(settings.quality ? { quality: settings.quality } : {}),
+		// gpt-image models always answer with base64 and reject the option
+		...(modelName.startsWith("gpt-image")
+			? {}
+			: { response_format: "b64_json" }),
+	};
+
+	// An active cassette (development mode) records or replaces the traffic
+	const fetchFn = withCassette(
+		(options.useNativeFetch
+			? nativeFetch
+			: standardFetch) as unknown as FetchFn
+	);
+
+	let response: Response;
+	try {
+		response = await fetchFn(getImageUrl(provider, baseUrl), {
+			method: "POST",
+			headers: getImageHeaders(provider),
+			body: JSON.stringify(body),
+			...(signal ? { signal } : {}),
+		});
+	} catch (error) {
+		throw toProviderError(error, `${provider.name} image API error`);
+	}
+
+	if (!response.ok) {
+		throw await createResponseError(
+			response,
+			`${provider.name} image API error`
+		);
+	}
+
+	const data = (await response.json()) as {
+		data?: Array<{ b64_json?: string; url?: string }>;
+	};
+	const image = data.data?.[0];
+	if (image?.b64_json) {
+		return base64ToArrayBuffer(image.b64_json);
+	}
+	if (image?.url) {
+		// Servers that ignore response_format answer with a link instead
+		return (await requestUrl({ url: image.url })).arrayBuffer;
+	}
+	throw new Error(`${provider.name} returned no image`);
+}
@@ -468,6 +468,7 @@ describe("LMStudioLLM", () => {
 						],
 						temperature: 0.8,
 						stream: true,
+						stream_options: { include_usage: true },
 					}),
 				})
 			);
@@ -1009,6 +1010,7 @@ describe("LMStudioLLM", () => {
 						],
 						temperature: 0.7,
 						stream: true,
+						stream_options: { include_usage: true },
 					}),
 				})
 			);
@@ -1018,4 +1020,34 @@ describe("LMStudioLLM", () => {
 			expect(callback).toHaveBeenNthCalledWith(2, " response");
 		});
 	});
+
+	describe("embed", () => {
+		it("should return vectors in input order", async () => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				json: jest.fn().mockResolvedValue({
+					data: [
+						{ index: 1, embedding: [0.3, 0.4] },
+						{ index: 0, embedding: [0.1, 0.2] },
+					],
+				}),
+			});
+
+			const vectors = await lmstudioLLM.embed(["first", "second"]);
+
+			expect(vectors).toEqual([
+				[0.1, 0.2],
+				[0.3, 0.4],
+			]);
+			expect(mockFetch).toHaveBeenCalledWith(
+				"http://localhost:1234/v1/embeddings",
+				expect.objectContaining({
+					body: JSON.stringify({
+						model: "test-model",
+						input: ["first", "second"],
+					}),
+				})
+			);
+		});
+	});
 });
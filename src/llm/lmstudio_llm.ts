@@ -1,69 +1,14 @@
 import { BaseProviderLLM } from "./base_provider_llm";
+import { toOpenAIGenerationParams, toRoleMessages } from "./chat";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { parseOpenAIUsage } from "./usage";
 import type { AIProvider } from "../types";
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-	return typeof value === "object" && value !== null;
-}
-
-function isUnknownArray(value: unknown): value is unknown[] {
-	return Array.isArray(value);
-}
-
-function extractReasoningDetails(value: unknown): string[] {
-	if (!isUnknownArray(value)) return [];
-
-	return value.flatMap(item => {
-		if (!isRecord(item)) return [];
-
-		const text = item["text"];
-		if (typeof text === "string") return [text];
-
-		const content = item["content"];
-		if (typeof content === "string") return [content];
-
-		return [];
-	});
-}
-
-function getFirstDeltaParts(data: unknown): {
-	content: string;
-	reasoning: string;
-} {
-	if (!isRecord(data)) return { content: "", reasoning: "" };
-	const choices = (data as { choices?: unknown }).choices;
-	if (!isUnknownArray(choices) || choices.length === 0) {
-		return { content: "", reasoning: "" };
-	}
-	const firstChoice = choices[0];
-	if (!isRecord(firstChoice)) return { content: "", reasoning: "" };
-	const delta = (firstChoice as { delta?: unknown }).delta;
-	if (!isRecord(delta)) return { content: "", reasoning: "" };
-	const content = (delta as { content?: unknown }).content;
-
-	return {
-		content: typeof content === "string" ? content : "",
-		reasoning: [
-			typeof delta["reasoning"] === "string" ? delta["reasoning"] : "",
-			typeof delta["reasoning_content"] === "string"
-				? delta["reasoning_content"]
-				: "",
-			...extractReasoningDetails(delta["reasoning_details"]),
-		].join(""),
-	};
-}
-
-function getFirstMessageContent(data: unknown): string | undefined {
-	if (!isRecord(data)) return;
-	const choices = (data as { choices?: unknown }).choices;
-	if (!isUnknownArray(choices) || choices.length === 0) return;
-	const firstChoice = choices[0];
-	if (!isRecord(firstChoice)) return;
-	const message = (firstChoice as { message?: unknown }).message;
-	if (!isRecord(message)) return;
-	const content = (message as { content?: unknown }).content;
-	if (typeof content !== "string") return;
-	return content;
-}
+import { createResponseError } from "./errors";
+import {
+	getFirstDeltaParts,
+	getFirstMessageContent,
+	isRecord,
+} from "./response_parts";
 
 export class LMStudioLLM extends BaseProviderLLM {
 	constructor(
@@ -93,130 +38,49 @@ export class LMStudioLLM extends BaseProviderLLM {
 		return headers;
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport?: boolean
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
-		// Determine the role for the prompt based on systemPromptSupport
-		const promptRole = systemPromptSupport !== false ? "system" : "user";
-
-		const messages = userPrompt
-			? [
-					{
-						role: promptRole,
-						content: prompt,
-					},
-					{
-						role: "user",
-						content: userPrompt,
-					},
-					{
-						role: "user",
-						content: content,
-					},
-				]
-			: [
-					{
-						role: promptRole,
-						content: prompt,
-					},
-					{
-						role: "user",
-						content: content,
-					},
-				];
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toRoleMessages(request, systemPromptSupport);
 
 		const body = {
 			model: this.modelName,
 			messages: messages,
 			...this.getTemperatureParam(temperature),
+			...toOpenAIGenerationParams(request.params),
 			stream: streaming,
+			// Usage is only sent in the final chunk when requested
+			...(streaming ? { stream_options: { include_usage: true } } : {}),
 		};
 
-		const response = await this.makeRequest("/chat/completions", body);
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
 
 		if (!response.ok) {
-			throw new Error(
-				`LMStudio API error: ${response.status} ${response.statusText}`
-			);
+			throw await createResponseError(response, "LMStudio API error");
 		}
 
 		if (streaming && callback) {
 			// Streaming mode
-			const reader = response.body?.getReader();
-			if (!reader) {
-				throw new Error("No response body reader available");
-			}
-
-			const decoder = new TextDecoder();
-			let buffer = "";
-			let isThinking = false;
-
-			const emitReasoning = (text: string) => {
-				if (!text) {
-					return;
-				}
-
-				if (!isThinking) {
-					callback(`<think>${text}`);
-					isThinking = true;
-					return;
-				}
-
-				callback(text);
-			};
-
-			const emitContent = (text: string) => {
-				if (!text) {
-					return;
-				}
-
-				if (isThinking) {
-					callback(`</think>${text}`);
-					isThinking = false;
-					return;
-				}
-
-				callback(text);
-			};
-
-			try {
-				while (true) {
-					const { done, value } = await reader.read();
-					if (done) break;
-
-					buffer += decoder.decode(value, { stream: true });
-					const lines = buffer.split("\n");
-					buffer = lines.pop() || "";
-
-					for (const line of lines) {
-						if (line.trim() && line.startsWith("data: ")) {
-							const jsonStr = line.slice(6);
-							if (jsonStr.trim() === "[DONE]") break;
-
-							try {
-								const data: unknown = JSON.parse(jsonStr);
-								const delta = getFirstDeltaParts(data);
-								emitReasoning(delta.reasoning);
-								emitContent(delta.content);
-							} catch {
-								// Skip invalid JSON lines
-							}
-						}
-					}
-				}
-
-				if (isThinking) {
-					callback("</think>");
-				}
-			} finally {
-				reader.releaseLock();
-			}
+			await this.readChatCompletionStream(
+				response,
+				callback,
+				data => getFirstDeltaParts(data),
+				{ signal, onUsage }
+			);
 			return;
 		} else {
 			// Non-streaming mode
@@ -226,6 +90,13 @@ export class LMStudioLLM extends BaseProviderLLM {
 			const messageContent = getFirstMessageContent(data);
 			result = messageContent ?? "";
 
+			const usage = parseOpenAIUsage(
+				isRecord(data) ? data["usage"] : undefined
+			);
+			if (usage) {
+				onUsage?.(usage);
+			}
+
 			// Call callback with the full result if provided
 			if (callback && result) {
 				callback(result);
@@ -234,4 +105,12 @@ export class LMStudioLLM extends BaseProviderLLM {
 			return result;
 		}
 	}
+
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		return this.requestOpenAIEmbeddings(
+			texts,
+			options,
+			"LMStudio API error"
+		);
+	}
 }
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { getInputBudget, needsMapReduce, runMapReduce } from "./map_reduce";
+import type { LongInputConfig } from "./map_reduce";
+import type { ChatRequest } from "./chat";
+import { AnthropicLLM } from "./anthropic_llm";
+
+const section = (title: string) =>
+	`## ${title}\n\n${"word ".repeat(800).trim()}\n\n`;
+
+const config: LongInputConfig = {
+	prompt: "Summarize the text.",
+	input: section("A") + section("B") + section("C"),
+	contextLength: 2000,
+};
+
+describe("getInputBudget", () => {
+	it("leaves room for the instructions and the output", () => {
+		const budget = getInputBudget(config);
+
+		expect(budget).toBeLessThan(2000 * 0.9 - 500);
+		expect(budget).toBeGreaterThan(1000);
+		expect(
+			getInputBudget({ ...config, params: { maxOutputTokens: 1000 } })
+		).toBeLessThan(budget);
+	});
+});
+
+describe("needsMapReduce", () => {
+	it("only splits inputs over the budget", () => {
+		expect(needsMapReduce(config)).toBe(true);
+		expect(needsMapReduce({ ...config, input: section("A") })).toBe(false);
+		expect(needsMapReduce({ ...config, contextLength: 200000 })).toBe(
+			false
+		);
+	});
+
+	it("does not split when the context is too small for useful chunks", () => {
+		expect(needsMapReduce({ ...config, contextLength: 300 })).toBe(false);
+	});
+});
+
+describe("runMapReduce", () => {
+	it("processes each chunk, then asks to combine the results", async () => {
+		const complete = jest.fn((request: ChatRequest) =>
+			Promise.resolve(
+				`summary of ${request.messages[0].content.slice(3, 4)}`
+			)
+		);
+
+		const request = await runMapReduce(config, complete);
+
+		expect(complete.mock.calls.map(([, step]) => step)).toEqual([
+			{ phase: "map", index: 1, total: 3 },
+			{ phase: "map", index: 2, total: 3 },
+			{ phase: "map", index: 3, total: 3 },
+		]);
+		expect(complete.mock.calls[1][0].system).toBe(
+			"Summarize the text.\n\nThe input is part 2 of 3 of a longer document. Apply the instructions to this part only; the results of all parts are combined afterwards."
+		);
+		expect(request.system).toMatch(
+			/^Summarize the text\.\n\nThe document was too long/
+		);
+		expect(request.messages).toEqual([
+			{
+				role: "user",
+				content:
+					"Part 1:\nsummary of A\n\n---\n\nPart 2:\nsummary of B\n\n---\n\nPart 3:\nsummary of C",
+			},
+		]);
+	});
+
+	it("merges partial results in rounds when they don't fit together", async () => {
+		const longSummary = "word ".repeat(400);
+		const complete = jest.fn(() => Promise.resolve(longSummary));
+
+		await runMapReduce(config, complete);
+
+		expect(complete.mock.calls.map(([, step]) => step)).toEqual([
+			{ phase: "map", index: 1, total: 3 },
+			{ phase: "map", index: 2, total: 3 },
+			{ phase: "map", index: 3, total: 3 },
+			{ phase: "reduce", index: 1, total: 2 },
+		]);
+	});
+});
+
+describe("runMapReduce with the Anthropic client", () => {
+	const originalFetch = globalThis.fetch;
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("sends each step within the SDK's non-streaming limit", async () => {
+		const fetchMock = jest.fn((_url: string, init: RequestInit) => {
+			const body = JSON.parse(init.body as string) as {
+				max_tokens: number;
+			};
+			return Promise.resolve(
+				new Response(
+					JSON.stringify({
+						id: "msg_1",
+						type: "message",
+						role: "assistant",
+						model: "claude-sonnet-4-0",
+						content: [
+							{ type: "text", text: `max ${body.max_tokens}` },
+						],
+						stop_reason: "end_turn",
+						usage: { input_tokens: 10, output_tokens: 2 },
+					}),
+					{ headers: { "Content-Type": "application/json" } }
+				)
+			);
+		});
+		globalThis.fetch = fetchMock as unknown as typeof fetch;
+		const llm = new AnthropicLLM(
+			{
+				id: "anthropic",
+				name: "Anthropic",
+				type: "anthropic",
+				apiKey: "sk-ant-test",
+			},
+			"claude-sonnet-4-0"
+		);
+
+		const request = await runMapReduce(
+			config,
+			async stepRequest => (await llm.chat(stepRequest)) as string
+		);
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(request.messages[0].content).toContain("Part 3:\nmax 8192");
+	});
+});
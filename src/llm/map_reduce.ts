@@ -0,0 +1,168 @@
+// Map-reduce for inputs that don't fit into the model's context window
+import { buildChatRequest } from "./chat";
+import type { ChatImage, ChatRequest, GenerationParams } from "./chat";
+import { estimateTokens, splitMarkdown } from "../utils/chunking";
+
+// Token estimates are rough, so only this share of the context is planned
+const CONTEXT_SAFETY_FACTOR = 0.9;
+
+// Room for the output when the model has no max output tokens
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+// Below this, chunks would be too small to be useful
+const MIN_CHUNK_TOKENS = 256;
+
+const COMBINE_INSTRUCTIONS =
+	"The document was too long to process at once, so it was split into parts and the instructions were applied to each part. Below are the results for the parts, in order. Combine them into a single result that follows the instructions, as if the whole document had been processed at once. Don't mention the parts.";
+
+export interface LongInputConfig {
+	prompt: string;
+	input: string;
+	userPrompt?: string;
+	params?: GenerationParams;
+	/** Sent with the final combine request only */
+	images?: ChatImage[];
+	/** Input tokens the model accepts */
+	contextLength: number;
+}
+
+export interface MapReduceStep {
+	phase: "map" | "reduce";
+	/** From 1 */
+	index: number;
+	total: number;
+}
+
+/**
+ * Tokens left for the input text of a request, after the instructions and
+ * the output
+ */
+export function getInputBudget(config: Omit<LongInputConfig, "input">): number {
+	const { contextLength, params } = config;
+	const outputReserve =
+		params?.maxOutputTokens ??
+		Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(contextLength / 4));
+	const instructions = estimateTokens(
+		`${config.prompt}\n${config.userPrompt ?? ""}\n${COMBINE_INSTRUCTIONS}`
+	);
+
+	return Math.floor(
+		(contextLength - outputReserve) * CONTEXT_SAFETY_FACTOR - instructions
+	);
+}
+
+/**
+ * Whether the input has to be split to fit the model
+ */
+export function needsMapReduce(config: LongInputConfig): boolean {
+	const budget = getInputBudget(config);
+	return budget >= MIN_CHUNK_TOKENS && estimateTokens(config.input) > budget;
+}
+
+function describePart(index: number, total: number): string {
+	return `The input is part ${index} of ${total} of a longer document. Apply the instructions to this part only; the results of all parts are combined afterwards.`;
+}
+
+function formatPartials(partials: string[]): string {
+	return partials
+		.map((partial, i) => `Part ${i + 1}:\n${partial.trim()}`)
+		.join("\n\n---\n\n");
+}
+
+function buildCombineRequest(
+	config: LongInputConfig,
+	partials: string[],
+	images?: ChatImage[]
+): ChatRequest {
+	return buildChatRequest(
+		`${config.prompt}\n\n${COMBINE_INSTRUCTIONS}`,
+		formatPartials(partials),
+		config.userPrompt,
+		config.params,
+		images
+	);
+}
+
+/**
+ * Run the action on each chunk of a long input ("map"), then merge the
+ * partial results until they fit ("reduce"). Returns the final combine
+ * request, which the caller streams into the editor like any other request.
+ * complete sends a request and resolves with the full response text.
+ */
+export async function runMapReduce(
+	config: LongInputConfig,
+	complete: (request: ChatRequest, step: MapReduceStep) => Promise<string>
+): Promise<ChatRequest> {
+	const budget = getInputBudget(config);
+	const chunks = splitMarkdown(config.input, budget);
+
+	let partials: string[] = [];
+	for (const [i, chunk] of chunks.entries()) {
+		const request = buildChatRequest(
+			`${config.prompt}\n\n${describePart(i + 1, chunks.length)}`,
+			chunk,
+			config.userPrompt,
+			config.params
+		);
+		partials.push(
+			await complete(request, {
+				phase: "map",
+				index: i + 1,
+				total: chunks.length,
+			})
+		);
+	}
+
+	// Merge groups of partial results until all of them fit at once
+	while (
+		partials.length > 1 &&
+		estimateTokens(formatPartials(partials)) > budget
+	) {
+		const groups = groupPartials(partials, budget);
+		if (groups.length >= partials.length) {
+			break; // Each result alone fills the context; combine as they are
+		}
+
+		const merged: string[] = [];
+		for (const [i, group] of groups.entries()) {
+			if (group.length === 1) {
+				merged.push(group[0]);
+				continue;
+			}
+			merged.push(
+				await complete(buildCombineRequest(config, group), {
+					phase: "reduce",
+					index: i + 1,
+					total: groups.length,
+				})
+			);
+		}
+		partials = merged;
+	}
+
+	return buildCombineRequest(config, partials, config.images);
+}
+
+/**
+ * Pack consecutive partial results into groups that fit the budget
+ */
+function groupPartials(partials: string[], budget: number): string[][] {
+	const groups: string[][] = [];
+	let current: string[] = [];
+	let tokens = 0;
+
+	for (const partial of partials) {
+		const partialTokens = estimateTokens(partial) + 10; // "Part n:" and separator
+		if (current.length && tokens + partialTokens > budget) {
+			groups.push(current);
+			current = [];
+			tokens = 0;
+		}
+		current.push(partial);
+		tokens += partialTokens;
+	}
+	if (current.length) {
+		groups.push(current);
+	}
+	return groups;
+}
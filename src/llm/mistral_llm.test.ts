@@ -0,0 +1,202 @@
+import { MistralLLM } from "./mistral_llm";
+import type { AIProvider } from "../types";
+import { standardFetch } from "../utils/fetch";
+
+// Ensure TextEncoder/TextDecoder exist in the Jest environment.
+// Obsidian plugins run in a browser-like context where these are typically available.
+const g = globalThis as typeof globalThis & {
+	TextEncoder?: typeof TextEncoder;
+	TextDecoder?: typeof TextDecoder;
+};
+
+if (typeof g.TextEncoder === "undefined") {
+	class FallbackTextEncoder {
+		encode(input = ""): Uint8Array {
+			// ASCII/UTF-8 subset is sufficient for JSON test payloads used here.
+			const bytes = new Uint8Array(input.length);
+			for (let i = 0; i < input.length; i++) {
+				bytes[i] = input.charCodeAt(i) & 0xff;
+			}
+			return bytes;
+		}
+	}
+
+	g.TextEncoder = FallbackTextEncoder as unknown as typeof TextEncoder;
+}
+
+if (typeof g.TextDecoder === "undefined") {
+	class FallbackTextDecoder {
+		decode(input?: ArrayBuffer | ArrayBufferView): string {
+			if (!input) return "";
+			const view =
+				input instanceof ArrayBuffer
+					? new Uint8Array(input)
+					: new Uint8Array(
+							input.buffer,
+							input.byteOffset,
+							input.byteLength
+						);
+			let out = "";
+			for (let i = 0; i < view.length; i++) {
+				out += String.fromCharCode(view[i]);
+			}
+			return out;
+		}
+	}
+
+	g.TextDecoder = FallbackTextDecoder as unknown as typeof TextDecoder;
+}
+
+// Mock the fetch functions
+jest.mock("../utils/fetch", () => ({
+	nativeFetch: jest.fn(),
+	standardFetch: jest.fn(),
+}));
+
+function createStreamResponse(lines: string[]) {
+	const read = jest.fn();
+	lines.forEach(line => {
+		read.mockResolvedValueOnce({
+			done: false,
+			value: new TextEncoder().encode(`${line}\n`),
+		});
+	});
+	read.mockResolvedValueOnce({ done: true, value: undefined });
+
+	return {
+		ok: true,
+		body: {
+			getReader: jest.fn().mockReturnValue({
+				read,
+				releaseLock: jest.fn(),
+			}),
+		},
+	};
+}
+
+describe("MistralLLM", () => {
+	let llm: MistralLLM;
+	let mockFetch: jest.Mock;
+
+	beforeEach(() => {
+		const provider: AIProvider = {
+			id: "test-mistral",
+			name: "Mistral",
+			type: "mistral",
+			apiKey: "test-api-key",
+		};
+
+		jest.clearAllMocks();
+		llm = new MistralLLM(provider, "mistral-small-latest");
+		mockFetch = standardFetch as jest.Mock;
+	});
+
+	it("should use the default base URL", () => {
+		expect(llm["getBaseUrl"]()).toBe("https://api.mistral.ai/v1");
+	});
+
+	it("should return the message content and usage", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			json: jest.fn().mockResolvedValue({
+				choices: [{ message: { content: "Bonjour" } }],
+				usage: { prompt_tokens: 8, completion_tokens: 3 },
+			}),
+		});
+		const onUsage = jest.fn();
+
+		const result = await llm.chat(
+			{
+				system: "Translate",
+				messages: [{ role: "user", content: "Hello" }],
+			},
+			{ onUsage }
+		);
+
+		expect(result).toBe("Bonjour");
+		expect(onUsage).toHaveBeenCalledWith({
+			inputTokens: 8,
+			outputTokens: 3,
+		});
+		expect(mockFetch).toHaveBeenCalledWith(
+			"https://api.mistral.ai/v1/chat/completions",
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: "Bearer test-api-key",
+				},
+				body: JSON.stringify({
+					model: "mistral-small-latest",
+					messages: [
+						{ role: "system", content: "Translate" },
+						{ role: "user", content: "Hello" },
+					],
+					temperature: 0.7,
+					stream: false,
+				}),
+			}
+		);
+	});
+
+	it("should stream thinking chunks as think tags", async () => {
+		mockFetch.mockResolvedValue(
+			createStreamResponse([
+				'data: {"choices":[{"delta":{"content":[{"type":"thinking","thinking":[{"type":"text","text":"Check"}]}]}}]}',
+				'data: {"choices":[{"delta":{"content":[{"type":"text","text":"Answer"}]}}]}',
+				'data: {"choices":[{"delta":{"content":"!"}}],"usage":{"prompt_tokens":5,"completion_tokens":4}}',
+				"data: [DONE]",
+			])
+		);
+		const callback = jest.fn();
+		const onUsage = jest.fn();
+
+		await llm.chat(
+			{ messages: [{ role: "user", content: "Hi" }] },
+			{ callback, streaming: true, onUsage }
+		);
+
+		expect(callback.mock.calls).toEqual([
+			["<think>Check"],
+			["</think>Answer"],
+			["!"],
+		]);
+		expect(onUsage).toHaveBeenCalledWith({
+			inputTokens: 5,
+			outputTokens: 4,
+		});
+	});
+
+	it("should report API errors", async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 401,
+			statusText: "Unauthorized",
+		});
+
+		await expect(
+			llm.chat({ messages: [{ role: "user", content: "Hi" }] })
+		).rejects.toThrow("Mistral API error: 401 Unauthorized");
+	});
+
+	it("should send the seed as random_seed", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			json: jest.fn().mockResolvedValue({
+				choices: [{ message: { content: "Ok" } }],
+			}),
+		});
+
+		await llm.chat({
+			messages: [{ role: "user", content: "Hi" }],
+			params: { seed: 42, maxOutputTokens: 100 },
+		});
+
+		const body = JSON.parse(
+			(mockFetch.mock.calls[0] as [string, RequestInit])[1].body as string
+		) as Record<string, unknown>;
+		expect(body["random_seed"]).toBe(42);
+		expect(body["max_tokens"]).toBe(100);
+		expect(body["seed"]).toBeUndefined();
+	});
+});
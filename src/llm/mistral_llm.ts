@@ -0,0 +1,143 @@
+import { BaseProviderLLM } from "./base_provider_llm";
+import { toOpenAIGenerationParams, toRoleMessages } from "./chat";
+import type { ChatOptions, ChatRequest, GenerationParams } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import type { AIProvider } from "../types";
+import { createResponseError } from "./errors";
+import { isRecord, isUnknownArray } from "./response_parts";
+
+/**
+ * Split Mistral message content into answer and reasoning text.
+ * Content is a plain string, or for Magistral models a list of chunks
+ * where thinking chunks hold their own list of text chunks.
+ */
+function getContentParts(content: unknown): {
+	content: string;
+	reasoning: string;
+} {
+	if (typeof content === "string") {
+		return { content, reasoning: "" };
+	}
+
+	if (!isUnknownArray(content)) {
+		return { content: "", reasoning: "" };
+	}
+
+	let text = "";
+	let reasoning = "";
+
+	for (const chunk of content) {
+		if (!isRecord(chunk)) continue;
+
+		if (chunk["type"] === "text" && typeof chunk["text"] === "string") {
+			text += chunk["text"];
+		}
+
+		if (chunk["type"] === "thinking") {
+			reasoning += getContentParts(chunk["thinking"]).content;
+		}
+	}
+
+	return { content: text, reasoning };
+}
+
+function getFirstChoiceField(value: unknown, field: string): unknown {
+	if (!isRecord(value)) return undefined;
+
+	const choices = value["choices"];
+	if (!isUnknownArray(choices) || choices.length === 0) return undefined;
+
+	const firstChoice = choices[0];
+	if (!isRecord(firstChoice)) return undefined;
+
+	const entry = firstChoice[field];
+	return isRecord(entry) ? entry["content"] : undefined;
+}
+
+// Mistral names the seed random_seed
+function getMistralGenerationParams(
+	params?: GenerationParams
+): Record<string, unknown> {
+	const { seed, ...rest } = toOpenAIGenerationParams(params);
+	return seed !== undefined ? { ...rest, random_seed: seed } : rest;
+}
+
+export class MistralLLM extends BaseProviderLLM {
+	constructor(
+		provider: AIProvider,
+		modelName: string,
+		useNativeFetch: boolean = false,
+		temperatureSupported: boolean = true
+	) {
+		super(provider, modelName, useNativeFetch, temperatureSupported);
+	}
+
+	protected getDefaultBaseUrl(): string {
+		return "https://api.mistral.ai/v1";
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toRoleMessages(request, systemPromptSupport);
+
+		const body = {
+			model: this.modelName,
+			messages: messages,
+			...this.getTemperatureParam(temperature),
+			...getMistralGenerationParams(request.params),
+			stream: streaming,
+		};
+
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
+
+		if (!response.ok) {
+			throw await createResponseError(response, "Mistral API error");
+		}
+
+		if (streaming && callback) {
+			// Streaming mode
+			await this.readChatCompletionStream(
+				response,
+				callback,
+				data => getContentParts(getFirstChoiceField(data, "delta")),
+				{ signal, onUsage }
+			);
+			return;
+		} else {
+			// Non-streaming mode
+			const data: unknown = await response.json();
+			const result = getContentParts(
+				getFirstChoiceField(data, "message")
+			).content;
+
+			const usage = parseOpenAIUsage(
+				isRecord(data) ? data["usage"] : undefined
+			);
+			if (usage) {
+				onUsage?.(usage);
+			}
+
+			// Call callback with the full result if provided
+			if (callback && result) {
+				callback(result);
+			}
+
+			return result;
+		}
+	}
+}
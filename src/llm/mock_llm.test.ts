@@ -0,0 +1,172 @@
+import { TFile, Vault } from "obsidian";
+import { MockLLM, parseMockScript, splitIntoChunks } from "./mock_llm";
+import { LLMFactory } from "./factory";
+import { buildChatRequest } from "./chat";
+import type { AIEditorSettings } from "../settings";
+import type { AIProvider, MockProviderSettings } from "../types";
+
+function createProvider(
+	id: string,
+	mock: MockProviderSettings = {}
+): AIProvider {
+	return {
+		id,
+		name: "Mock",
+		type: "mock",
+		mock: { chunkDelay: 0, ...mock },
+	};
+}
+
+function createVault(files: Record<string, string>): Vault {
+	const vault = new Vault();
+	jest.spyOn(vault, "getAbstractFileByPath").mockImplementation(path =>
+		path in files ? new TFile(path) : null
+	);
+	jest.spyOn(vault, "cachedRead").mockImplementation(file =>
+		Promise.resolve(files[file.path])
+	);
+	return vault;
+}
+
+const request = buildChatRequest("Summarize", "Some note text", "Be brief");
+
+describe("parseMockScript", () => {
+	it("splits responses on separator lines", () => {
+		expect(
+			parseMockScript("First\n---\nSecond\nline\n\n---  \n\n---\nThird")
+		).toEqual(["First", "Second\nline", "Third"]);
+	});
+
+	it("keeps horizontal rules that are part of a line", () => {
+		expect(parseMockScript("a --- b")).toEqual(["a --- b"]);
+	});
+});
+
+describe("splitIntoChunks", () => {
+	it("splits text into words without losing whitespace", () => {
+		const chunks = splitIntoChunks("Hello  world\nagain ");
+		expect(chunks).toEqual(["Hello  ", "world\n", "again "]);
+		expect(chunks.join("")).toBe("Hello  world\nagain ");
+	});
+});
+
+describe("MockLLM", () => {
+	it("echoes the input", async () => {
+		const llm = new MockLLM(createProvider("echo"));
+
+		await expect(llm.chat(request)).resolves.toBe("Some note text");
+	});
+
+	it("streams the response word by word with simulated thinking", async () => {
+		const llm = new MockLLM(createProvider("think", { thinking: true }));
+		const callback = jest.fn<void, [string]>();
+
+		const result = await llm.chat(request, { callback, streaming: true });
+
+		expect(result).toBeUndefined();
+		expect(callback.mock.calls.length).toBeGreaterThan(2);
+		const output = callback.mock.calls.map(([chunk]) => chunk).join("");
+		expect(output).toMatch(/^<think>.+<\/think>Some note text$/);
+	});
+
+	it("replays scripted responses in order and starts over", async () => {
+		const vault = createVault({
+			"Mock.md": "First {{input}}\n---\nSecond",
+		});
+		const llm = new MockLLM(
+			createProvider("script", { scriptPath: "Mock.md" }),
+			vault
+		);
+
+		await expect(llm.chat(request)).resolves.toBe("First Some note text");
+		// A new instance continues where the last request stopped
+		await expect(
+			new MockLLM(
+				createProvider("script", { scriptPath: "Mock.md" }),
+				vault
+			).chat(request)
+		).resolves.toBe("Second");
+		await expect(llm.chat(request)).resolves.toBe("First Some note text");
+	});
+
+	it("fails on scripted errors", async () => {
+		const llm = new MockLLM(
+			createProvider("script-error", { scriptPath: "Errors.md" }),
+			createVault({ "Errors.md": "ERROR: 429 Too Many Requests" })
+		);
+
+		await expect(llm.chat(request)).rejects.toThrow(
+			"Mock API error: 429 Too Many Requests"
+		);
+	});
+
+	it("fails when the script file is missing", async () => {
+		const llm = new MockLLM(
+			createProvider("missing", { scriptPath: "Missing.md" }),
+			createVault({})
+		);
+
+		await expect(llm.chat(request)).rejects.toThrow(
+			"Mock script file not found: Missing.md"
+		);
+	});
+
+	it("fails every request with the simulated error", async () => {
+		const llm = new MockLLM(
+			createProvider("error", { error: "500 Internal Server Error" })
+		);
+		const callback = jest.fn();
+
+		await expect(
+			llm.chat(request, { callback, streaming: true })
+		).rejects.toThrow("Mock API error: 500 Internal Server Error");
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("reports estimated usage", async () => {
+		const llm = new MockLLM(createProvider("usage"));
+		const onUsage = jest.fn();
+
+		await llm.chat(request, { onUsage });
+
+		expect(onUsage).toHaveBeenCalledWith({
+			inputTokens: expect.any(Number) as unknown,
+			outputTokens: 4,
+		});
+	});
+
+	it("stops streaming when aborted", async () => {
+		const llm = new MockLLM(createProvider("abort", { chunkDelay: 50 }));
+		const controller = new AbortController();
+		const callback = jest.fn(() => controller.abort());
+
+		await expect(
+			llm.chat(request, {
+				callback,
+				streaming: true,
+				signal: controller.signal,
+			})
+		).rejects.toMatchObject({ name: "AbortError" });
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("is created by the factory without an API key", () => {
+		const settings = {
+			aiProviders: {
+				providers: [createProvider("provider")],
+				models: [
+					{
+						id: "model",
+						name: "Mock",
+						providerId: "provider",
+						modelName: "mock",
+					},
+				],
+			},
+		} as unknown as AIEditorSettings;
+
+		expect(new LLMFactory(settings).create("model")).toBeInstanceOf(
+			MockLLM
+		);
+	});
+});
@@ -0,0 +1,150 @@
+import { normalizePath, TFile } from "obsidian";
+import type { Vault } from "obsidian";
+import { LLM } from "./base";
+import type { ChatOptions, ChatRequest } from "./chat";
+import { ProviderError } from "./errors";
+import type { AIProvider, MockProviderSettings } from "../types";
+import { sleep } from "../utils/retry";
+
+// Model name offered when listing models; the mock provider accepts any name
+export const MOCK_MODEL_NAME = "mock";
+
+const DEFAULT_CHUNK_DELAY = 30;
+const MOCK_THINKING =
+	"Reading the request and deciding how to answer it before writing the response.";
+
+// A script section starting with this line fails with the rest of the line
+const ERROR_DIRECTIVE = /^ERROR:\s*(.*)$/;
+const SECTION_SEPARATOR = /^---\s*$/m;
+
+// Next script section per provider, kept across requests
+const scriptPositions = new Map<string, number>();
+
+/**
+ * Split a script file into responses separated by "---" lines
+ */
+export function parseMockScript(text: string): string[] {
+	return text
+		.split(SECTION_SEPARATOR)
+		.map(section => section.trim())
+		.filter(section => section !== "");
+}
+
+/**
+ * Split text into word-sized chunks, keeping whitespace, for simulated streaming
+ */
+export function splitIntoChunks(text: string): string[] {
+	return text.match(/\s*\S+\s*/g) ?? (text ? [text] : []);
+}
+
+/**
+ * A simulated provider error; a leading status such as "429 Too Many
+ * Requests" is kept so the error is classified like a real one
+ */
+function createMockError(text: string): ProviderError {
+	const status = text.match(/^(\d{3})\b/)?.[1];
+	return new ProviderError(`Mock API error: ${text}`, {
+		status: status ? Number(status) : undefined,
+	});
+}
+
+/**
+ * Offline provider for building and testing actions without API calls.
+ * Echoes the input, or replays responses from a vault file in order,
+ * with simulated streaming delay, thinking and errors.
+ */
+export class MockLLM extends LLM {
+	private provider: AIProvider;
+	private vault?: Vault;
+
+	constructor(provider: AIProvider, vault?: Vault) {
+		super(true);
+		this.provider = provider;
+		this.vault = vault;
+	}
+
+	private get settings(): MockProviderSettings {
+		return this.provider.mock ?? {};
+	}
+
+	private async getScriptedResponse(
+		path: string,
+		input: string
+	): Promise<string> {
+		const file = this.vault?.getAbstractFileByPath(normalizePath(path));
+		if (!(file instanceof TFile) || !this.vault) {
+			throw new Error(`Mock script file not found: ${path}`);
+		}
+
+		const sections = parseMockScript(await this.vault.cachedRead(file));
+		if (sections.length === 0) {
+			throw new Error(`Mock script file is empty: ${path}`);
+		}
+
+		const key = `${this.provider.id}:${path}`;
+		const position = scriptPositions.get(key) ?? 0;
+		scriptPositions.set(key, (position + 1) % sections.length);
+
+		const section = sections[position % sections.length];
+		const error = section.match(ERROR_DIRECTIVE);
+		if (error) {
+			throw createMockError(error[1]);
+		}
+
+		return section.replace(/\{\{input\}\}/g, input);
+	}
+
+	private getResponse(request: ChatRequest): Promise<string> {
+		const input = request.messages[request.messages.length - 1]?.content;
+		const scriptPath = this.settings.scriptPath?.trim();
+		if (scriptPath) {
+			return this.getScriptedResponse(scriptPath, input ?? "");
+		}
+
+		return Promise.resolve(input ?? "");
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const { callback, streaming = false, signal, onUsage } = options;
+		const delay = this.settings.chunkDelay ?? DEFAULT_CHUNK_DELAY;
+
+		await sleep(delay, signal);
+		if (this.settings.error) {
+			throw createMockError(this.settings.error);
+		}
+
+		const response = await this.getResponse(request);
+		const output = this.settings.thinking
+			? `<think>${MOCK_THINKING}</think>${response}`
+			: response;
+
+		if (streaming && callback) {
+			for (const chunk of splitIntoChunks(output)) {
+				callback(chunk);
+				await sleep(delay, signal);
+			}
+		}
+
+		onUsage?.({
+			inputTokens: estimateTokens(
+				[
+					request.system ?? "",
+					...request.messages.map(m => m.content),
+				].join("\n")
+			),
+			outputTokens: estimateTokens(output),
+		});
+
+		if (!streaming) {
+			return response;
+		}
+	}
+}
+
+// Rough count for the simulated usage report (about four characters per token)
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
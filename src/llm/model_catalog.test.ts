@@ -0,0 +1,167 @@
+import {
+	formatModelInfo,
+	getImageSupport,
+	getModelDefaults,
+	getModelInfo,
+	inferModelInfo,
+	parseModelCatalog,
+} from "./model_catalog";
+import type { AIProvider } from "../types";
+
+describe("parseModelCatalog", () => {
+	it("reads OpenRouter context length, pricing and capabilities", () => {
+		const entries = parseModelCatalog("openrouter", {
+			data: [
+				{
+					id: "openai/gpt-4o-mini",
+					context_length: 128000,
+					pricing: { prompt: "0.00000015", completion: "0.0000006" },
+					architecture: { input_modalities: ["text", "image"] },
+					supported_parameters: [
+						"tools",
+						"temperature",
+						"max_tokens",
+					],
+				},
+			],
+		});
+
+		expect(entries).toEqual([
+			{
+				id: "openai/gpt-4o-mini",
+				info: {
+					contextLength: 128000,
+					pricing: { input: 0.15, output: 0.6 },
+					vision: true,
+					tools: true,
+					thinking: false,
+					temperature: true,
+				},
+			},
+		]);
+	});
+
+	it("reads Mistral capabilities and Groq context windows", () => {
+		expect(
+			parseModelCatalog("mistral", {
+				data: [
+					{
+						id: "pixtral-large-latest",
+						max_context_length: 131072,
+						capabilities: { vision: true, function_calling: true },
+					},
+				],
+			})[0].info
+		).toEqual({ contextLength: 131072, vision: true, tools: true });
+
+		expect(
+			parseModelCatalog("groq", {
+				data: [{ id: "llama-3.3-70b", context_window: 131072 }],
+			})[0].info
+		).toEqual({ contextLength: 131072 });
+	});
+
+	it("reads Gemini token limits and thinking support", () => {
+		expect(
+			parseModelCatalog("gemini", {
+				models: [
+					{
+						name: "models/gemini-2.5-flash",
+						inputTokenLimit: 1048576,
+						thinking: true,
+					},
+				],
+			})
+		).toEqual([
+			{
+				id: "gemini-2.5-flash",
+				info: { contextLength: 1048576, thinking: true, vision: true },
+			},
+		]);
+	});
+
+	it("keeps bare ids from lists without metadata", () => {
+		expect(
+			parseModelCatalog("openai", { data: [{ id: "gpt-4o" }, {}] })
+		).toEqual([{ id: "gpt-4o", info: {} }]);
+		expect(parseModelCatalog("openai", "invalid")).toEqual([]);
+	});
+});
+
+describe("model info", () => {
+	it("guesses flags of well-known models from their names", () => {
+		expect(inferModelInfo("o3-mini")).toEqual({
+			thinking: true,
+			temperature: false,
+			vision: true,
+		});
+		expect(inferModelInfo("o1-mini").systemPrompt).toBe(false);
+		expect(inferModelInfo("deepseek-reasoner").thinking).toBe(true);
+		expect(inferModelInfo("llama3.2")).toEqual({});
+	});
+
+	it("prefers the provider's catalog over guesses", () => {
+		const provider: AIProvider = {
+			id: "openrouter",
+			name: "OpenRouter",
+			type: "openrouter",
+			modelCatalog: { "openai/o3": { temperature: true } },
+		};
+
+		expect(getModelInfo(provider, "openai/o3")).toMatchObject({
+			thinking: true,
+			temperature: true,
+		});
+	});
+
+	it("turns model info into model settings", () => {
+		expect(
+			getModelDefaults({
+				contextLength: 200000,
+				thinking: true,
+				temperature: false,
+				pricing: { input: 3, output: 15 },
+				vision: true,
+			})
+		).toEqual({
+			contextLength: 200000,
+			reasoningSummarySupported: true,
+			temperatureSupported: false,
+			imagesSupported: true,
+			pricing: { input: 3, output: 15 },
+		});
+	});
+
+	it("sends images only to vision models of providers that take them", () => {
+		const ollama: AIProvider = { id: "o", name: "Ollama", type: "ollama" };
+		const groq: AIProvider = { id: "g", name: "Groq", type: "groq" };
+
+		expect(getImageSupport(ollama, { modelName: "llava:13b" })).toBe(true);
+		expect(getImageSupport(ollama, { modelName: "llama3.2" })).toBe(false);
+		expect(
+			getImageSupport(ollama, {
+				modelName: "llama3.2",
+				imagesSupported: true,
+			})
+		).toBe(true);
+		expect(
+			getImageSupport(groq, {
+				modelName: "llava-v1.5-7b",
+				imagesSupported: true,
+			})
+		).toBe(false);
+	});
+
+	it("summarizes capabilities for model pickers", () => {
+		expect(
+			formatModelInfo({
+				contextLength: 1048576,
+				vision: true,
+				thinking: true,
+				pricing: { input: 0.3, output: 2.5 },
+			})
+		).toBe("1M context · vision · thinking · $0.3/$2.5 per 1M");
+		expect(formatModelInfo({ contextLength: 8192 })).toBe("8k context");
+		expect(formatModelInfo({})).toBe("");
+	});
+});
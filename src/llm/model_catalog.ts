@@ -0,0 +1,254 @@
+// Model metadata from provider model lists, with name-based fallbacks
+import type {
+	AIModel,
+	AIProvider,
+	AIProviderType,
+	ModelInfo,
+	ModelPricing,
+} from "../types";
+
+export interface CatalogEntry {
+	id: string;
+	info: ModelInfo;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+function getNumber(value: unknown): number | undefined {
+	const number = typeof value === "string" ? parseFloat(value) : value;
+	return typeof number === "number" && isFinite(number) ? number : undefined;
+}
+
+function getStrings(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((item): item is string => typeof item === "string")
+		: [];
+}
+
+function withoutUnset<T extends object>(value: T): T {
+	return Object.fromEntries(
+		Object.entries(value).filter(([, item]) => item !== undefined)
+	) as T;
+}
+
+/**
+ * OpenRouter prices are USD per token as strings; the plugin uses USD per
+ * million tokens
+ */
+function parsePerTokenPricing(value: unknown): ModelPricing | undefined {
+	if (!isRecord(value)) return undefined;
+
+	const toPerMillion = (price: unknown) => {
+		const number = getNumber(price);
+		// Round away floating point noise, e.g. 0.15000000000000002
+		return number !== undefined && number >= 0
+			? Math.round(number * 1e6 * 1e6) / 1e6
+			: undefined;
+	};
+	const pricing = withoutUnset<ModelPricing>({
+		input: toPerMillion(value.prompt),
+		output: toPerMillion(value.completion),
+	});
+	return Object.keys(pricing).length ? pricing : undefined;
+}
+
+/**
+ * An entry of an OpenAI-style model list. Besides the id, providers add
+ * their own fields: OpenRouter (context_length, pricing, architecture,
+ * supported_parameters), Mistral (max_context_length, capabilities),
+ * Groq (context_window) and Anthropic (max_input_tokens).
+ */
+function parseOpenAIStyleModel(model: Record<string, unknown>): ModelInfo {
+	const capabilities = isRecord(model.capabilities) ? model.capabilities : {};
+	const architecture = isRecord(model.architecture) ? model.architecture : {};
+	const parameters = getStrings(model.supported_parameters);
+	const inputModalities = getStrings(architecture.input_modalities);
+	const hasParameters = parameters.length > 0;
+
+	return withoutUnset<ModelInfo>({
+		contextLength:
+			getNumber(model.context_length) ??
+			getNumber(model.context_window) ??
+			getNumber(model.max_context_length) ??
+			getNumber(model.max_input_tokens),
+		pricing: parsePerTokenPricing(model.pricing),
+		vision:
+			inputModalities.length > 0
+				? inputModalities.includes("image")
+				: typeof capabilities.vision === "boolean"
+					? capabilities.vision
+					: undefined,
+		tools: hasParameters
+			? parameters.includes("tools")
+			: typeof capabilities.function_calling === "boolean"
+				? capabilities.function_calling
+				: undefined,
+		thinking: hasParameters ? parameters.includes("reasoning") : undefined,
+		temperature: hasParameters
+			? parameters.includes("temperature")
+			: undefined,
+	});
+}
+
+function parseGeminiModel(model: Record<string, unknown>): ModelInfo {
+	return withoutUnset<ModelInfo>({
+		contextLength: getNumber(model.inputTokenLimit),
+		thinking:
+			typeof model.thinking === "boolean" ? model.thinking : undefined,
+		// Every Gemini chat model accepts images
+		vision: true,
+	});
+}
+
+/**
+ * Read a provider's model list response into model ids and metadata
+ */
+export function parseModelCatalog(
+	providerType: AIProviderType,
+	payload: unknown
+): CatalogEntry[] {
+	if (!isRecord(payload)) return [];
+
+	const entries: CatalogEntry[] = [];
+	if (providerType === "gemini") {
+		if (!Array.isArray(payload.models)) return [];
+		for (const model of payload.models) {
+			if (!isRecord(model) || typeof model.name !== "string") continue;
+			entries.push({
+				id: model.name.replace("models/", ""),
+				info: parseGeminiModel(model),
+			});
+		}
+		return entries;
+	}
+
+	if (!Array.isArray(payload.data)) return [];
+	for (const model of payload.data) {
+		if (!isRecord(model) || typeof model.id !== "string") continue;
+		entries.push({ id: model.id, info: parseOpenAIStyleModel(model) });
+	}
+	return entries;
+}
+
+/**
+ * Best guesses from well-known model names, for lists that only return ids
+ */
+export function inferModelInfo(modelName: string): ModelInfo {
+	const name = modelName.toLowerCase().split("/").pop() ?? "";
+	const isOpenAIReasoning = /^(o\d|gpt-5)(?!.*chat)/.test(name);
+
+	return withoutUnset<ModelInfo>({
+		thinking:
+			isOpenAIReasoning ||
+			/reasoner|thinking|qwq|(^|-)r1(-|$)|claude-(3-7|(opus|sonnet)-4)|gemini-(2\.5|3)/.test(
+				name
+			) ||
+			undefined,
+		temperature: isOpenAIReasoning ? false : undefined,
+		systemPrompt: /^o1-(mini|preview)/.test(name) ? false : undefined,
+		vision:
+			/gpt-4o|gpt-4\.1|gpt-5|^o[34]|claude-|gemini|vision|-vl|llava|pixtral/.test(
+				name
+			) || undefined,
+	});
+}
+
+/**
+ * What is known about a model: the provider's catalog over name-based guesses
+ */
+export function getModelInfo(
+	provider: AIProvider | undefined,
+	modelName: string
+): ModelInfo {
+	return {
+		...inferModelInfo(modelName),
+		...provider?.modelCatalog?.[modelName],
+	};
+}
+
+/**
+ * Model settings implied by the catalog, for pre-filling a new model
+ */
+export function getModelDefaults(info: ModelInfo): Partial<AIModel> {
+	return withoutUnset<Partial<AIModel>>({
+		systemPromptSupport: info.systemPrompt,
+		temperatureSupported: info.temperature,
+		reasoningSummarySupported: info.thinking,
+		imagesSupported: info.vision,
+		pricing: info.pricing,
+		contextLength: info.contextLength,
+	});
+}
+
+// Provider types whose requests can carry images
+const IMAGE_PROVIDER_TYPES = new Set<AIProviderType>([
+	"openai",
+	"azure",
+	"anthropic",
+	"gemini",
+	"ollama",
+	"openrouter",
+]);
+
+/**
+ * Whether images in the input are sent to a model: its own setting, else
+ * what is known about it
+ */
+export function getImageSupport(
+	provider: AIProvider | undefined,
+	model: Pick<AIModel, "modelName" | "imagesSupported">
+): boolean {
+	if (!provider || !IMAGE_PROVIDER_TYPES.has(provider.type)) {
+		return false;
+	}
+	return (
+		model.imagesSupported ??
+		getModelInfo(provider, model.modelName).vision ??
+		false
+	);
+}
+
+// Provider types with an embeddings API
+const EMBEDDING_PROVIDER_TYPES = new Set<AIProviderType>([
+	"openai",
+	"azure",
+	"gemini",
+	"ollama",
+	"lmstudio",
+	"custom",
+]);
+
+export function supportsEmbeddings(providerType: AIProviderType): boolean {
+	return EMBEDDING_PROVIDER_TYPES.has(providerType);
+}
+
+function formatTokens(tokens: number): string {
+	if (tokens >= 1000000) {
+		return `${parseFloat((tokens / 1000000).toFixed(1))}M`;
+	}
+	return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : `${tokens}`;
+}
+
+/**
+ * One-line summary for model pickers, e.g. "128k context · vision · tools"
+ */
+export function formatModelInfo(info: ModelInfo): string {
+	const parts: string[] = [];
+	if (info.contextLength) {
+		parts.push(`${formatTokens(info.contextLength)} context`);
+	}
+	if (info.vision) parts.push("vision");
+	if (info.tools) parts.push("tools");
+	if (info.thinking) parts.push("thinking");
+	if (
+		info.pricing?.input !== undefined ||
+		info.pricing?.output !== undefined
+	) {
+		parts.push(
+			`$${info.pricing.input ?? "?"}/$${info.pricing.output ?? "?"} per 1M`
+		);
+	}
+	return parts.join(" · ");
+}
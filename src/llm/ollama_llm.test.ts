@@ -157,7 +157,10 @@ describe("OllamaLLM", () => {
 
 		it("should successfully generate completion", async () => {
 			const mockResponseData = {
-				response: "Generated completion text",
+				message: {
+					role: "assistant",
+					content: "Generated completion text",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -171,7 +174,7 @@ describe("OllamaLLM", () => {
 
 			expect(result).toBe("Generated completion text");
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -179,12 +182,20 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "Write a hello world function",
+						messages: [
+							{
+								role: "system",
+								content: "You are a helpful assistant",
+							},
+							{
+								role: "user",
+								content: "Write a hello world function",
+							},
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "You are a helpful assistant",
 					}),
 				}
 			);
@@ -192,7 +203,10 @@ describe("OllamaLLM", () => {
 
 		it("should handle userPrompt correctly", async () => {
 			const mockResponseData = {
-				response: "Response with user prompt",
+				message: {
+					role: "assistant",
+					content: "Response with user prompt",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -206,7 +220,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -214,12 +228,15 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User custom prompt\nContent text",
+						messages: [
+							{ role: "system", content: "System instruction" },
+							{ role: "user", content: "User custom prompt" },
+							{ role: "user", content: "Content text" },
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "System instruction",
 					}),
 				}
 			);
@@ -227,7 +244,7 @@ describe("OllamaLLM", () => {
 
 		it("should use default temperature and provider defaults when not provided", async () => {
 			const mockResponseData = {
-				response: "Default response",
+				message: { role: "assistant", content: "Default response" },
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -235,7 +252,7 @@ describe("OllamaLLM", () => {
 			await ollamaLLM.autocomplete("System prompt", "User input");
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -243,12 +260,14 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User input",
+						messages: [
+							{ role: "system", content: "System prompt" },
+							{ role: "user", content: "User input" },
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "System prompt",
 					}),
 				}
 			);
@@ -256,7 +275,10 @@ describe("OllamaLLM", () => {
 
 		it("should handle zero provider defaults correctly", async () => {
 			const mockResponseData = {
-				response: "Response with default tokens",
+				message: {
+					role: "assistant",
+					content: "Response with default tokens",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -269,7 +291,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -277,19 +299,24 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User input",
+						messages: [
+							{ role: "system", content: "System prompt" },
+							{ role: "user", content: "User input" },
+						],
 						stream: false,
 						options: {
 							temperature: 0.5,
 						},
-						system: "System prompt",
 					}),
 				}
 			);
 		});
 
 		it("should handle empty response gracefully", async () => {
-			const mockResponseData = { response: "", done: true };
+			const mockResponseData = {
+				message: { role: "assistant", content: "" },
+				done: true,
+			};
 			mockResponse.setJsonResponse(mockResponseData);
 
 			const result = await ollamaLLM.autocomplete("prompt", "content");
@@ -306,7 +333,7 @@ describe("OllamaLLM", () => {
 
 		it("should call callback with the full result in non-streaming mode", async () => {
 			const mockResponseData = {
-				response: "Full response text",
+				message: { role: "assistant", content: "Full response text" },
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -328,7 +355,10 @@ describe("OllamaLLM", () => {
 		});
 
 		it("should not call callback in non-streaming mode when result is empty", async () => {
-			const mockResponseData = { response: "", done: true };
+			const mockResponseData = {
+				message: { role: "assistant", content: "" },
+				done: true,
+			};
 			mockResponse.setJsonResponse(mockResponseData);
 
 			const callback = jest.fn<void, [string]>();
@@ -350,7 +380,12 @@ describe("OllamaLLM", () => {
 				"llama2",
 				true
 			);
-			const mockResponseData = { response: "Native fetch response" };
+			const mockResponseData = {
+				message: {
+					role: "assistant",
+					content: "Native fetch response",
+				},
+			};
 			mockResponse.setJsonResponse(mockResponseData);
 
 			await ollamaWithNativeFetch.autocomplete("prompt", "content");
@@ -391,9 +426,9 @@ describe("OllamaLLM", () => {
 		it("should handle streaming mode successfully", async () => {
 			// Mock streaming chunks
 			const chunks = [
-				'{"response": "Hello", "done": false}\n',
-				'{"response": " world", "done": false}\n',
-				'{"response": "!", "done": true}\n',
+				'{"message": {"content": "Hello"}, "done": false}\n',
+				'{"message": {"content": " world"}, "done": false}\n',
+				'{"message": {"content": "!"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -425,7 +460,7 @@ describe("OllamaLLM", () => {
 			expect(mockReader.releaseLock).toHaveBeenCalled();
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -433,12 +468,14 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User input",
+						messages: [
+							{ role: "system", content: "System prompt" },
+							{ role: "user", content: "User input" },
+						],
 						stream: true,
 						options: {
 							temperature: 0.7,
 						},
-						system: "System prompt",
 					}),
 				}
 			);
@@ -446,7 +483,7 @@ describe("OllamaLLM", () => {
 
 		it("should handle streaming with done flag", async () => {
 			const chunks = [
-				'{"response": "Complete", "done": false}\n',
+				'{"message": {"content": "Complete"}, "done": false}\n',
 				'{"done": true}\n',
 			];
 
@@ -476,11 +513,42 @@ describe("OllamaLLM", () => {
 			expect(callback).toHaveBeenCalledWith("Complete");
 		});
 
+		it("should report token counts from the final chunk", async () => {
+			const chunks = [
+				'{"message": {"content": "Hi"}, "done": false}\n',
+				'{"done": true, "prompt_eval_count": 26, "eval_count": 12}\n',
+			];
+
+			let chunkIndex = 0;
+			mockReader.read.mockImplementation(() => {
+				if (chunkIndex < chunks.length) {
+					const chunk = chunks[chunkIndex++];
+					return Promise.resolve({
+						done: false,
+						value: new TextEncoder().encode(chunk),
+					});
+				}
+				return Promise.resolve({ done: true });
+			});
+
+			const onUsage = jest.fn();
+			await ollamaLLM.chat(
+				{ messages: [{ role: "user", content: "content" }] },
+				{ callback: jest.fn(), streaming: true, onUsage }
+			);
+
+			expect(onUsage).toHaveBeenCalledTimes(1);
+			expect(onUsage).toHaveBeenCalledWith({
+				inputTokens: 26,
+				outputTokens: 12,
+			});
+		});
+
 		it("should handle invalid JSON in stream gracefully", async () => {
 			const chunks = [
-				'{"response": "Valid", "done": false}\n',
+				'{"message": {"content": "Valid"}, "done": false}\n',
 				"invalid json line\n",
-				'{"response": " text", "done": true}\n',
+				'{"message": {"content": " text"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -513,8 +581,8 @@ describe("OllamaLLM", () => {
 
 		it("should handle incomplete JSON chunks across reads", async () => {
 			const chunks = [
-				'{"response": "Partial',
-				' chunk", "done": false}\n{"response": " more", "done": true}\n',
+				'{"message": {"content": "Partial',
+				' chunk"}, "done": false}\n{"message": {"content": " more"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -580,10 +648,10 @@ describe("OllamaLLM", () => {
 
 		it("should handle empty stream chunks gracefully", async () => {
 			const chunks = [
-				'{"response": "Start", "done": false}\n',
+				'{"message": {"content": "Start"}, "done": false}\n',
 				"\n", // Empty line
 				"   \n", // Whitespace only
-				'{"response": " End", "done": true}\n',
+				'{"message": {"content": " End"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -639,7 +707,10 @@ describe("OllamaLLM", () => {
 
 		it("should use system parameter in API when systemPromptSupport is true", async () => {
 			const mockResponseData = {
-				response: "System prompt response",
+				message: {
+					role: "assistant",
+					content: "System prompt response",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -655,7 +726,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -663,12 +734,20 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "Write a hello world function",
+						messages: [
+							{
+								role: "system",
+								content: "You are a helpful assistant",
+							},
+							{
+								role: "user",
+								content: "Write a hello world function",
+							},
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "You are a helpful assistant",
 					}),
 				}
 			);
@@ -676,7 +755,7 @@ describe("OllamaLLM", () => {
 
 		it("should add prompt as part of user prompt when systemPromptSupport is false", async () => {
 			const mockResponseData = {
-				response: "User prompt response",
+				message: { role: "assistant", content: "User prompt response" },
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -692,7 +771,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -700,7 +779,16 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "You are a helpful assistant\nWrite a hello world function",
+						messages: [
+							{
+								role: "user",
+								content: "You are a helpful assistant",
+							},
+							{
+								role: "user",
+								content: "Write a hello world function",
+							},
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
@@ -712,7 +800,10 @@ describe("OllamaLLM", () => {
 
 		it("should handle userPrompt with systemPromptSupport true", async () => {
 			const mockResponseData = {
-				response: "Combined prompt response",
+				message: {
+					role: "assistant",
+					content: "Combined prompt response",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -728,7 +819,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -736,12 +827,15 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User custom prompt\nContent text",
+						messages: [
+							{ role: "system", content: "System instruction" },
+							{ role: "user", content: "User custom prompt" },
+							{ role: "user", content: "Content text" },
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "System instruction",
 					}),
 				}
 			);
@@ -749,7 +843,7 @@ describe("OllamaLLM", () => {
 
 		it("should handle userPrompt with systemPromptSupport false", async () => {
 			const mockResponseData = {
-				response: "User prompt response",
+				message: { role: "assistant", content: "User prompt response" },
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -765,7 +859,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -773,7 +867,11 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "System instruction\nUser custom prompt\nContent text",
+						messages: [
+							{ role: "user", content: "System instruction" },
+							{ role: "user", content: "User custom prompt" },
+							{ role: "user", content: "Content text" },
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
@@ -785,7 +883,10 @@ describe("OllamaLLM", () => {
 
 		it("should default to systemPromptSupport true when parameter is not provided", async () => {
 			const mockResponseData = {
-				response: "Default system prompt response",
+				message: {
+					role: "assistant",
+					content: "Default system prompt response",
+				},
 				done: true,
 			};
 			mockResponse.setJsonResponse(mockResponseData);
@@ -798,7 +899,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -806,12 +907,20 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "Write a hello world function",
+						messages: [
+							{
+								role: "system",
+								content: "You are a helpful assistant",
+							},
+							{
+								role: "user",
+								content: "Write a hello world function",
+							},
+						],
 						stream: false,
 						options: {
 							temperature: 0.7,
 						},
-						system: "You are a helpful assistant",
 					}),
 				}
 			);
@@ -822,9 +931,9 @@ describe("OllamaLLM", () => {
 			mockResponse.setStreamReader(mockReader);
 
 			const chunks = [
-				'{"response": "System", "done": false}\n',
-				'{"response": " prompt", "done": false}\n',
-				'{"response": " streaming", "done": true}\n',
+				'{"message": {"content": "System"}, "done": false}\n',
+				'{"message": {"content": " prompt"}, "done": false}\n',
+				'{"message": {"content": " streaming"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -856,7 +965,7 @@ describe("OllamaLLM", () => {
 			expect(callback).toHaveBeenNthCalledWith(3, " streaming");
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -864,12 +973,14 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "User input",
+						messages: [
+							{ role: "system", content: "System prompt" },
+							{ role: "user", content: "User input" },
+						],
 						stream: true,
 						options: {
 							temperature: 0.7,
 						},
-						system: "System prompt",
 					}),
 				}
 			);
@@ -880,9 +991,9 @@ describe("OllamaLLM", () => {
 			mockResponse.setStreamReader(mockReader);
 
 			const chunks = [
-				'{"response": "User", "done": false}\n',
-				'{"response": " prompt", "done": false}\n',
-				'{"response": " streaming", "done": true}\n',
+				'{"message": {"content": "User"}, "done": false}\n',
+				'{"message": {"content": " prompt"}, "done": false}\n',
+				'{"message": {"content": " streaming"}, "done": true}\n',
 			];
 
 			let chunkIndex = 0;
@@ -914,7 +1025,7 @@ describe("OllamaLLM", () => {
 			expect(callback).toHaveBeenNthCalledWith(3, " streaming");
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				{
 					method: "POST",
 					headers: {
@@ -922,7 +1033,10 @@ describe("OllamaLLM", () => {
 					},
 					body: JSON.stringify({
 						model: "llama2",
-						prompt: "System prompt\nUser input",
+						messages: [
+							{ role: "user", content: "System prompt" },
+							{ role: "user", content: "User input" },
+						],
 						stream: true,
 						options: {
 							temperature: 0.7,
@@ -950,7 +1064,9 @@ describe("OllamaLLM", () => {
 		});
 
 		it("should handle undefined temperature correctly", async () => {
-			const mockResponseData = { response: "Test response" };
+			const mockResponseData = {
+				message: { role: "assistant", content: "Test response" },
+			};
 			mockResponse.setJsonResponse(mockResponseData);
 
 			await ollamaLLM.autocomplete(
@@ -961,7 +1077,7 @@ describe("OllamaLLM", () => {
 			);
 
 			expect(mockStandardFetch).toHaveBeenCalledWith(
-				"http://localhost:11434/api/generate",
+				"http://localhost:11434/api/chat",
 				expect.objectContaining({
 					body: expect.stringContaining(
 						'"temperature":0.7'
@@ -970,4 +1086,202 @@ describe("OllamaLLM", () => {
 			);
 		});
 	});
+
+	describe("generation params", () => {
+		it("should send them as model options", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "Short" },
+				done: true,
+			});
+
+			await ollamaLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: {
+					temperature: 0.2,
+					maxOutputTokens: 128,
+					stop: ["\n\n"],
+					seed: 1,
+				},
+			});
+
+			const body = JSON.parse(
+				(mockStandardFetch.mock.calls[0] as [string, RequestInit])[1]
+					.body as string
+			) as { options: unknown };
+			expect(body.options).toEqual({
+				temperature: 0.2,
+				num_predict: 128,
+				stop: ["\n\n"],
+				seed: 1,
+			});
+		});
+
+		it("should switch thinking with the reasoning effort", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "Short" },
+				done: true,
+			});
+
+			await ollamaLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: "off" },
+			});
+
+			const body = JSON.parse(
+				(mockStandardFetch.mock.calls[0] as [string, RequestInit])[1]
+					.body as string
+			) as { think?: boolean };
+			expect(body.think).toBe(false);
+		});
+	});
+
+	describe("chat endpoint", () => {
+		const getRequestBody = () =>
+			JSON.parse(
+				(mockStandardFetch.mock.calls[0] as [string, RequestInit])[1]
+					.body as string
+			) as Record<string, unknown>;
+
+		beforeEach(() => {
+			mockStandardFetch.mockResolvedValue(mockResponse as Response);
+		});
+
+		it("should stream the thinking field inside think tags", async () => {
+			const mockReader = createMockStreamReader();
+			mockResponse.setStreamReader(mockReader);
+			const chunks = [
+				'{"message": {"content": "", "thinking": "Plan"}, "done": false}\n',
+				'{"message": {"content": "", "thinking": " more"}, "done": false}\n',
+				'{"message": {"content": "Answer"}, "done": false}\n',
+				'{"message": {"content": ""}, "done": true}\n',
+			];
+			chunks.forEach(chunk => {
+				mockReader.read.mockResolvedValueOnce({
+					done: false,
+					value: new TextEncoder().encode(chunk),
+				});
+			});
+			mockReader.read.mockResolvedValue({ done: true });
+
+			const callback = jest.fn<void, [string]>();
+			await ollamaLLM.chat(
+				{ messages: [{ role: "user", content: "Hi" }] },
+				{ callback, streaming: true }
+			);
+
+			expect(callback.mock.calls).toEqual([
+				["<think>Plan"],
+				[" more"],
+				["</think>Answer"],
+			]);
+		});
+
+		it("should send the context size and keep alive of the model", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "Ok" },
+				done: true,
+			});
+			const llm = new OllamaLLM(mockProvider, "llama3", false, true, {
+				numCtx: 16384,
+				keepAlive: "30m",
+			});
+
+			await llm.chat({ messages: [{ role: "user", content: "Hi" }] });
+
+			const body = getRequestBody();
+			expect(body["options"]).toEqual({
+				temperature: 0.7,
+				num_ctx: 16384,
+			});
+			expect(body["keep_alive"]).toBe("30m");
+		});
+
+		it("should send numeric keep alive values as seconds", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "Ok" },
+				done: true,
+			});
+			const llm = new OllamaLLM(mockProvider, "llama3", false, true, {
+				keepAlive: "-1",
+			});
+
+			await llm.chat({ messages: [{ role: "user", content: "Hi" }] });
+
+			expect(getRequestBody()["keep_alive"]).toBe(-1);
+		});
+
+		it("should send images as base64 strings on the message", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "A diagram" },
+				done: true,
+			});
+			const llm = new OllamaLLM(mockProvider, "llava");
+
+			await llm.chat({
+				system: "Describe",
+				messages: [
+					{
+						role: "user",
+						content: "![[diagram.png]]",
+						images: [
+							{ mimeType: "image/png", data: "iVBORw0KGgo=" },
+						],
+					},
+				],
+			});
+
+			expect(getRequestBody()["messages"]).toEqual([
+				{ role: "system", content: "Describe" },
+				{
+					role: "user",
+					content: "![[diagram.png]]",
+					images: ["iVBORw0KGgo="],
+				},
+			]);
+		});
+
+		it("should send reasoning levels to gpt-oss models", async () => {
+			mockResponse.setJsonResponse({
+				message: { role: "assistant", content: "Ok" },
+				done: true,
+			});
+			const llm = new OllamaLLM(mockProvider, "gpt-oss:20b");
+
+			await llm.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: "high" },
+			});
+
+			expect(getRequestBody()["think"]).toBe("high");
+		});
+	});
+
+	describe("embed", () => {
+		it("should request embeddings for all texts at once", async () => {
+			mockResponse.setJsonResponse({
+				embeddings: [
+					[0.1, 0.2],
+					[0.3, 0.4],
+				],
+			});
+			mockStandardFetch.mockResolvedValue(mockResponse as Response);
+			const llm = new OllamaLLM(mockProvider, "nomic-embed-text");
+
+			const vectors = await llm.embed(["first", "second"]);
+
+			expect(vectors).toEqual([
+				[0.1, 0.2],
+				[0.3, 0.4],
+			]);
+			const [url, init] = mockStandardFetch.mock.calls[0] as [
+				string,
+				RequestInit,
+			];
+			expect(url).toBe("http://localhost:11434/api/embed");
+			expect(JSON.parse(init.body as string)).toEqual({
+				model: "nomic-embed-text",
+				input: ["first", "second"],
+			});
+		});
+	});
 });
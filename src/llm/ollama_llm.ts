@@ -1,5 +1,20 @@
 import { BaseProviderLLM } from "./base_provider_llm";
-import type { AIProvider } from "../types";
+import { resolveSystemPrompt, toOpenAIGenerationParams } from "./chat";
+import type {
+	ChatOptions,
+	ChatRequest,
+	EmbedOptions,
+	GenerationParams,
+} from "./chat";
+import type { TokenUsage } from "./usage";
+import { getReasoningLevel } from "./reasoning";
+import type { ReasoningLevel } from "./reasoning";
+import type {
+	AIProvider,
+	OllamaModelSettings,
+	ReasoningEffort,
+} from "../types";
+import { createResponseError } from "./errors";
 
 function getRecordProp(obj: unknown, key: string): unknown {
 	if (typeof obj !== "object" || obj === null) return undefined;
@@ -16,14 +31,100 @@ function getBooleanProp(obj: unknown, key: string): boolean | undefined {
 	return typeof value === "boolean" ? value : undefined;
 }
 
+function getNumberProp(obj: unknown, key: string): number | undefined {
+	const value = getRecordProp(obj, key);
+	return typeof value === "number" ? value : undefined;
+}
+
+// Token counts are only present on the final (done) response
+function getOllamaUsage(data: unknown): TokenUsage | undefined {
+	const inputTokens = getNumberProp(data, "prompt_eval_count");
+	const outputTokens = getNumberProp(data, "eval_count");
+	if (inputTokens === undefined && outputTokens === undefined) {
+		return undefined;
+	}
+
+	return {
+		inputTokens: inputTokens ?? 0,
+		outputTokens: outputTokens ?? 0,
+	};
+}
+
+// Ollama model options; num_predict limits the generated tokens
+function getOllamaOptions(
+	params: GenerationParams = {}
+): Record<string, number | string[]> {
+	const { maxOutputTokens, ...rest } = params;
+	const options = toOpenAIGenerationParams(rest);
+
+	return maxOutputTokens !== undefined
+		? { ...options, num_predict: maxOutputTokens }
+		: options;
+}
+
+/**
+ * Value of the think field. gpt-oss models take a level;
+ * other thinking models only switch thinking on or off.
+ */
+function getOllamaThink(
+	modelName: string,
+	effort?: ReasoningEffort
+): boolean | ReasoningLevel | undefined {
+	if (effort === undefined) {
+		return undefined;
+	}
+
+	const level = getReasoningLevel(effort);
+	if (/gpt-oss/i.test(modelName)) {
+		return level ?? false;
+	}
+
+	return level !== undefined;
+}
+
+// keep_alive is a duration such as "10m", or a number of seconds
+function getKeepAlive(value?: string): string | number | undefined {
+	const trimmed = value?.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+
+	const seconds = Number(trimmed);
+	return Number.isNaN(seconds) ? trimmed : seconds;
+}
+
+// /api/chat takes images as a list of base64 strings on the message
+function toOllamaMessages(
+	request: ChatRequest,
+	systemPromptSupport: boolean
+): Array<{ role: string; content: string; images?: string[] }> {
+	const { system, messages } = resolveSystemPrompt(
+		request,
+		systemPromptSupport
+	);
+	const ollamaMessages = messages.map(({ role, content, images }) => ({
+		role,
+		content,
+		...(images?.length ? { images: images.map(image => image.data) } : {}),
+	}));
+
+	return system !== undefined
+		? [{ role: "system", content: system }, ...ollamaMessages]
+		: ollamaMessages;
+}
+
 export class OllamaLLM extends BaseProviderLLM {
+	private modelSettings: OllamaModelSettings;
+
 	constructor(
 		provider: AIProvider,
 		modelName: string,
 		useNativeFetch: boolean = false,
-		temperatureSupported: boolean = true
+		temperatureSupported: boolean = true,
+		modelSettings: OllamaModelSettings = {}
 	) {
 		super(provider, modelName, useNativeFetch, temperatureSupported);
+		this.modelSettings = modelSettings;
 	}
 
 	protected getDefaultBaseUrl(): string {
@@ -37,106 +138,136 @@ export class OllamaLLM extends BaseProviderLLM {
 		};
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
-		let requestPrompt: string;
-		let systemPrompt: string | undefined;
-
-		if (systemPromptSupport) {
-			// Use system parameter in API
-			systemPrompt = prompt;
-			requestPrompt = userPrompt ? userPrompt + "\n" + content : content;
-		} else {
-			// Add prompt as part of user prompt
-			systemPrompt = undefined;
-			requestPrompt = userPrompt
-				? prompt + "\n" + userPrompt + "\n" + content
-				: prompt + "\n" + content;
-		}
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
 
 		const body: {
 			model: string;
-			prompt: string;
+			messages: Array<{
+				role: string;
+				content: string;
+				images?: string[];
+			}>;
 			stream: boolean;
-			options?: {
-				temperature?: number;
-			};
-			system?: string;
+			options?: Record<string, number | string[]>;
+			think?: boolean | ReasoningLevel;
+			keep_alive?: string | number;
 		} = {
 			model: this.modelName,
-			prompt: requestPrompt,
+			messages: toOllamaMessages(request, systemPromptSupport),
 			stream: streaming,
 		};
-		const temperatureParam = this.getTemperatureParam(temperature);
-		if (temperatureParam.temperature !== undefined) {
-			body.options = temperatureParam;
+		const modelOptions = {
+			...this.getTemperatureParam(temperature),
+			...getOllamaOptions(request.params),
+			...(this.modelSettings.numCtx
+				? { num_ctx: this.modelSettings.numCtx }
+				: {}),
+		};
+		if (Object.keys(modelOptions).length > 0) {
+			body.options = modelOptions;
 		}
 
-		if (systemPrompt) {
-			body.system = systemPrompt;
+		const think = getOllamaThink(
+			this.modelName,
+			request.params?.reasoningEffort
+		);
+		if (think !== undefined) {
+			body.think = think;
 		}
 
-		const response = await this.makeRequest("/api/generate", body);
+		const keepAlive = getKeepAlive(this.modelSettings.keepAlive);
+		if (keepAlive !== undefined) {
+			body.keep_alive = keepAlive;
+		}
+
+		const response = await this.makeRequest("/api/chat", body, options);
 
 		if (!response.ok) {
-			throw new Error(
-				`Ollama API error: ${response.status} ${response.statusText}`
-			);
+			throw await createResponseError(response, "Ollama API error");
 		}
 
 		if (streaming && callback) {
 			// Streaming mode
-			const reader = response.body?.getReader();
-			if (!reader) {
-				throw new Error("No response body reader available");
-			}
+			let isThinking = false;
+
+			const emitThinking = (text: string) => {
+				if (!text) {
+					return;
+				}
+
+				if (!isThinking) {
+					callback(`<think>${text}`);
+					isThinking = true;
+					return;
+				}
 
-			const decoder = new TextDecoder();
-			let buffer = "";
-
-			try {
-				while (true) {
-					const { done, value } = await reader.read();
-					if (done) break;
-
-					buffer += decoder.decode(value, { stream: true });
-					const lines = buffer.split("\n");
-					buffer = lines.pop() || "";
-
-					for (const line of lines) {
-						if (line.trim()) {
-							try {
-								const data: unknown = JSON.parse(
-									line
-								) as unknown;
-								const chunk = getStringProp(data, "response");
-								if (chunk !== undefined) {
-									callback(chunk);
-								}
-								if (getBooleanProp(data, "done")) {
-									return;
-								}
-							} catch {
-								// Skip invalid JSON lines
-							}
+				callback(text);
+			};
+
+			const emitContent = (text: string) => {
+				if (!text) {
+					return;
+				}
+
+				if (isThinking) {
+					callback(`</think>${text}`);
+					isThinking = false;
+					return;
+				}
+
+				callback(text);
+			};
+
+			await this.readLines(
+				response,
+				line => {
+					if (!line.trim()) {
+						return;
+					}
+
+					try {
+						const data: unknown = JSON.parse(line) as unknown;
+						const message = getRecordProp(data, "message");
+						emitThinking(getStringProp(message, "thinking") ?? "");
+						emitContent(getStringProp(message, "content") ?? "");
+
+						const usage = getOllamaUsage(data);
+						if (usage) {
+							onUsage?.(usage);
 						}
+						return getBooleanProp(data, "done") === true;
+					} catch {
+						// Skip invalid JSON lines
 					}
-				}
-			} finally {
-				reader.releaseLock();
+				},
+				signal
+			);
+
+			if (isThinking) {
+				callback("</think>");
 			}
 			return;
 		} else {
-			// Non-streaming mode
+			// Non-streaming mode; thinking is left out of the result
 			const data = (await response.json()) as unknown;
-			const result = getStringProp(data, "response") ?? "";
+			const result =
+				getStringProp(getRecordProp(data, "message"), "content") ?? "";
+
+			const usage = getOllamaUsage(data);
+			if (usage) {
+				onUsage?.(usage);
+			}
 
 			// Call callback with the full result if provided
 			if (callback && result) {
@@ -146,4 +277,26 @@ export class OllamaLLM extends BaseProviderLLM {
 			return result;
 		}
 	}
+
+	async embed(
+		texts: string[],
+		options: EmbedOptions = {}
+	): Promise<number[][]> {
+		const keepAlive = getKeepAlive(this.modelSettings.keepAlive);
+		const response = await this.makeRequest(
+			"/api/embed",
+			{
+				model: this.modelName,
+				input: texts,
+				...(keepAlive !== undefined ? { keep_alive: keepAlive } : {}),
+			},
+			options
+		);
+		if (!response.ok) {
+			throw await createResponseError(response, "Ollama API error");
+		}
+
+		const data = (await response.json()) as { embeddings: number[][] };
+		return data.embeddings;
+	}
 }
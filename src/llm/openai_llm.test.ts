@@ -117,6 +117,25 @@ describe("OpenAILLM", () => {
 			});
 		});
 
+		it("should send the reasoning effort level", async () => {
+			mockClient.chat.completions.create.mockResolvedValue({
+				choices: [{ message: { content: "Answer" } }],
+			});
+
+			await openaiLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: "low", maxOutputTokens: 500 },
+			});
+
+			expect(mockClient.chat.completions.create).toHaveBeenCalledWith({
+				model: OpenAIModel.GPT_4O_MINI,
+				messages: [{ role: "user", content: "Hi" }],
+				temperature: 0.7,
+				max_completion_tokens: 500,
+				reasoning_effort: "low",
+			});
+		});
+
 		it("should use default temperature and provider defaults when not provided", async () => {
 			const mockResponse: ChatCompletion = {
 				id: "test-id",
@@ -521,9 +540,73 @@ describe("OpenAILLM", () => {
 				],
 				temperature: 0.8,
 				stream: true,
+				stream_options: { include_usage: true },
 			});
 		});
 
+		it("should report usage from the final streaming chunk", async () => {
+			const mockStream = {
+				async *[Symbol.asyncIterator]() {
+					await Promise.resolve();
+					yield {
+						choices: [{ index: 0, delta: { content: "Hi" } }],
+					};
+					yield {
+						choices: [],
+						usage: {
+							prompt_tokens: 12,
+							completion_tokens: 30,
+							completion_tokens_details: { reasoning_tokens: 20 },
+						},
+					};
+				},
+			};
+			mockClient.chat.completions.create.mockResolvedValue(mockStream);
+
+			const onUsage = jest.fn();
+			await openaiLLM.chat(
+				{ messages: [{ role: "user", content: "Say hi" }] },
+				{ callback: jest.fn(), streaming: true, onUsage }
+			);
+
+			expect(onUsage).toHaveBeenCalledWith({
+				inputTokens: 12,
+				outputTokens: 30,
+				reasoningTokens: 20,
+			});
+		});
+
+		it("should retry SDK errors with a retryable status before streaming", async () => {
+			const mockStream = {
+				async *[Symbol.asyncIterator]() {
+					await Promise.resolve();
+					yield {
+						choices: [{ index: 0, delta: { content: "Hi" } }],
+					};
+				},
+			};
+			mockClient.chat.completions.create
+				.mockRejectedValueOnce(
+					Object.assign(new Error("Overloaded"), {
+						status: 503,
+						headers: { "retry-after": "0" },
+					})
+				)
+				.mockResolvedValueOnce(mockStream);
+			openaiLLM.maxRetries = 1;
+
+			const callback = jest.fn();
+			const onRetry = jest.fn();
+			await openaiLLM.chat(
+				{ messages: [{ role: "user", content: "Say hi" }] },
+				{ callback, streaming: true, onRetry }
+			);
+
+			expect(mockClient.chat.completions.create).toHaveBeenCalledTimes(2);
+			expect(onRetry).toHaveBeenCalledWith(2, 2);
+			expect(callback).toHaveBeenCalledWith("Hi");
+		});
+
 		it("should stream reasoning deltas when the provider includes them", async () => {
 			const mockStream = {
 				async *[Symbol.asyncIterator]() {
@@ -977,6 +1060,7 @@ describe("OpenAILLM", () => {
 				],
 				temperature: 0.8,
 				stream: true,
+				stream_options: { include_usage: true },
 			});
 		});
 
@@ -1037,6 +1121,7 @@ describe("OpenAILLM", () => {
 				],
 				temperature: 0.8,
 				stream: true,
+				stream_options: { include_usage: true },
 			});
 		});
 	});
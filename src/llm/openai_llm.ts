@@ -1,5 +1,12 @@
 import OpenAI from "openai";
 import { LLM } from "./base";
+import { getCassetteClientOptions } from "./cassette";
+import type { FetchFn } from "./cassette";
+import { toOpenAIGenerationParams, toOpenAIVisionMessages } from "./chat";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import { getReasoningLevel } from "./reasoning";
+import { toProviderError } from "./errors";
 
 type AsyncIterableLike<T> = {
 	[Symbol.asyncIterator](): {
@@ -79,7 +86,7 @@ export enum OpenAIModel {
 }
 
 export class OpenAILLM extends LLM {
-	private openai: OpenAI;
+	protected openai: OpenAI;
 	private model: OpenAIModel;
 
 	constructor(
@@ -93,10 +100,15 @@ export class OpenAILLM extends LLM {
 		const config: {
 			apiKey: string;
 			dangerouslyAllowBrowser: boolean;
+			maxRetries: number;
 			baseURL?: string;
+			fetch?: FetchFn;
 		} = {
 			apiKey: apiKey,
 			dangerouslyAllowBrowser: true,
+			// Retries are handled by withRetry so they show in the spinner
+			maxRetries: 0,
+			...getCassetteClientOptions(),
 		};
 		if (baseURL && baseURL.trim() !== "") {
 			config.baseURL = baseURL;
@@ -104,51 +116,58 @@ export class OpenAILLM extends LLM {
 		this.openai = new OpenAI(config);
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+		// OpenAI reasoning models can't turn reasoning off, so "off" sends nothing
+		const reasoningEffort = getReasoningLevel(
+			request.params?.reasoningEffort
+		);
+
 		try {
-			const messages = systemPromptSupport
-				? userPrompt
-					? [
-							{ role: "system" as const, content: prompt },
-							{ role: "user" as const, content: userPrompt },
-							{ role: "user" as const, content: content },
-						]
-					: [
-							{ role: "system" as const, content: prompt },
-							{ role: "user" as const, content: content },
-						]
-				: userPrompt
-					? [
-							{ role: "user" as const, content: prompt },
-							{ role: "user" as const, content: userPrompt },
-							{ role: "user" as const, content: content },
-						]
-					: [
-							{ role: "user" as const, content: prompt },
-							{ role: "user" as const, content: content },
-						];
+			const messages = toOpenAIVisionMessages(
+				request,
+				systemPromptSupport
+			);
 
 			const baseRequestData = {
 				model: this.model,
 				messages: messages,
 				...this.getTemperatureParam(temperature),
+				...toOpenAIGenerationParams(
+					request.params,
+					"max_completion_tokens"
+				),
+				...(reasoningEffort
+					? { reasoning_effort: reasoningEffort }
+					: {}),
 			};
 
 			if (streaming && callback) {
 				// Streaming mode
-				const requestData = { ...baseRequestData, stream: true };
-				const stream = await this.openai.chat.completions.create(
-					requestData as Parameters<
-						typeof this.openai.chat.completions.create
-					>[0]
+				const requestData = {
+					...baseRequestData,
+					stream: true,
+					stream_options: { include_usage: true },
+				};
+				const stream = await this.withRetry(
+					() =>
+						this.openai.chat.completions.create(
+							requestData as Parameters<
+								typeof this.openai.chat.completions.create
+							>[0],
+							...this.getRequestOptions(signal)
+						),
+					options
 				);
 				let isThinking = false;
 
@@ -185,6 +204,12 @@ export class OpenAILLM extends LLM {
 						const delta = getStreamingDeltaParts(chunk);
 						emitReasoning(delta.reasoning);
 						emitContent(delta.content);
+
+						// The final chunk carries usage and no choices
+						const usage = parseOpenAIUsage(chunk.usage);
+						if (usage) {
+							onUsage?.(usage);
+						}
 					}
 
 					if (isThinking) {
@@ -194,14 +219,24 @@ export class OpenAILLM extends LLM {
 				return;
 			} else {
 				// Non-streaming mode
-				const response = await this.openai.chat.completions.create(
-					baseRequestData as Parameters<
-						typeof this.openai.chat.completions.create
-					>[0]
+				const response = await this.withRetry(
+					() =>
+						this.openai.chat.completions.create(
+							baseRequestData as Parameters<
+								typeof this.openai.chat.completions.create
+							>[0],
+							...this.getRequestOptions(signal)
+						),
+					options
 				);
-				const result =
-					(response as OpenAI.Chat.Completions.ChatCompletion)
-						.choices[0]?.message?.content || "";
+				const completion =
+					response as OpenAI.Chat.Completions.ChatCompletion;
+				const result = completion.choices[0]?.message?.content || "";
+
+				const usage = parseOpenAIUsage(completion.usage);
+				if (usage) {
+					onUsage?.(usage);
+				}
 
 				// Call callback with the full result if provided
 				if (callback && result) {
@@ -212,7 +247,28 @@ export class OpenAILLM extends LLM {
 			}
 		} catch (error) {
 			console.error("Error in autocomplete:", error);
-			throw error;
+			throw toProviderError(error);
+		}
+	}
+
+	async embed(
+		texts: string[],
+		options: EmbedOptions = {}
+	): Promise<number[][]> {
+		try {
+			const response = await this.withRetry(
+				() =>
+					this.openai.embeddings.create(
+						{ model: this.model, input: texts },
+						...this.getRequestOptions(options.signal)
+					),
+				options
+			);
+			return response.data
+				.sort((a, b) => a.index - b.index)
+				.map(item => item.embedding);
+		} catch (error) {
+			throw toProviderError(error);
 		}
 	}
 }
@@ -116,6 +116,23 @@ describe("OpenAIResponsesLLM", () => {
 			});
 		});
 
+		it("should send the reasoning effort with the summary", async () => {
+			mockClient.responses.create.mockResolvedValue({
+				output_text: "Answer",
+			});
+
+			await openaiResponsesLLM.chat({
+				messages: [{ role: "user", content: "Hi" }],
+				params: { reasoningEffort: 30000 },
+			});
+
+			expect(mockClient.responses.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					reasoning: { summary: "auto", effort: "high" },
+				})
+			);
+		});
+
 		it("should request reasoning summary when enabled for the model", async () => {
 			const reasoningModel = OpenAIModel.GPT_4O_MINI;
 			const reasoningLLM = new OpenAIResponsesLLM(
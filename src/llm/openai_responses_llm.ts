@@ -1,5 +1,12 @@
 import OpenAI from "openai";
 import { LLM } from "./base";
+import { getCassetteClientOptions } from "./cassette";
+import type { FetchFn } from "./cassette";
+import { resolveSystemPrompt, toDataUrl } from "./chat";
+import type { ChatOptions, ChatRequest, GenerationParams } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import { getReasoningLevel } from "./reasoning";
+import { toProviderError } from "./errors";
 import { OpenAIModel } from "./openai_llm";
 
 type AsyncIterableLike<T> = {
@@ -8,11 +15,6 @@ type AsyncIterableLike<T> = {
 	};
 };
 
-type ResponsesInputMessage = {
-	role: "user";
-	content: string;
-};
-
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null;
 }
@@ -82,29 +84,33 @@ function getResponsesStreamingDeltaParts(event: unknown): {
 	return { content: "", reasoning: "" };
 }
 
-function buildResponsesInput(
-	prompt: string,
-	content: string,
-	userPrompt: string | undefined,
-	systemPromptSupport: boolean
-): ResponsesInputMessage[] {
-	const input: ResponsesInputMessage[] = [];
-
-	if (!systemPromptSupport) {
-		input.push({ role: "user", content: prompt });
-	}
+function getResponseUsage(response: unknown): unknown {
+	return isRecord(response) ? response["usage"] : undefined;
+}
 
-	if (userPrompt) {
-		input.push({ role: "user", content: userPrompt });
+function getCompletedEventUsage(event: unknown): unknown {
+	if (!isRecord(event) || event["type"] !== "response.completed") {
+		return undefined;
 	}
 
-	input.push({ role: "user", content: content });
+	return getResponseUsage(event["response"]);
+}
 
-	return input;
+// The responses API has no stop sequences, seed or penalties
+function getResponsesGenerationParams(params: GenerationParams = {}): {
+	max_output_tokens?: number;
+	top_p?: number;
+} {
+	return {
+		...(params.maxOutputTokens !== undefined
+			? { max_output_tokens: params.maxOutputTokens }
+			: {}),
+		...(params.topP !== undefined ? { top_p: params.topP } : {}),
+	};
 }
 
 export class OpenAIResponsesLLM extends LLM {
-	private openai: OpenAI;
+	protected openai: OpenAI;
 	private model: OpenAIModel;
 	private reasoningSummarySupported: boolean;
 
@@ -121,10 +127,15 @@ export class OpenAIResponsesLLM extends LLM {
 		const config: {
 			apiKey: string;
 			dangerouslyAllowBrowser: boolean;
+			maxRetries: number;
 			baseURL?: string;
+			fetch?: FetchFn;
 		} = {
 			apiKey: apiKey,
 			dangerouslyAllowBrowser: true,
+			// Retries are handled by withRetry so they show in the spinner
+			maxRetries: 0,
+			...getCassetteClientOptions(),
 		};
 		if (baseURL && baseURL.trim() !== "") {
 			config.baseURL = baseURL;
@@ -132,43 +143,79 @@ export class OpenAIResponsesLLM extends LLM {
 		this.openai = new OpenAI(config);
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
 		try {
-			const reasoningConfig = this.reasoningSummarySupported
-				? {
-						reasoning: {
-							summary: "auto" as const,
-						},
-					}
-				: {};
+			const { system, messages } = resolveSystemPrompt(
+				request,
+				systemPromptSupport
+			);
+
+			const reasoningEffort = getReasoningLevel(
+				request.params?.reasoningEffort
+			);
+			const reasoning = {
+				...(this.reasoningSummarySupported
+					? { summary: "auto" as const }
+					: {}),
+				...(reasoningEffort ? { effort: reasoningEffort } : {}),
+			};
+			const reasoningConfig =
+				Object.keys(reasoning).length > 0 ? { reasoning } : {};
+
+			// Images go as input_image parts next to the text
+			const input = messages.map(({ role, content, images }) => ({
+				role,
+				content: images?.length
+					? [
+							...(content
+								? [
+										{
+											type: "input_text" as const,
+											text: content,
+										},
+									]
+								: []),
+							...images.map(image => ({
+								type: "input_image" as const,
+								image_url: toDataUrl(image),
+								detail: "auto" as const,
+							})),
+						]
+					: content,
+			}));
 
 			const baseRequestData = {
 				model: this.model,
-				input: buildResponsesInput(
-					prompt,
-					content,
-					userPrompt,
-					systemPromptSupport
-				),
+				input,
 				...this.getTemperatureParam(temperature),
+				...getResponsesGenerationParams(request.params),
 				...reasoningConfig,
-				...(systemPromptSupport ? { instructions: prompt } : {}),
+				...(system !== undefined ? { instructions: system } : {}),
 			};
 
 			if (streaming && callback) {
 				const requestData = { ...baseRequestData, stream: true };
-				const stream = await this.openai.responses.create(
-					requestData as Parameters<
-						typeof this.openai.responses.create
-					>[0]
+				const stream = await this.withRetry(
+					() =>
+						this.openai.responses.create(
+							requestData as Parameters<
+								typeof this.openai.responses.create
+							>[0],
+							...this.getRequestOptions(signal)
+						),
+					options
 				);
 				let isThinking = false;
 
@@ -205,6 +252,13 @@ export class OpenAIResponsesLLM extends LLM {
 						const delta = getResponsesStreamingDeltaParts(event);
 						emitReasoning(delta.reasoning);
 						emitContent(delta.content);
+
+						const usage = parseOpenAIUsage(
+							getCompletedEventUsage(event)
+						);
+						if (usage) {
+							onUsage?.(usage);
+						}
 					}
 
 					if (isThinking) {
@@ -213,13 +267,23 @@ export class OpenAIResponsesLLM extends LLM {
 				}
 				return;
 			} else {
-				const response = await this.openai.responses.create(
-					baseRequestData as Parameters<
-						typeof this.openai.responses.create
-					>[0]
+				const response = await this.withRetry(
+					() =>
+						this.openai.responses.create(
+							baseRequestData as Parameters<
+								typeof this.openai.responses.create
+							>[0],
+							...this.getRequestOptions(signal)
+						),
+					options
 				);
 				const result = getResponseOutputText(response);
 
+				const usage = parseOpenAIUsage(getResponseUsage(response));
+				if (usage) {
+					onUsage?.(usage);
+				}
+
 				if (callback && result) {
 					callback(result);
 				}
@@ -228,7 +292,7 @@ export class OpenAIResponsesLLM extends LLM {
 			}
 		} catch (error) {
 			console.error("Error in autocomplete:", error);
-			throw error;
+			throw toProviderError(error);
 		}
 	}
 }
@@ -1,5 +1,9 @@
 import { BaseProviderLLM } from "./base_provider_llm";
-import type { AIProvider } from "../types";
+import { toOpenAIGenerationParams, toOpenAIVisionMessages } from "./chat";
+import type { ChatOptions, ChatRequest } from "./chat";
+import { parseOpenAIUsage } from "./usage";
+import type { AIProvider, ReasoningEffort } from "../types";
+import { createResponseError } from "./errors";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null;
@@ -89,6 +93,23 @@ function getOpenRouterMessageContent(payload: unknown): string | undefined {
 	return typeof content === "string" ? content : undefined;
 }
 
+// OpenRouter takes either an effort level or a thinking token budget
+function getOpenRouterReasoning(effort?: ReasoningEffort): {
+	reasoning?: Record<string, string | number | boolean>;
+} {
+	if (effort === undefined) {
+		return {};
+	}
+
+	if (effort === "off") {
+		return { reasoning: { enabled: false } };
+	}
+
+	return typeof effort === "number"
+		? { reasoning: { max_tokens: effort } }
+		: { reasoning: { effort } };
+}
+
 export class OpenRouterLLM extends BaseProviderLLM {
 	constructor(
 		provider: AIProvider,
@@ -113,61 +134,42 @@ export class OpenRouterLLM extends BaseProviderLLM {
 		return headers;
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		systemPromptSupport: boolean = true
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
 	): Promise<string | void> {
-		const messages = systemPromptSupport
-			? userPrompt
-				? [
-						{ role: "system" as const, content: prompt },
-						{ role: "user" as const, content: userPrompt },
-						{ role: "user" as const, content: content },
-					]
-				: [
-						{ role: "system" as const, content: prompt },
-						{ role: "user" as const, content: content },
-					]
-			: userPrompt
-				? [
-						{ role: "user" as const, content: prompt },
-						{ role: "user" as const, content: userPrompt },
-						{ role: "user" as const, content: content },
-					]
-				: [
-						{ role: "user" as const, content: prompt },
-						{ role: "user" as const, content: content },
-					];
+		const {
+			callback,
+			streaming = false,
+			systemPromptSupport = true,
+			signal,
+			onUsage,
+		} = options;
+		const temperature = request.params?.temperature;
+
+		const messages = toOpenAIVisionMessages(request, systemPromptSupport);
 
 		const body = {
 			model: this.modelName,
 			messages: messages,
 			...this.getTemperatureParam(temperature),
+			...toOpenAIGenerationParams(request.params),
+			...getOpenRouterReasoning(request.params?.reasoningEffort),
 			stream: streaming,
 		};
 
-		const response = await this.makeRequest("/chat/completions", body);
+		const response = await this.makeRequest(
+			"/chat/completions",
+			body,
+			options
+		);
 
 		if (!response.ok) {
-			throw new Error(
-				`OpenRouter API error: ${response.status} ${response.statusText}`
-			);
+			throw await createResponseError(response, "OpenRouter API error");
 		}
 
 		if (streaming && callback) {
 			// Streaming mode
-			const reader = response.body?.getReader();
-			if (!reader) {
-				throw new Error("No response body reader available");
-			}
-
-			const decoder = new TextDecoder();
-			let buffer = "";
 			let isThinking = false;
 
 			const emitReasoning = (text: string) => {
@@ -198,37 +200,37 @@ export class OpenRouterLLM extends BaseProviderLLM {
 				callback(text);
 			};
 
-			try {
-				while (true) {
-					const { done, value } = await reader.read();
-					if (done) break;
-
-					buffer += decoder.decode(value, { stream: true });
-					const lines = buffer.split("\n");
-					buffer = lines.pop() || "";
-
-					for (const line of lines) {
-						if (line.trim() && line.startsWith("data: ")) {
-							const jsonStr = line.slice(6);
-							if (jsonStr.trim() === "[DONE]") break;
-
-							try {
-								const data = JSON.parse(jsonStr) as unknown;
-								const delta = getOpenRouterDeltaParts(data);
-								emitReasoning(delta.reasoning);
-								emitContent(delta.content);
-							} catch {
-								// Skip invalid JSON lines
-							}
+			await this.readLines(
+				response,
+				line => {
+					if (!line.trim() || !line.startsWith("data: ")) {
+						return;
+					}
+
+					const jsonStr = line.slice(6);
+					if (jsonStr.trim() === "[DONE]") return true;
+
+					try {
+						const data = JSON.parse(jsonStr) as unknown;
+						const delta = getOpenRouterDeltaParts(data);
+						emitReasoning(delta.reasoning);
+						emitContent(delta.content);
+
+						const usage = parseOpenAIUsage(
+							isRecord(data) ? data["usage"] : undefined
+						);
+						if (usage) {
+							onUsage?.(usage);
 						}
+					} catch {
+						// Skip invalid JSON lines
 					}
-				}
+				},
+				signal
+			);
 
-				if (isThinking) {
-					callback("</think>");
-				}
-			} finally {
-				reader.releaseLock();
+			if (isThinking) {
+				callback("</think>");
 			}
 			return;
 		} else {
@@ -238,6 +240,13 @@ export class OpenRouterLLM extends BaseProviderLLM {
 			let result = "";
 			result = getOpenRouterMessageContent(data) ?? "";
 
+			const usage = parseOpenAIUsage(
+				isRecord(data) ? data["usage"] : undefined
+			);
+			if (usage) {
+				onUsage?.(usage);
+			}
+
 			// Call callback with the full result if provided
 			if (callback && result) {
 				callback(result);
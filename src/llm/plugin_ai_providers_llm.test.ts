@@ -385,6 +385,57 @@ describe("PluginAIProvidersLLM", () => {
 		});
 	});
 
+	describe("abort signal", () => {
+		const request = {
+			messages: [{ role: "user" as const, content: "Test prompt" }],
+		};
+
+		function spyOnListeners(signal: AbortSignal) {
+			return {
+				add: jest.spyOn(signal, "addEventListener"),
+				remove: jest.spyOn(signal, "removeEventListener"),
+			};
+		}
+
+		it("should remove the abort listener when the request completes", async () => {
+			mockAIProviders.execute.mockResolvedValue(mockChunkHandler);
+			mockChunkHandler.onEnd.mockImplementation(callback => {
+				callback();
+			});
+			const controller = new AbortController();
+			const listeners = spyOnListeners(controller.signal);
+
+			await pluginAIProvidersLLM.chat(request, {
+				signal: controller.signal,
+			});
+
+			expect(listeners.remove).toHaveBeenCalledWith(
+				"abort",
+				listeners.add.mock.calls[0][1]
+			);
+		});
+
+		it("should remove the abort listener when the request fails", async () => {
+			mockAIProviders.execute.mockResolvedValue(mockChunkHandler);
+			mockChunkHandler.onError.mockImplementation(callback => {
+				callback(new Error("Chunk processing failed"));
+			});
+			const controller = new AbortController();
+			const listeners = spyOnListeners(controller.signal);
+
+			await expect(
+				pluginAIProvidersLLM.chat(request, {
+					signal: controller.signal,
+				})
+			).rejects.toThrow("Chunk processing failed");
+
+			expect(listeners.remove).toHaveBeenCalledWith(
+				"abort",
+				listeners.add.mock.calls[0][1]
+			);
+		});
+	});
+
 	describe("edge cases and error scenarios", () => {
 		it("should handle waitForAI promise rejection", async () => {
 			mockWaitForAI.mockResolvedValue({
@@ -1,5 +1,9 @@
 import { LLM } from "./base";
+import { resolveSystemPrompt, toDataUrl } from "./chat";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import { toProviderError } from "./errors";
 import { waitForAI } from "@obsidian-ai-providers/sdk";
+import { createAbortError, throwIfAborted } from "../utils/abort";
 
 export class PluginAIProvidersLLM extends LLM {
 	private pluginAIProviderId: string;
@@ -9,15 +13,7 @@ export class PluginAIProvidersLLM extends LLM {
 		this.pluginAIProviderId = pluginAIProviderId;
 	}
 
-	async autocomplete(
-		prompt: string,
-		content: string,
-		callback?: (text: string) => void,
-		temperature?: number,
-		userPrompt?: string,
-		streaming: boolean = false,
-		_systemPromptSupport?: boolean
-	): Promise<string | void> {
+	private async getProvider() {
 		const { promise } = await waitForAI();
 		const aiProviders = await promise;
 
@@ -29,28 +25,57 @@ export class PluginAIProvidersLLM extends LLM {
 				`Provider with id ${this.pluginAIProviderId} not found`
 			);
 		}
+		return { aiProviders, provider };
+	}
+
+	async chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		const { callback, streaming = false, signal } = options;
+
+		throwIfAborted(signal);
+
+		const { aiProviders, provider } = await this.getProvider();
 
-		const messages = userPrompt
-			? [
-					{ role: "user", content: prompt },
-					{ role: "user", content: userPrompt },
-					{ role: "user", content: content },
-				]
-			: [
-					{ role: "user", content: prompt },
-					{ role: "user", content: content },
-				];
+		// The system prompt is always sent as a user message here
+		const { messages } = resolveSystemPrompt(request, false);
 
 		return new Promise((resolve, reject) => {
 			let result = "";
 
 			const executeRequest = async () => {
+				// The signal may outlive the request, so drop the listener
+				// once it settles
+				let removeAbortListener = () => {};
 				try {
 					const chunkHandler = await aiProviders.execute({
 						provider,
-						messages: messages,
+						messages: messages.map(({ role, content, images }) => ({
+							role,
+							content,
+							...(images?.length
+								? { images: images.map(toDataUrl) }
+								: {}),
+						})),
 					});
 
+					if (signal) {
+						const onAbort = () => {
+							chunkHandler.abort();
+							reject(createAbortError(signal));
+						};
+						if (signal.aborted) {
+							onAbort();
+							return;
+						}
+						signal.addEventListener("abort", onAbort, {
+							once: true,
+						});
+						removeAbortListener = () =>
+							signal.removeEventListener("abort", onAbort);
+					}
+
 					chunkHandler.onData((chunk: string) => {
 						if (streaming && callback) {
 							callback(chunk);
@@ -60,6 +85,7 @@ export class PluginAIProvidersLLM extends LLM {
 					});
 
 					chunkHandler.onEnd(() => {
+						removeAbortListener();
 						if (streaming) {
 							resolve();
 						} else {
@@ -68,17 +94,18 @@ export class PluginAIProvidersLLM extends LLM {
 					});
 
 					chunkHandler.onError((error: Error) => {
+						removeAbortListener();
 						reject(
-							new Error(
-								`Plugin AI providers API error: ${error.message}`
+							toProviderError(
+								error,
+								"Plugin AI providers API error"
 							)
 						);
 					});
 				} catch (error) {
+					removeAbortListener();
 					reject(
-						new Error(
-							`Plugin AI providers API error: ${error instanceof Error ? error.message : "Unknown error"}`
-						)
+						toProviderError(error, "Plugin AI providers API error")
 					);
 				}
 			};
@@ -86,4 +113,18 @@ export class PluginAIProvidersLLM extends LLM {
 			void executeRequest();
 		});
 	}
+
+	async embed(
+		texts: string[],
+		options: EmbedOptions = {}
+	): Promise<number[][]> {
+		throwIfAborted(options.signal);
+
+		const { aiProviders, provider } = await this.getProvider();
+		try {
+			return await aiProviders.embed({ provider, input: texts });
+		} catch (error) {
+			throw toProviderError(error);
+		}
+	}
 }
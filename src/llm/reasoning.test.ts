@@ -0,0 +1,29 @@
+import { getReasoningBudget, getReasoningLevel } from "./reasoning";
+
+describe("getReasoningLevel", () => {
+	it("keeps levels and has none for off or unset", () => {
+		expect(getReasoningLevel("medium")).toBe("medium");
+		expect(getReasoningLevel("off")).toBeUndefined();
+		expect(getReasoningLevel(undefined)).toBeUndefined();
+	});
+
+	it("rounds token budgets to the closest level", () => {
+		expect(getReasoningLevel(1000)).toBe("low");
+		expect(getReasoningLevel(8192)).toBe("medium");
+		expect(getReasoningLevel(30000)).toBe("high");
+	});
+});
+
+describe("getReasoningBudget", () => {
+	it("maps levels to budgets and off to zero", () => {
+		expect(getReasoningBudget("low")).toBe(2048);
+		expect(getReasoningBudget("high")).toBe(24576);
+		expect(getReasoningBudget("off")).toBe(0);
+		expect(getReasoningBudget(undefined)).toBeUndefined();
+	});
+
+	it("uses token budgets as given", () => {
+		expect(getReasoningBudget(5000)).toBe(5000);
+		expect(getReasoningBudget(-1)).toBe(0);
+	});
+});
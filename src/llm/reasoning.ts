@@ -0,0 +1,51 @@
+// Mapping of the provider-neutral reasoning effort to effort levels and token budgets
+import type { ReasoningEffort } from "../types";
+
+export type ReasoningLevel = "low" | "medium" | "high";
+
+// Thinking budgets used for each level by budget-based APIs
+const LEVEL_BUDGETS: Record<ReasoningLevel, number> = {
+	low: 2048,
+	medium: 8192,
+	high: 24576,
+};
+
+/**
+ * Effort level for level-based APIs (OpenAI, OpenRouter).
+ * Token budgets are rounded to the closest level; "off" has no level.
+ */
+export function getReasoningLevel(
+	effort?: ReasoningEffort
+): ReasoningLevel | undefined {
+	if (effort === undefined || effort === "off") {
+		return undefined;
+	}
+
+	if (typeof effort === "number") {
+		if (effort <= LEVEL_BUDGETS.low) return "low";
+		if (effort <= LEVEL_BUDGETS.medium) return "medium";
+		return "high";
+	}
+
+	return effort;
+}
+
+/**
+ * Thinking token budget for budget-based APIs (Anthropic, Gemini).
+ * Returns 0 for "off" and undefined when no effort is set.
+ */
+export function getReasoningBudget(
+	effort?: ReasoningEffort
+): number | undefined {
+	if (effort === undefined) {
+		return undefined;
+	}
+
+	if (effort === "off") {
+		return 0;
+	}
+
+	return typeof effort === "number"
+		? Math.max(0, Math.round(effort))
+		: LEVEL_BUDGETS[effort];
+}
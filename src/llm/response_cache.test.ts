@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { LLM } from "./base";
+import { CachedLLM } from "./cached_llm";
+import type { ChatOptions, ChatRequest } from "./chat";
+import {
+	DEFAULT_RESPONSE_CACHE_SETTINGS,
+	ResponseCache,
+	getCacheKey,
+} from "./response_cache";
+import type {
+	ResponseCacheSettings,
+	ResponseCacheStorage,
+} from "./response_cache";
+
+class FakeLLM extends LLM {
+	calls = 0;
+
+	chat(request: ChatRequest, options: ChatOptions = {}) {
+		this.calls++;
+		options.onUsage?.({ inputTokens: 10, outputTokens: 2 });
+		if (options.streaming) {
+			options.callback?.("Hel");
+			options.callback?.("lo");
+			return Promise.resolve();
+		}
+		return Promise.resolve("Hello");
+	}
+}
+
+function createStorage(): ResponseCacheStorage {
+	let data: string | null = null;
+	return {
+		load: () => Promise.resolve(data),
+		save: (text: string) => {
+			data = text;
+			return Promise.resolve();
+		},
+	};
+}
+
+const request: ChatRequest = { messages: [{ role: "user", content: "Hi" }] };
+
+describe("ResponseCache", () => {
+	let now: number;
+	let settings: ResponseCacheSettings;
+
+	beforeEach(() => {
+		now = 0;
+		settings = { ...DEFAULT_RESPONSE_CACHE_SETTINGS, enabled: true };
+	});
+
+	function createCache(storage = createStorage()) {
+		return new ResponseCache(
+			storage,
+			() => settings,
+			() => now
+		);
+	}
+
+	it("derives the same key from equal requests only", async () => {
+		const key = await getCacheKey({ model: "a", request });
+
+		expect(await getCacheKey({ model: "a", request })).toBe(key);
+		expect(await getCacheKey({ model: "b", request })).not.toBe(key);
+	});
+
+	it("expires entries after the time to live", async () => {
+		const cache = createCache();
+		await cache.set("key", "text");
+
+		now = 23 * 60 * 60 * 1000;
+		expect((await cache.get("key"))?.text).toBe("text");
+
+		now = 25 * 60 * 60 * 1000;
+		expect(await cache.get("key")).toBeUndefined();
+	});
+
+	it("drops the least recently used entries over the limit", async () => {
+		settings.maxEntries = 2;
+		const cache = createCache();
+		await cache.set("a", "A");
+		await cache.set("b", "B");
+		await cache.get("a");
+		await cache.set("c", "C");
+
+		expect(await cache.get("b")).toBeUndefined();
+		expect((await cache.get("a"))?.text).toBe("A");
+		expect((await cache.get("c"))?.text).toBe("C");
+	});
+
+	it("persists entries and loads them back", async () => {
+		const storage = createStorage();
+		await createCache(storage).set("key", "text");
+		// Let the queued write finish
+		await new Promise(resolve => setTimeout(resolve, 0));
+
+		const reloaded = createCache(storage);
+		expect(await reloaded.get("key")).toEqual({
+			text: "text",
+			createdAt: 0,
+		});
+	});
+});
+
+describe("CachedLLM", () => {
+	let llm: FakeLLM;
+	let cached: CachedLLM;
+
+	beforeEach(() => {
+		llm = new FakeLLM();
+		cached = new CachedLLM(
+			llm,
+			new ResponseCache(createStorage(), () => ({
+				...DEFAULT_RESPONSE_CACHE_SETTINGS,
+				enabled: true,
+			})),
+			{ modelId: "model", providerId: "provider", modelName: "gpt" }
+		);
+	});
+
+	it("answers repeated requests from the cache", async () => {
+		const onCacheHit = jest.fn();
+		const onUsage = jest.fn();
+
+		expect(await cached.chat(request)).toBe("Hello");
+		expect(await cached.chat(request, { onCacheHit, onUsage })).toBe(
+			"Hello"
+		);
+
+		expect(llm.calls).toBe(1);
+		expect(onCacheHit).toHaveBeenCalledTimes(1);
+		// Nothing was spent, so there is no usage or cost to show
+		expect(onUsage).not.toHaveBeenCalled();
+	});
+
+	it("replays a cached stream through the callback", async () => {
+		const callback = jest.fn<void, [string]>();
+		await cached.chat(request, { streaming: true, callback: jest.fn() });
+
+		await cached.chat(request, { streaming: true, callback });
+
+		expect(llm.calls).toBe(1);
+		expect(callback).toHaveBeenCalledWith("Hello");
+	});
+
+	it("calls the model again when bypassing the cache", async () => {
+		await cached.chat(request);
+		await cached.chat(request, { bypassCache: true });
+
+		expect(llm.calls).toBe(2);
+	});
+
+	it("keeps different requests apart", async () => {
+		await cached.chat(request);
+		await cached.chat({
+			messages: [{ role: "user", content: "Bye" }],
+		});
+
+		expect(llm.calls).toBe(2);
+	});
+});
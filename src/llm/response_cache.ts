@@ -0,0 +1,162 @@
+// Opt-in cache of finished responses for repeated identical requests
+
+export interface ResponseCacheSettings {
+	enabled: boolean;
+	ttlHours: number;
+	maxEntries: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_SETTINGS: ResponseCacheSettings = {
+	enabled: false,
+	ttlHours: 24,
+	maxEntries: 200,
+};
+
+export interface CachedResponse {
+	/** Full output as streamed, including any think tags */
+	text: string;
+	createdAt: number;
+}
+
+/** Where the cache is persisted, e.g. a file in the plugin folder */
+export interface ResponseCacheStorage {
+	load(): Promise<string | null>;
+	save(data: string): Promise<void>;
+}
+
+interface SerializedCache {
+	version: 1;
+	entries: Array<[string, CachedResponse]>;
+}
+
+/**
+ * Stable hash of everything that affects a response
+ */
+export async function getCacheKey(parts: unknown): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify(parts));
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Responses by request key with a time to live and a size limit.
+ * The oldest used entries are dropped first once the limit is reached.
+ */
+export class ResponseCache {
+	// Map order doubles as usage order: least recently used first
+	private entries = new Map<string, CachedResponse>();
+	private loading: Promise<void> | null = null;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private storage: ResponseCacheStorage,
+		private getSettings: () => ResponseCacheSettings,
+		private now: () => number = Date.now
+	) {}
+
+	private load(): Promise<void> {
+		this.loading ??= this.storage
+			.load()
+			.then(text => {
+				const parsed = text
+					? (JSON.parse(text) as Partial<SerializedCache>)
+					: null;
+				if (Array.isArray(parsed?.entries)) {
+					this.entries = new Map(parsed.entries);
+				}
+			})
+			.catch(error => {
+				console.error("Failed to load response cache:", error);
+			});
+		return this.loading;
+	}
+
+	private isExpired(entry: CachedResponse): boolean {
+		const ttlMs = this.getSettings().ttlHours * 60 * 60 * 1000;
+		return this.now() - entry.createdAt > ttlMs;
+	}
+
+	private prune() {
+		for (const [key, entry] of this.entries) {
+			if (this.isExpired(entry)) {
+				this.entries.delete(key);
+			}
+		}
+
+		const maxEntries = Math.max(0, this.getSettings().maxEntries);
+		for (const key of this.entries.keys()) {
+			if (this.entries.size <= maxEntries) break;
+			this.entries.delete(key);
+		}
+	}
+
+	private persist() {
+		const data: SerializedCache = {
+			version: 1,
+			entries: Array.from(this.entries),
+		};
+		const text = JSON.stringify(data);
+
+		// Writes are chained so a slow write never overtakes a later one
+		this.saveQueue = this.saveQueue
+			.then(() => this.storage.save(text))
+			.catch(error => {
+				console.error("Failed to save response cache:", error);
+			});
+	}
+
+	async get(key: string): Promise<CachedResponse | undefined> {
+		await this.load();
+
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+		if (this.isExpired(entry)) {
+			this.entries.delete(key);
+			this.persist();
+			return undefined;
+		}
+
+		// Move to the end as the most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	async set(key: string, text: string): Promise<void> {
+		await this.load();
+
+		this.entries.delete(key);
+		this.entries.set(key, { text, createdAt: this.now() });
+		this.prune();
+		this.persist();
+	}
+
+	async clear(): Promise<void> {
+		await this.load();
+
+		this.entries.clear();
+		this.persist();
+		await this.saveQueue;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+let activeCache: ResponseCache | null = null;
+
+/**
+ * Cache used by LLMFactory when caching is enabled in settings
+ */
+export function setResponseCache(cache: ResponseCache | null): void {
+	activeCache = cache;
+}
+
+export function getResponseCache(): ResponseCache | null {
+	return activeCache;
+}
@@ -0,0 +1,124 @@
+// Helpers for reading the JSON and streams of OpenAI-compatible providers
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+export function isUnknownArray(value: unknown): value is unknown[] {
+	return Array.isArray(value);
+}
+
+/** Answer and reasoning text of a response or stream chunk */
+export interface ResponseParts {
+	content: string;
+	reasoning: string;
+}
+
+function extractReasoningDetails(value: unknown): string[] {
+	if (!isUnknownArray(value)) return [];
+
+	return value.flatMap(item => {
+		if (!isRecord(item)) return [];
+
+		const text = item["text"];
+		if (typeof text === "string") return [text];
+
+		const content = item["content"];
+		if (typeof content === "string") return [content];
+
+		return [];
+	});
+}
+
+/**
+ * Answer and reasoning text of the first choice's delta. Servers name the
+ * reasoning field reasoning, reasoning_content or reasoning_details.
+ */
+export function getFirstDeltaParts(data: unknown): ResponseParts {
+	if (!isRecord(data)) return { content: "", reasoning: "" };
+	const choices = (data as { choices?: unknown }).choices;
+	if (!isUnknownArray(choices) || choices.length === 0) {
+		return { content: "", reasoning: "" };
+	}
+	const firstChoice = choices[0];
+	if (!isRecord(firstChoice)) return { content: "", reasoning: "" };
+	const delta = (firstChoice as { delta?: unknown }).delta;
+	if (!isRecord(delta)) return { content: "", reasoning: "" };
+	const content = (delta as { content?: unknown }).content;
+
+	return {
+		content: typeof content === "string" ? content : "",
+		reasoning: [
+			typeof delta["reasoning"] === "string" ? delta["reasoning"] : "",
+			typeof delta["reasoning_content"] === "string"
+				? delta["reasoning_content"]
+				: "",
+			...extractReasoningDetails(delta["reasoning_details"]),
+		].join(""),
+	};
+}
+
+export function getFirstMessageContent(data: unknown): string | undefined {
+	if (!isRecord(data)) return;
+	const choices = (data as { choices?: unknown }).choices;
+	if (!isUnknownArray(choices) || choices.length === 0) return;
+	const firstChoice = choices[0];
+	if (!isRecord(firstChoice)) return;
+	const message = (firstChoice as { message?: unknown }).message;
+	if (!isRecord(message)) return;
+	const content = (message as { content?: unknown }).content;
+	if (typeof content !== "string") return;
+	return content;
+}
+
+export interface ThinkTagEmitter {
+	reasoning(text: string): void;
+	content(text: string): void;
+	/** Close a <think> block left open when the stream ends */
+	finish(): void;
+}
+
+/**
+ * Pass streamed text to the callback with reasoning wrapped in <think>
+ * tags, so the spinner shows it and it is stripped from the inserted result
+ */
+export function createThinkTagEmitter(
+	callback: (text: string) => void
+): ThinkTagEmitter {
+	let isThinking = false;
+
+	return {
+		reasoning(text) {
+			if (!text) {
+				return;
+			}
+
+			if (!isThinking) {
+				callback(`<think>${text}`);
+				isThinking = true;
+				return;
+			}
+
+			callback(text);
+		},
+		content(text) {
+			if (!text) {
+				return;
+			}
+
+			if (isThinking) {
+				callback(`</think>${text}`);
+				isThinking = false;
+				return;
+			}
+
+			callback(text);
+		},
+		finish() {
+			if (isThinking) {
+				callback("</think>");
+				isThinking = false;
+			}
+		},
+	};
+}
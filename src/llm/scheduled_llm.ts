@@ -0,0 +1,53 @@
+import { LLM } from "./base";
+import type { ChatOptions, ChatRequest, EmbedOptions } from "./chat";
+import type { RequestScheduler } from "./scheduler";
+import type { AIProvider } from "../types";
+
+/**
+ * Wraps an LLM so its requests wait for a free slot within the
+ * provider's concurrency and rate limits
+ */
+export class ScheduledLLM extends LLM {
+	private llm: LLM;
+	private scheduler: RequestScheduler;
+	private provider: AIProvider;
+
+	constructor(llm: LLM, scheduler: RequestScheduler, provider: AIProvider) {
+		super();
+		this.llm = llm;
+		this.scheduler = scheduler;
+		this.provider = provider;
+		this.queryTimeout = llm.queryTimeout;
+		this.maxRetries = llm.maxRetries;
+	}
+
+	chat(
+		request: ChatRequest,
+		options: ChatOptions = {}
+	): Promise<string | void> {
+		this.llm.maxRetries = this.maxRetries;
+		this.llm.queryTimeout = this.queryTimeout;
+
+		return this.scheduler.run(
+			this.provider.id,
+			this.provider.limits,
+			() => this.llm.chat(request, options),
+			{
+				priority: options.priority,
+				signal: options.signal,
+				onQueued: options.onQueued,
+			}
+		);
+	}
+
+	embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		this.llm.maxRetries = this.maxRetries;
+
+		return this.scheduler.run(
+			this.provider.id,
+			this.provider.limits,
+			() => this.llm.embed(texts, options),
+			{ priority: options.priority, signal: options.signal }
+		);
+	}
+}
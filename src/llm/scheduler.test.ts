@@ -0,0 +1,146 @@
+import { RequestScheduler } from "./scheduler";
+import type { RequestPriority } from "./scheduler";
+
+// Let queued requests start and settled ones report back
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Resolves each task by hand so tests control when slots are freed
+function createTasks() {
+	const started: string[] = [];
+	const finishers = new Map<string, () => void>();
+
+	const task = (name: string) => () => {
+		started.push(name);
+		return new Promise<string>(resolve => {
+			finishers.set(name, () => resolve(name));
+		});
+	};
+	const finish = async (name: string) => {
+		await flush();
+		finishers.get(name)!();
+		await flush();
+	};
+
+	return { started, task, finish };
+}
+
+describe("RequestScheduler", () => {
+	it("runs requests without limits immediately", async () => {
+		const scheduler = new RequestScheduler();
+
+		await expect(
+			scheduler.run("provider", undefined, () => Promise.resolve("ok"))
+		).resolves.toBe("ok");
+	});
+
+	it("limits concurrent requests per provider", async () => {
+		const scheduler = new RequestScheduler();
+		const { started, task, finish } = createTasks();
+		const limits = { maxConcurrent: 1 };
+
+		const first = scheduler.run("ollama", limits, task("a"));
+		const second = scheduler.run("ollama", limits, task("b"));
+		const other = scheduler.run("groq", limits, task("c"));
+		await flush();
+
+		expect(started).toEqual(["a", "c"]);
+		expect(scheduler.getQueueLength("ollama")).toBe(1);
+
+		await finish("a");
+		expect(started).toEqual(["a", "c", "b"]);
+
+		await finish("b");
+		await finish("c");
+		await expect(Promise.all([first, second, other])).resolves.toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+	});
+
+	it("reports queue positions until the request starts", async () => {
+		const scheduler = new RequestScheduler();
+		const { task, finish } = createTasks();
+		const limits = { maxConcurrent: 1 };
+		const positions: number[] = [];
+
+		void scheduler.run("provider", limits, task("a"));
+		void scheduler.run("provider", limits, task("b"));
+		void scheduler.run("provider", limits, task("c"), {
+			onQueued: position => positions.push(position),
+		});
+
+		await finish("a");
+		await finish("b");
+
+		expect(positions).toEqual([2, 1, 0]);
+	});
+
+	it("lets a waiting background request through after interactive ones", async () => {
+		const scheduler = new RequestScheduler();
+		const { started, task, finish } = createTasks();
+		const limits = { maxConcurrent: 1 };
+		const run = (name: string, priority: RequestPriority) =>
+			void scheduler.run("provider", limits, task(name), { priority });
+
+		run("first", "interactive");
+		run("background", "background");
+		["i1", "i2", "i3", "i4"].forEach(name => run(name, "interactive"));
+
+		for (const name of ["first", "i1", "i2", "background", "i3"]) {
+			await finish(name);
+		}
+
+		expect(started).toEqual([
+			"first",
+			"i1",
+			"i2",
+			"background",
+			"i3",
+			"i4",
+		]);
+	});
+
+	it("removes cancelled requests from the queue", async () => {
+		const scheduler = new RequestScheduler();
+		const { started, task, finish } = createTasks();
+		const limits = { maxConcurrent: 1 };
+		const controller = new AbortController();
+
+		void scheduler.run("provider", limits, task("a"));
+		const cancelled = scheduler.run("provider", limits, task("b"), {
+			signal: controller.signal,
+		});
+		controller.abort();
+
+		await expect(cancelled).rejects.toHaveProperty("name", "AbortError");
+		expect(scheduler.getQueueLength("provider")).toBe(0);
+
+		await finish("a");
+		expect(started).toEqual(["a"]);
+	});
+
+	it("delays requests over the per-minute limit", async () => {
+		jest.useFakeTimers();
+		try {
+			let now = 0;
+			const scheduler = new RequestScheduler(() => now);
+			const limits = { requestsPerMinute: 2 };
+			const run = () =>
+				scheduler.run("groq", limits, () => Promise.resolve(now));
+
+			await run();
+			await run();
+			const third = run();
+
+			expect(scheduler.getQueueLength("groq")).toBe(1);
+
+			now = 60 * 1000;
+			jest.advanceTimersByTime(60 * 1000);
+
+			await expect(third).resolves.toBe(60 * 1000);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+});
@@ -0,0 +1,223 @@
+// Coordinates provider requests across all features and editors
+import type { ProviderLimits } from "../types";
+import { createAbortError } from "../utils/abort";
+
+/**
+ * Interactive requests are the ones a user is waiting on in the editor;
+ * background requests (checks, batch work) yield to them
+ */
+export type RequestPriority = "interactive" | "background";
+
+export interface ScheduleOptions {
+	priority?: RequestPriority;
+	signal?: AbortSignal;
+	/** Position in the provider queue, from 1; 0 once the request starts */
+	onQueued?: (position: number) => void;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Interactive requests started in a row before a waiting background one
+const MAX_INTERACTIVE_STREAK = 3;
+
+interface QueuedRequest {
+	priority: RequestPriority;
+	start: () => void;
+	onQueued?: (position: number) => void;
+	lastPosition?: number;
+}
+
+interface ProviderQueue {
+	limits: ProviderLimits;
+	running: number;
+	// Start times within the last minute, oldest first
+	startTimes: number[];
+	waiting: QueuedRequest[];
+	interactiveStreak: number;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Queues requests per provider so that at most maxConcurrent run at once
+ * and at most requestsPerMinute start within any minute.
+ * Requests for providers without limits start immediately.
+ */
+export class RequestScheduler {
+	private queues = new Map<string, ProviderQueue>();
+
+	constructor(private now: () => number = Date.now) {}
+
+	async run<T>(
+		providerId: string,
+		limits: ProviderLimits | undefined,
+		task: () => Promise<T>,
+		options: ScheduleOptions = {}
+	): Promise<T> {
+		const queue = this.getQueue(providerId);
+		queue.limits = limits ?? {};
+
+		await this.acquire(providerId, queue, options);
+		try {
+			return await task();
+		} finally {
+			queue.running--;
+			this.dispatch(providerId, queue);
+		}
+	}
+
+	/**
+	 * Number of requests waiting for a provider
+	 */
+	getQueueLength(providerId: string): number {
+		return this.queues.get(providerId)?.waiting.length ?? 0;
+	}
+
+	private getQueue(providerId: string): ProviderQueue {
+		let queue = this.queues.get(providerId);
+		if (!queue) {
+			queue = {
+				limits: {},
+				running: 0,
+				startTimes: [],
+				waiting: [],
+				interactiveStreak: 0,
+			};
+			this.queues.set(providerId, queue);
+		}
+		return queue;
+	}
+
+	private acquire(
+		providerId: string,
+		queue: ProviderQueue,
+		{ priority = "interactive", signal, onQueued }: ScheduleOptions
+	): Promise<void> {
+		if (signal?.aborted) {
+			return Promise.reject(createAbortError(signal));
+		}
+
+		return new Promise<void>((resolve, reject) => {
+			const onAbort = () => {
+				const index = queue.waiting.indexOf(request);
+				if (index !== -1) {
+					queue.waiting.splice(index, 1);
+					reject(createAbortError(signal));
+					this.dispatch(providerId, queue);
+				}
+			};
+			const request: QueuedRequest = {
+				priority,
+				onQueued,
+				start: () => {
+					signal?.removeEventListener("abort", onAbort);
+					if (request.lastPosition) {
+						onQueued?.(0);
+					}
+					resolve();
+				},
+			};
+
+			signal?.addEventListener("abort", onAbort);
+			queue.waiting.push(request);
+			this.dispatch(providerId, queue);
+		});
+	}
+
+	/**
+	 * Start as many waiting requests as the limits allow, then report
+	 * the new positions of the rest
+	 */
+	private dispatch(providerId: string, queue: ProviderQueue) {
+		if (queue.timer !== undefined) {
+			clearTimeout(queue.timer);
+			queue.timer = undefined;
+		}
+
+		while (queue.waiting.length > 0) {
+			const delay = this.getStartDelay(queue);
+			if (delay === null) break;
+			if (delay > 0) {
+				queue.timer = setTimeout(() => {
+					queue.timer = undefined;
+					this.dispatch(providerId, queue);
+				}, delay);
+				break;
+			}
+
+			const request = this.getOrderedWaiting(queue)[0];
+			queue.waiting.splice(queue.waiting.indexOf(request), 1);
+			queue.interactiveStreak =
+				request.priority === "interactive"
+					? queue.interactiveStreak + 1
+					: 0;
+			queue.running++;
+			queue.startTimes.push(this.now());
+			request.start();
+		}
+
+		this.getOrderedWaiting(queue).forEach((request, index) => {
+			if (request.lastPosition !== index + 1) {
+				request.lastPosition = index + 1;
+				request.onQueued?.(index + 1);
+			}
+		});
+	}
+
+	/**
+	 * Milliseconds until the next request may start; null while the
+	 * concurrency limit is reached
+	 */
+	private getStartDelay(queue: ProviderQueue): number | null {
+		const { maxConcurrent, requestsPerMinute } = queue.limits;
+		if (maxConcurrent && queue.running >= maxConcurrent) {
+			return null;
+		}
+		if (!requestsPerMinute) {
+			return 0;
+		}
+
+		const now = this.now();
+		queue.startTimes = queue.startTimes.filter(
+			time => now - time < RATE_WINDOW_MS
+		);
+		if (queue.startTimes.length < requestsPerMinute) {
+			return 0;
+		}
+		const oldest =
+			queue.startTimes[queue.startTimes.length - requestsPerMinute];
+		return Math.max(1, oldest + RATE_WINDOW_MS - now);
+	}
+
+	/**
+	 * Waiting requests in start order: interactive ones first, except that
+	 * a waiting background request gets a turn after a streak of
+	 * interactive ones so it is never starved
+	 */
+	private getOrderedWaiting(queue: ProviderQueue): QueuedRequest[] {
+		const interactive = queue.waiting.filter(
+			request => request.priority === "interactive"
+		);
+		const background = queue.waiting.filter(
+			request => request.priority === "background"
+		);
+
+		const ordered: QueuedRequest[] = [];
+		let streak = queue.interactiveStreak;
+		while (interactive.length > 0 || background.length > 0) {
+			const takeBackground =
+				background.length > 0 &&
+				(interactive.length === 0 || streak >= MAX_INTERACTIVE_STREAK);
+			if (takeBackground) {
+				ordered.push(background.shift()!);
+				streak = 0;
+			} else {
+				ordered.push(interactive.shift()!);
+				streak++;
+			}
+		}
+		return ordered;
+	}
+}
+
+/** Scheduler shared by every LLMFactory */
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,84 @@
+import { addUsage, estimateCost, formatUsage, parseOpenAIUsage } from "./usage";
+
+describe("parseOpenAIUsage", () => {
+	it("reads chat completions usage with reasoning details", () => {
+		expect(
+			parseOpenAIUsage({
+				prompt_tokens: 100,
+				completion_tokens: 50,
+				completion_tokens_details: { reasoning_tokens: 30 },
+			})
+		).toEqual({ inputTokens: 100, outputTokens: 50, reasoningTokens: 30 });
+	});
+
+	it("reads responses API usage", () => {
+		expect(
+			parseOpenAIUsage({
+				input_tokens: 10,
+				output_tokens: 4,
+				output_tokens_details: { reasoning_tokens: 0 },
+			})
+		).toEqual({ inputTokens: 10, outputTokens: 4 });
+	});
+
+	it("returns undefined when no token counts are present", () => {
+		expect(parseOpenAIUsage(undefined)).toBeUndefined();
+		expect(parseOpenAIUsage(null)).toBeUndefined();
+		expect(parseOpenAIUsage({ total_tokens: 5 })).toBeUndefined();
+	});
+});
+
+describe("estimateCost", () => {
+	const usage = { inputTokens: 2_000_000, outputTokens: 500_000 };
+
+	it("prices input and output per million tokens", () => {
+		expect(estimateCost(usage, { input: 0.5, output: 4 })).toBe(3);
+	});
+
+	it("treats a missing side of the price table as free", () => {
+		expect(estimateCost(usage, { output: 2 })).toBe(1);
+	});
+
+	it("returns undefined without prices", () => {
+		expect(estimateCost(usage)).toBeUndefined();
+		expect(estimateCost(usage, {})).toBeUndefined();
+	});
+});
+
+describe("formatUsage", () => {
+	it("shows token counts only when the model has no prices", () => {
+		expect(formatUsage({ inputTokens: 12, outputTokens: 34 })).toBe(
+			"12 in · 34 out"
+		);
+	});
+
+	it("includes reasoning tokens and cost", () => {
+		expect(
+			formatUsage(
+				{
+					inputTokens: 1000,
+					outputTokens: 3000,
+					reasoningTokens: 2000,
+				},
+				{ input: 3, output: 15 }
+			)
+		).toBe("1000 in · 3000 out (2000 reasoning) · $0.05");
+	});
+
+	it("keeps sub-cent costs readable", () => {
+		expect(
+			formatUsage({ inputTokens: 100, outputTokens: 10 }, { input: 1 })
+		).toBe("100 in · 10 out · $0.0001");
+	});
+});
+
+describe("addUsage", () => {
+	it("sums the usage of several requests", () => {
+		expect(
+			addUsage(
+				{ inputTokens: 100, outputTokens: 20 },
+				{ inputTokens: 50, outputTokens: 30, reasoningTokens: 10 }
+			)
+		).toEqual({ inputTokens: 150, outputTokens: 50, reasoningTokens: 10 });
+	});
+});
@@ -0,0 +1,98 @@
+// Token usage reported by providers and cost estimation from model pricing
+import type { ModelPricing } from "../types";
+
+export interface TokenUsage {
+	inputTokens: number;
+	/** Generated tokens, including any reasoning tokens */
+	outputTokens: number;
+	reasoningTokens?: number;
+}
+
+function getNumberProp(obj: unknown, key: string): number | undefined {
+	if (typeof obj !== "object" || obj === null) return undefined;
+	const value = (obj as Record<string, unknown>)[key];
+	return typeof value === "number" ? value : undefined;
+}
+
+function getRecordProp(obj: unknown, key: string): unknown {
+	if (typeof obj !== "object" || obj === null) return undefined;
+	return (obj as Record<string, unknown>)[key];
+}
+
+/**
+ * Parse an OpenAI-style usage object.
+ * Handles both chat completions (prompt/completion) and responses (input/output) naming.
+ */
+export function parseOpenAIUsage(value: unknown): TokenUsage | undefined {
+	const inputTokens =
+		getNumberProp(value, "prompt_tokens") ??
+		getNumberProp(value, "input_tokens");
+	const outputTokens =
+		getNumberProp(value, "completion_tokens") ??
+		getNumberProp(value, "output_tokens");
+
+	if (inputTokens === undefined && outputTokens === undefined) {
+		return undefined;
+	}
+
+	const details =
+		getRecordProp(value, "completion_tokens_details") ??
+		getRecordProp(value, "output_tokens_details");
+	const reasoningTokens = getNumberProp(details, "reasoning_tokens");
+
+	return {
+		inputTokens: inputTokens ?? 0,
+		outputTokens: outputTokens ?? 0,
+		...(reasoningTokens ? { reasoningTokens } : {}),
+	};
+}
+
+/**
+ * Total usage of several requests, e.g. the steps of a map-reduce run
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+	const reasoningTokens =
+		(total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0);
+
+	return {
+		inputTokens: total.inputTokens + usage.inputTokens,
+		outputTokens: total.outputTokens + usage.outputTokens,
+		...(reasoningTokens ? { reasoningTokens } : {}),
+	};
+}
+
+/**
+ * Estimate the cost of a run in USD, or undefined when the model has no prices
+ */
+export function estimateCost(
+	usage: TokenUsage,
+	pricing?: ModelPricing
+): number | undefined {
+	if (pricing?.input === undefined && pricing?.output === undefined) {
+		return undefined;
+	}
+
+	return (
+		(usage.inputTokens * (pricing.input ?? 0) +
+			usage.outputTokens * (pricing.output ?? 0)) /
+		1_000_000
+	);
+}
+
+/**
+ * Format usage for notices, e.g. "1200 in · 350 out (120 reasoning) · $0.0042"
+ */
+export function formatUsage(usage: TokenUsage, pricing?: ModelPricing): string {
+	let text = `${usage.inputTokens} in · ${usage.outputTokens} out`;
+
+	if (usage.reasoningTokens) {
+		text += ` (${usage.reasoningTokens} reasoning)`;
+	}
+
+	const cost = estimateCost(usage, pricing);
+	if (cost !== undefined) {
+		text += ` · $${cost.toFixed(cost < 0.01 ? 4 : 2)}`;
+	}
+
+	return text;
+}
@@ -2,12 +2,23 @@ import { Editor, MarkdownView, Plugin } from "obsidian";
 import { AIEditorSettingTab } from "src/settings";
 import type { AIEditorSettings } from "src/settings";
 import { DEFAULT_ACTIONS } from "src/preset";
-import { Selection, Location } from "./action";
-import type { UserAction } from "./action";
+import { Selection, Location, migrateLegacyMaxOutputTokens } from "./action";
 import { ActionHandler } from "./handler";
 import { QuickPromptManager } from "./quick-prompt-manager";
 import { ActionResultManager } from "./action-result-manager";
 import { ModalBoxManager } from "./modal-box-manager";
+import { CassetteManager } from "./cassette-manager";
+import { SemanticSearchManager } from "./semantic-search-manager";
+import {
+	DEFAULT_RESPONSE_CACHE_SETTINGS,
+	ResponseCache,
+	setResponseCache,
+} from "./llm/response_cache";
+import {
+	getPluginFilePath,
+	readPluginFile,
+	writePluginFile,
+} from "./utils/pluginFiles";
 import { spinnerEditorExtension } from "./spinnerPlugin";
 import { initAI } from "@obsidian-ai-providers/sdk";
 import type { AIProvider, AIProviderType } from "./types";
@@ -32,6 +43,8 @@ const DEFAULT_SETTINGS: AIEditorSettings = {
 	},
 	useNativeFetch: false,
 	developmentMode: false,
+	maxRetries: 2,
+	cassetteMode: "off",
 };
 
 export default class AIEditor extends Plugin {
@@ -39,6 +52,9 @@ export default class AIEditor extends Plugin {
 	quickPromptManager: QuickPromptManager;
 	actionResultManager: ActionResultManager;
 	modalManager: ModalBoxManager;
+	cassetteManager: CassetteManager;
+	responseCache: ResponseCache;
+	semanticSearchManager: SemanticSearchManager;
 
 	registerActions() {
 		let actions = this.settings.customActions;
@@ -87,6 +103,44 @@ export default class AIEditor extends Plugin {
 				// Initialize ModalManager
 				this.modalManager = new ModalBoxManager(this);
 
+				// Cache of finished responses, used when enabled in settings
+				const cachePath = getPluginFilePath(
+					this,
+					"response-cache.json"
+				);
+				this.responseCache = new ResponseCache(
+					{
+						load: () => readPluginFile(this, cachePath),
+						save: data => writePluginFile(this, cachePath, data),
+					},
+					() => ({
+						...DEFAULT_RESPONSE_CACHE_SETTINGS,
+						...this.settings.responseCache,
+					})
+				);
+				setResponseCache(this.responseCache);
+
+				// Record or replay provider traffic in development mode
+				this.cassetteManager = new CassetteManager(this);
+				await this.cassetteManager.apply();
+
+				// Vector index of the vault's notes, when enabled in settings
+				this.semanticSearchManager = new SemanticSearchManager(this);
+				this.app.workspace.onLayoutReady(() => {
+					this.semanticSearchManager.registerEvents();
+					void this.semanticSearchManager.updateIndex();
+				});
+				this.addCommand({
+					id: "semantic-search",
+					name: "Semantic search",
+					editorCallback: (editor: Editor, view: MarkdownView) => {
+						void this.semanticSearchManager.searchFromEditor(
+							editor,
+							view
+						);
+					},
+				});
+
 				this.addCommand({
 					id: "reload",
 					name: "Reload actions",
@@ -114,6 +168,13 @@ export default class AIEditor extends Plugin {
 		if (this.actionResultManager) {
 			this.actionResultManager.destroy();
 		}
+		if (this.cassetteManager) {
+			this.cassetteManager.destroy();
+		}
+		if (this.semanticSearchManager) {
+			this.semanticSearchManager.destroy();
+		}
+		setResponseCache(null);
 	}
 
 	async loadSettings() {
@@ -144,12 +205,12 @@ export default class AIEditor extends Plugin {
 
 		let migrationNeeded = false;
 
-		if (removeLegacyMaxOutputTokens(this.settings.quickPrompt)) {
+		if (migrateLegacyMaxOutputTokens(this.settings.quickPrompt)) {
 			migrationNeeded = true;
 		}
 
 		this.settings.customActions.forEach(action => {
-			if (removeLegacyMaxOutputTokens(action)) {
+			if (migrateLegacyMaxOutputTokens(action)) {
 				migrationNeeded = true;
 			}
 		});
@@ -247,18 +308,3 @@ export default class AIEditor extends Plugin {
 		}
 	}
 }
-
-function removeLegacyMaxOutputTokens(action: UserAction): boolean {
-	const legacyAction = action as UserAction & {
-		maxOutputTokens?: number;
-	};
-
-	if (
-		!Object.prototype.hasOwnProperty.call(legacyAction, "maxOutputTokens")
-	) {
-		return false;
-	}
-
-	delete legacyAction.maxOutputTokens;
-	return true;
-}
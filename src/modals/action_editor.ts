@@ -10,8 +10,33 @@ import type { UserAction } from "../action";
 import { DeletionModal } from "./deletion";
 import AIEditor from "src/main";
 import { FilterableDropdown } from "../components/FilterableDropdown";
+import { FallbackModelList } from "../components/FallbackModelList";
+import { GenerationSettingsFields } from "../components/GenerationSettingsFields";
+import { ReasoningEffortSetting } from "../components/ReasoningEffortSetting";
 import type { FilterableDropdownOption } from "../components/FilterableDropdown";
 
+// Sizes the OpenAI image models accept; local servers take most of them
+const IMAGE_SIZE_OPTIONS: Record<string, string> = {
+	"": "Provider default",
+	"256x256": "256 × 256",
+	"512x512": "512 × 512",
+	"1024x1024": "1024 × 1024 (square)",
+	"1536x1024": "1536 × 1024 (landscape)",
+	"1024x1536": "1024 × 1536 (portrait)",
+	"1792x1024": "1792 × 1024 (wide)",
+	"1024x1792": "1024 × 1792 (tall)",
+};
+
+// "Standard" and "HD" are for DALL-E 3; "Low" to "High" for gpt-image models
+const IMAGE_QUALITY_OPTIONS: Record<string, string> = {
+	"": "Provider default",
+	standard: "Standard",
+	hd: "HD",
+	low: "Low",
+	medium: "Medium",
+	high: "High",
+};
+
 export class ActionEditModal extends Modal {
 	action: UserAction;
 	plugin: AIEditor;
@@ -53,6 +78,23 @@ export class ActionEditModal extends Modal {
 			}
 		);
 
+		new Setting(contentEl)
+			.setName("Action type")
+			.setDesc(
+				"Text actions insert the model's answer; image actions generate an image, save it as an attachment and insert an embed"
+			)
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions({ text: "Text", image: "Image" })
+					.setValue(this.action.kind ?? "text")
+					.onChange(value => {
+						this.action.kind =
+							value === "image" ? "image" : undefined;
+						void this.renderContent();
+					});
+			});
+		const isImageAction = this.action.kind === "image";
+
 		new Setting(contentEl)
 			.setName("LLM")
 			.setDesc("The large language model to use for this action")
@@ -122,6 +164,24 @@ export class ActionEditModal extends Modal {
 					this.action.model = value;
 				}
 			);
+
+			if (!isImageAction) {
+				new Setting(contentEl)
+					.setName("Fallback models")
+					.setDesc(
+						"Tried in order when the model fails with an auth, quota, timeout or outage error"
+					);
+				new FallbackModelList(
+					contentEl.createDiv("ai-actions-fallback-models"),
+					options,
+					this.action.fallbackModels ?? [],
+					values => {
+						this.action.fallbackModels = values.length
+							? values
+							: undefined;
+					}
+				);
+			}
 		}
 
 		this.createTextSetting(
@@ -137,7 +197,9 @@ export class ActionEditModal extends Modal {
 		this.createTextSetting(
 			contentEl,
 			"Output format",
-			"Format your LLM output. Use {{result}} as placeholder.",
+			isImageAction
+				? "Format the inserted embed. Use {{result}} as placeholder."
+				: "Format your LLM output. Use {{result}} as placeholder.",
 			this.action.format,
 			value => {
 				this.action.format = value;
@@ -145,50 +207,11 @@ export class ActionEditModal extends Modal {
 			}
 		);
 
-		new Setting(contentEl)
-			.setName("Temperature")
-			.setDesc(
-				"Controls randomness in AI responses. Higher values make output more creative, lower values more focused."
-			)
-			.addDropdown(dropdown => {
-				const temperatureOptions = {
-					none: "None",
-					"0.2": "Low",
-					"0.7": "Medium",
-					"1": "Max",
-				};
-
-				dropdown.addOptions(temperatureOptions);
-
-				// Set current value or default to "none"
-				let currentValue = "none";
-				if (this.action.temperature !== undefined) {
-					if (this.action.temperature === 0.2) currentValue = "0.2";
-					else if (this.action.temperature === 0.7)
-						currentValue = "0.7";
-					else if (this.action.temperature === 1) currentValue = "1";
-				}
-
-				dropdown.setValue(currentValue);
-				dropdown.onChange(value => {
-					if (value === "none") {
-						this.action.temperature = undefined;
-					} else {
-						this.action.temperature = parseFloat(value);
-					}
-				});
-			});
-
-		new Setting(contentEl)
-			.setName("Show modal window")
-			.setDesc("Display window with results")
-			.addToggle(toggle => {
-				toggle
-					.setValue(this.action.showModalWindow ?? true)
-					.onChange(value => {
-						this.action.showModalWindow = value;
-					});
-			});
+		if (isImageAction) {
+			this.renderImageSettings(contentEl);
+		} else {
+			this.renderTextSettings(contentEl);
+		}
 
 		new Setting(contentEl)
 			.setName("Input selection")
@@ -266,6 +289,118 @@ export class ActionEditModal extends Modal {
 			});
 	}
 
+	/**
+	 * Sampling, reasoning and result window settings of text actions
+	 */
+	private renderTextSettings(contentEl: HTMLElement): void {
+		new Setting(contentEl)
+			.setName("Temperature")
+			.setDesc(
+				"Controls randomness in AI responses. Higher values make output more creative, lower values more focused."
+			)
+			.addDropdown(dropdown => {
+				const temperatureOptions = {
+					none: "None",
+					"0.2": "Low",
+					"0.7": "Medium",
+					"1": "Max",
+				};
+
+				dropdown.addOptions(temperatureOptions);
+
+				// Set current value or default to "none"
+				let currentValue = "none";
+				if (this.action.temperature !== undefined) {
+					if (this.action.temperature === 0.2) currentValue = "0.2";
+					else if (this.action.temperature === 0.7)
+						currentValue = "0.7";
+					else if (this.action.temperature === 1) currentValue = "1";
+				}
+
+				dropdown.setValue(currentValue);
+				dropdown.onChange(value => {
+					if (value === "none") {
+						this.action.temperature = undefined;
+					} else {
+						this.action.temperature = parseFloat(value);
+					}
+				});
+			});
+
+		new ReasoningEffortSetting(
+			contentEl,
+			"Reasoning effort",
+			"How much the model thinks before answering for this action",
+			"Model default",
+			this.action.reasoningEffort,
+			value => {
+				this.action.reasoningEffort = value;
+			}
+		);
+
+		new Setting(contentEl)
+			.setName("Generation parameters")
+			.setDesc(
+				"Override the model's defaults for this action. Leave empty to keep them."
+			);
+		new GenerationSettingsFields(
+			contentEl.createDiv("ai-actions-generation-settings"),
+			this.action.generation,
+			values => {
+				this.action.generation = values;
+			},
+			this.plugin.settings.aiProviders?.models.find(
+				model => model.id === this.action.model
+			)?.generation
+		);
+
+		new Setting(contentEl)
+			.setName("Show modal window")
+			.setDesc("Display window with results")
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.action.showModalWindow ?? true)
+					.onChange(value => {
+						this.action.showModalWindow = value;
+					});
+			});
+	}
+
+	/**
+	 * Size and quality of generated images; empty leaves the provider's default
+	 */
+	private renderImageSettings(contentEl: HTMLElement): void {
+		new Setting(contentEl)
+			.setName("Image size")
+			.setDesc("Width and height of the generated image")
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions(IMAGE_SIZE_OPTIONS)
+					.setValue(this.action.image?.size ?? "")
+					.onChange(value => {
+						this.action.image = {
+							...this.action.image,
+							size: value || undefined,
+						};
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Image quality")
+			.setDesc("Higher quality takes longer and costs more")
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions(IMAGE_QUALITY_OPTIONS)
+					.setValue(this.action.image?.quality ?? "")
+					.onChange(value => {
+						this.action.image = {
+							...this.action.image,
+							quality: value || undefined,
+						};
+					});
+			});
+	}
+
 	onClose() {
 		// Clean up the filterable dropdown
 		if (this.modelDropdown) {
@@ -8,11 +8,34 @@ import {
 	ToggleComponent,
 	requestUrl,
 } from "obsidian";
-import type { AIModel, AIProvider } from "../types";
+import type {
+	AIModel,
+	AIProvider,
+	ModelInfo,
+	ModelPricing,
+	OllamaModelSettings,
+} from "../types";
 import type { OpenAIRequestMode } from "../types";
 import AIEditor from "../main";
 import Anthropic from "@anthropic-ai/sdk";
 import { FilterableDropdown } from "../components/FilterableDropdown";
+import { GenerationSettingsFields } from "../components/GenerationSettingsFields";
+import { ReasoningEffortSetting } from "../components/ReasoningEffortSetting";
+import { buildChatRequest } from "../llm/chat";
+import { MOCK_MODEL_NAME } from "../llm/mock_llm";
+import {
+	formatModelInfo,
+	getImageSupport,
+	getModelDefaults,
+	getModelInfo,
+	parseModelCatalog,
+} from "../llm/model_catalog";
+import type { CatalogEntry } from "../llm/model_catalog";
+import { AZURE_DEPLOYMENTS_API_VERSION } from "../llm/azure_openai_llm";
+import {
+	appendQueryParams,
+	getCustomProviderHeaders,
+} from "../llm/custom_openai_llm";
 import type { FilterableDropdownOption } from "../components/FilterableDropdown";
 
 export class ModelEditModal extends Modal {
@@ -150,6 +173,7 @@ export class ModelEditModal extends Modal {
 					.onChange(value => {
 						this.model.temperatureSupported = value;
 					});
+				this.temperatureToggle = toggle;
 			});
 
 		new Setting(contentEl)
@@ -161,8 +185,101 @@ export class ModelEditModal extends Modal {
 					.onChange(value => {
 						this.model.reasoningSummarySupported = value;
 					});
+				this.reasoningSummaryToggle = toggle;
+			});
+
+		new Setting(contentEl)
+			.setName("Supports images")
+			.setDesc(
+				"Send images embedded in the input along with the text, for providers that accept images"
+			)
+			.addToggle(toggle => {
+				toggle
+					.setValue(
+						getImageSupport(
+							this.availableProviders.find(
+								p => p.id === this.model.providerId
+							),
+							this.model
+						)
+					)
+					.onChange(value => {
+						this.model.imagesSupported = value;
+					});
+				this.imagesToggle = toggle;
+			});
+
+		new Setting(contentEl)
+			.setName("Input price")
+			.setDesc(
+				"Dollars per million prompt tokens, used to estimate the cost of each run (leave empty to hide cost)"
+			)
+			.addText(text => {
+				text.setPlaceholder("0.15")
+					.setValue(this.model.pricing?.input?.toString() ?? "")
+					.onChange(value => {
+						this.setPrice("input", value);
+					});
+				this.inputPriceText = text;
+			});
+
+		new Setting(contentEl)
+			.setName("Output price")
+			.setDesc(
+				"Dollars per million generated tokens, including reasoning"
+			)
+			.addText(text => {
+				text.setPlaceholder("0.60")
+					.setValue(this.model.pricing?.output?.toString() ?? "")
+					.onChange(value => {
+						this.setPrice("output", value);
+					});
+				this.outputPriceText = text;
 			});
 
+		new Setting(contentEl)
+			.setName("Context length")
+			.setDesc(
+				"Input tokens the model accepts, used to split long inputs. Filled in from the provider's model list when available."
+			)
+			.addText(text => {
+				text.setPlaceholder("128000")
+					.setValue(this.model.contextLength?.toString() ?? "")
+					.onChange(value => {
+						const contextLength = parseInt(value);
+						this.model.contextLength =
+							contextLength > 0 ? contextLength : undefined;
+					});
+				this.contextLengthText = text;
+			});
+
+		new ReasoningEffortSetting(
+			contentEl,
+			"Reasoning effort",
+			"How much the model thinks before answering. Levels map to a thinking budget on Anthropic and Gemini, token budgets to the closest level on OpenAI.",
+			"Provider default",
+			this.model.reasoningEffort,
+			value => {
+				this.model.reasoningEffort = value;
+			}
+		);
+
+		this.ollamaSettingsEl = contentEl.createDiv();
+		this.renderOllamaSettings();
+
+		new Setting(contentEl)
+			.setName("Generation defaults")
+			.setDesc(
+				"Sent with every request to this model unless an action overrides them. Leave empty to use the provider's default."
+			);
+		new GenerationSettingsFields(
+			contentEl.createDiv("ai-actions-generation-settings"),
+			this.model.generation,
+			values => {
+				this.model.generation = values;
+			}
+		);
+
 		// Buttons
 		new Setting(contentEl)
 			.addButton(button => {
@@ -202,17 +319,82 @@ export class ModelEditModal extends Modal {
 	private displayNameText: TextComponent | null = null;
 	private filterableDropdown: FilterableDropdown | null = null;
 	private systemPromptToggle: ToggleComponent | null = null;
+	private temperatureToggle: ToggleComponent | null = null;
+	private reasoningSummaryToggle: ToggleComponent | null = null;
+	private imagesToggle: ToggleComponent | null = null;
+	private inputPriceText: TextComponent | null = null;
+	private outputPriceText: TextComponent | null = null;
+	private contextLengthText: TextComponent | null = null;
 	private requestModeDropdown: DropdownComponent | null = null;
+	private ollamaSettingsEl: HTMLElement | null = null;
+
+	private renderOllamaSettings() {
+		if (!this.ollamaSettingsEl) return;
+
+		this.ollamaSettingsEl.empty();
+		const selectedProvider = this.availableProviders.find(
+			p => p.id === this.model.providerId
+		);
+		if (selectedProvider?.type !== "ollama") return;
+
+		new Setting(this.ollamaSettingsEl)
+			.setName("Context size")
+			.setDesc(
+				"Context window in tokens (num_ctx). Leave empty to use the model's default."
+			)
+			.addText(text => {
+				text.setPlaceholder("8192")
+					.setValue(this.model.ollama?.numCtx?.toString() ?? "")
+					.onChange(value => {
+						const numCtx = parseInt(value);
+						this.setOllamaSetting(
+							"numCtx",
+							numCtx > 0 ? numCtx : undefined
+						);
+					});
+			});
+
+		new Setting(this.ollamaSettingsEl)
+			.setName("Keep alive")
+			.setDesc(
+				"How long the model stays loaded after a request, e.g. 10m, or -1 to keep it loaded"
+			)
+			.addText(text => {
+				text.setPlaceholder("5m")
+					.setValue(this.model.ollama?.keepAlive ?? "")
+					.onChange(value => {
+						this.setOllamaSetting(
+							"keepAlive",
+							value.trim() || undefined
+						);
+					});
+			});
+	}
+
+	private setOllamaSetting<K extends keyof OllamaModelSettings>(
+		key: K,
+		value: OllamaModelSettings[K]
+	) {
+		const settings: OllamaModelSettings = { ...this.model.ollama };
+		if (value === undefined) {
+			delete settings[key];
+		} else {
+			settings[key] = value;
+		}
+
+		this.model.ollama = Object.keys(settings).length ? settings : undefined;
+	}
 
 	private updateAvailableModels() {
 		const selectedProvider = this.availableProviders.find(
 			p => p.id === this.model.providerId
 		);
 
-		if (!selectedProvider || selectedProvider.type !== "openai") {
+		if (!this.isOpenAIProviderSelected()) {
 			this.model.openAIRequestMode = "completions";
 		}
 		this.updateRequestModeAvailability();
+		this.renderOllamaSettings();
 
 		// Always rebuild the control when provider changes.
 		// Otherwise the UI may keep showing the previous provider's cached list.
@@ -229,6 +411,9 @@ export class ModelEditModal extends Modal {
 				modelName => ({
 					value: modelName,
 					label: modelName,
+					description: formatModelInfo(
+						getModelInfo(selectedProvider, modelName)
+					),
 					model: {
 						id: modelName,
 						name: modelName,
@@ -247,6 +432,11 @@ export class ModelEditModal extends Modal {
 					this.model.modelName = value;
 					// Auto-update display name when model is selected
 					this.updateDisplayNameFromModel(value);
+					if (this.isNew) {
+						this.applyModelDefaults(
+							getModelInfo(selectedProvider, value)
+						);
+					}
 				}
 			);
 			this.modelNameText = null;
@@ -264,6 +454,41 @@ export class ModelEditModal extends Modal {
 		});
 	}
 
+	/**
+	 * Pre-fill the flags, pricing and context length of a new model from
+	 * what the provider's model list reported about it
+	 */
+	private applyModelDefaults(info: ModelInfo) {
+		const defaults = getModelDefaults(info);
+		Object.assign(this.model, defaults);
+
+		if (defaults.systemPromptSupport !== undefined) {
+			this.systemPromptToggle?.setValue(defaults.systemPromptSupport);
+		}
+		if (defaults.temperatureSupported !== undefined) {
+			this.temperatureToggle?.setValue(defaults.temperatureSupported);
+		}
+		if (defaults.reasoningSummarySupported !== undefined) {
+			this.reasoningSummaryToggle?.setValue(
+				defaults.reasoningSummarySupported
+			);
+		}
+		if (defaults.imagesSupported !== undefined) {
+			this.imagesToggle?.setValue(defaults.imagesSupported);
+		}
+		if (defaults.pricing) {
+			this.inputPriceText?.setValue(
+				defaults.pricing.input?.toString() ?? ""
+			);
+			this.outputPriceText?.setValue(
+				defaults.pricing.output?.toString() ?? ""
+			);
+		}
+		if (defaults.contextLength) {
+			this.contextLengthText?.setValue(defaults.contextLength.toString());
+		}
+	}
+
 	private updateDisplayNameFromModel(modelName: string) {
 		// If model name contains "/", take only the part after the last slash
 		const displayName = modelName.includes("/")
@@ -287,7 +512,8 @@ export class ModelEditModal extends Modal {
 		try {
 			new Notice("Fetching models...");
 			const models = await this.fetchModelsFromProvider(selectedProvider);
-			selectedProvider.availableModels = models;
+			selectedProvider.availableModels = models.map(model => model.id);
+			selectedProvider.modelCatalog = getCatalogRecord(models);
 
 			// Update the provider in settings
 			const providerIndex =
@@ -309,8 +535,15 @@ export class ModelEditModal extends Modal {
 
 	private async fetchModelsFromProvider(
 		provider: AIProvider
-	): Promise<string[]> {
-		if (!provider.url || !provider.apiKey) {
+	): Promise<CatalogEntry[]> {
+		if (provider.type === "mock") {
+			return [{ id: MOCK_MODEL_NAME, info: {} }];
+		}
+
+		const apiKeyRequired = !(
+			provider.type === "custom" && provider.authScheme === "none"
+		);
+		if (!provider.url || (apiKeyRequired && !provider.apiKey)) {
 			throw new Error("Provider URL and API key are required");
 		}
 
@@ -323,10 +556,8 @@ export class ModelEditModal extends Modal {
 			});
 
 			try {
-				const response = (await client.get("/v1/models")) as {
-					data?: Array<{ id: string }>;
-				};
-				return response.data?.map(model => model.id) || [];
+				const response = await client.get("/v1/models");
+				return parseModelCatalog("anthropic", response);
 			} catch (error) {
 				throw new Error(`Failed to fetch Anthropic models: ${error}`);
 			}
@@ -343,8 +574,20 @@ export class ModelEditModal extends Modal {
 			headers = {
 				"Content-Type": "application/json",
 			};
+		} else if (provider.type === "azure") {
+			url = `${provider.url.replace(/\/+$/, "")}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`;
+			headers = {
+				"api-key": provider.apiKey ?? "",
+				"Content-Type": "application/json",
+			};
+		} else if (provider.type === "custom") {
+			url = appendQueryParams(
+				`${provider.url}/models`,
+				provider.queryParams
+			);
+			headers = getCustomProviderHeaders(provider);
 		} else {
-			// For OpenAI-compatible APIs (OpenAI, OpenRouter, Groq, LMStudio, etc.)
+			// For OpenAI-compatible APIs (OpenAI, OpenRouter, Groq, Mistral, DeepSeek, LMStudio, etc.)
 			url = `${provider.url}/models`;
 			headers = {
 				Authorization: `Bearer ${provider.apiKey}`,
@@ -364,12 +607,23 @@ export class ModelEditModal extends Modal {
 		}
 
 		const parsed = parseJsonOrThrow(response.text, "Models list response");
+		return parseModelCatalog(provider.type, parsed);
+	}
 
-		if (provider.type === "gemini") {
-			return extractGeminiModelNames(parsed);
+	private setPrice(key: keyof ModelPricing, value: string) {
+		const price = parseFloat(value);
+		const pricing: ModelPricing = { ...this.model.pricing };
+
+		if (value.trim() === "" || isNaN(price) || price < 0) {
+			delete pricing[key];
+		} else {
+			pricing[key] = price;
 		}
 
-		return extractOpenAICompatibleModelIds(parsed);
+		this.model.pricing =
+			pricing.input === undefined && pricing.output === undefined
+				? undefined
+				: pricing;
 	}
 
 	private validateModel(): boolean {
@@ -411,7 +665,7 @@ export class ModelEditModal extends Modal {
 
 		try {
 			const { LLMFactory } = await import("../llm/factory");
-			const factory = new LLMFactory(this.plugin.settings);
+			const factory = new LLMFactory(this.plugin.settings, this.app);
 			const llm = factory.create(
 				"fake_test_model",
 				this.model.modelName,
@@ -419,14 +673,19 @@ export class ModelEditModal extends Modal {
 				this.model
 			);
 
-			await llm.autocomplete(
-				"You are a helpful assistant.Answer EXACTLY in one word.",
-				"Say Hi! - just one word",
-				undefined,
-				this.model.temperatureSupported === false ? undefined : 0.7,
-				undefined,
-				false,
-				true
+			await llm.chat(
+				buildChatRequest(
+					"You are a helpful assistant.Answer EXACTLY in one word.",
+					"Say Hi! - just one word",
+					undefined,
+					{
+						temperature:
+							this.model.temperatureSupported === false
+								? undefined
+								: 0.7,
+					}
+				),
+				{ systemPromptSupport: true, bypassCache: true }
 			);
 
 			this.model.systemPromptSupport = true;
@@ -448,7 +707,10 @@ export class ModelEditModal extends Modal {
 			p => p.id === this.model.providerId
 		);
 
-		return selectedProvider?.type === "openai";
+		return (
+			selectedProvider?.type === "openai" ||
+			selectedProvider?.type === "azure"
+		);
 	}
 
 	private updateRequestModeAvailability(): void {
@@ -483,40 +745,16 @@ function parseJsonOrThrow(text: string, context: string): unknown {
 	}
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-	return typeof value === "object" && value !== null;
-}
-
-function extractGeminiModelNames(payload: unknown): string[] {
-	if (!isRecord(payload)) return [];
-
-	const models = payload.models;
-	if (!Array.isArray(models)) return [];
-
-	const names: string[] = [];
-	for (const model of models) {
-		if (!isRecord(model)) continue;
-		const name = model.name;
-		if (typeof name !== "string") continue;
-		names.push(name.replace("models/", ""));
-	}
-
-	return names;
-}
-
-function extractOpenAICompatibleModelIds(payload: unknown): string[] {
-	if (!isRecord(payload)) return [];
-
-	const data = payload.data;
-	if (!Array.isArray(data)) return [];
-
-	const ids: string[] = [];
-	for (const model of data) {
-		if (!isRecord(model)) continue;
-		const id = model.id;
-		if (typeof id !== "string") continue;
-		ids.push(id);
-	}
-
-	return ids;
+/**
+ * Catalog entries by model name, leaving out models with nothing known
+ */
+function getCatalogRecord(
+	entries: CatalogEntry[]
+): Record<string, ModelInfo> | undefined {
+	const catalog = Object.fromEntries(
+		entries
+			.filter(entry => Object.keys(entry.info).length > 0)
+			.map(entry => [entry.id, entry.info])
+	);
+	return Object.keys(catalog).length ? catalog : undefined;
 }
@@ -1,6 +1,14 @@
 import { App, Modal, Setting, Notice, TextComponent } from "obsidian";
-import type { AIProvider, AIProviderType } from "../types";
+import type {
+	AIProvider,
+	AIProviderType,
+	MockProviderSettings,
+	ProviderAuthScheme,
+	ProviderLimits,
+} from "../types";
 import AIEditor from "../main";
+import { DEFAULT_AZURE_API_VERSION } from "../llm/azure_openai_llm";
+import { testProviderConnection } from "../llm/connection_test";
 
 export class ProviderEditModal extends Modal {
 	provider: AIProvider;
@@ -57,6 +65,11 @@ export class ProviderEditModal extends Modal {
 					openrouter: "OpenRouter",
 					lmstudio: "LM Studio",
 					groq: "Groq",
+					mistral: "Mistral",
+					deepseek: "DeepSeek",
+					custom: "OpenAI-compatible",
+					azure: "Azure OpenAI",
+					mock: "Mock (offline)",
 				};
 
 				Object.entries(providerTypes).forEach(([key, value]) => {
@@ -67,6 +80,7 @@ export class ProviderEditModal extends Modal {
 					this.provider.type = value as AIProviderType;
 					this.updateUrlForProviderType();
 					this.updateNameForProviderType(value as AIProviderType);
+					this.renderTypeSettings();
 				});
 			});
 
@@ -91,6 +105,59 @@ export class ProviderEditModal extends Modal {
 					});
 			});
 
+		this.typeSettingsEl = contentEl.createDiv();
+		this.renderTypeSettings();
+
+		new Setting(contentEl)
+			.setName("Max concurrent requests")
+			.setDesc(
+				"Requests to this provider that run at the same time; others wait in a queue. Leave empty for no limit."
+			)
+			.addText(text => {
+				text.setPlaceholder("No limit")
+					.setValue(
+						this.provider.limits?.maxConcurrent?.toString() ?? ""
+					)
+					.onChange(value => {
+						this.setLimit("maxConcurrent", value);
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Requests per minute")
+			.setDesc(
+				"Requests to this provider started within any minute, to stay under its rate limit. Leave empty for no limit."
+			)
+			.addText(text => {
+				text.setPlaceholder("No limit")
+					.setValue(
+						this.provider.limits?.requestsPerMinute?.toString() ??
+							""
+					)
+					.onChange(value => {
+						this.setLimit("requestsPerMinute", value);
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Test connection")
+			.setDesc(
+				"Check the URL and API key with a request that uses no tokens where possible"
+			)
+			.addButton(button => {
+				button.setButtonText("Test").onClick(async () => {
+					button.setDisabled(true);
+					try {
+						await this.testConnection();
+					} finally {
+						button.setDisabled(false);
+					}
+				});
+			});
+		this.connectionResultEl = contentEl.createDiv({
+			cls: "ai-actions-connection-result",
+		});
+
 		// Buttons
 		new Setting(contentEl)
 			.addButton(button => {
@@ -125,6 +192,217 @@ export class ProviderEditModal extends Modal {
 
 	private urlText: TextComponent | null = null;
 	private nameText: TextComponent | null = null;
+	private typeSettingsEl: HTMLElement | null = null;
+	private connectionResultEl: HTMLElement | null = null;
+
+	private async testConnection() {
+		const resultEl = this.connectionResultEl;
+		if (!resultEl) return;
+
+		resultEl.empty();
+		resultEl.createDiv({ text: "Testing connection..." });
+
+		const result = await testProviderConnection(this.provider, {
+			useNativeFetch: this.plugin.settings.useNativeFetch,
+		});
+
+		resultEl.empty();
+		resultEl.toggleClass("is-error", !result.ok);
+		resultEl.createDiv({
+			cls: "ai-actions-connection-result-message",
+			text: `${result.ok ? "✓" : "✗"} ${result.message}`,
+		});
+
+		const details: string[] = [];
+		if (result.endpoint) {
+			details.push(
+				`Request: ${result.endpoint}${result.status ? ` → ${result.status}` : ""}`
+			);
+		}
+		if (result.latencyMs !== undefined) {
+			details.push(`Latency: ${result.latencyMs} ms`);
+		}
+		details.push(`Authentication: ${result.auth}`);
+		if (result.nativeFetchRequired !== undefined) {
+			details.push(
+				`Native fetch: ${result.nativeFetchRequired ? "required" : "not required"}`
+			);
+		}
+		details.forEach(text => resultEl.createDiv({ text }));
+
+		if (result.remediation) {
+			resultEl.createDiv({
+				cls: "ai-actions-connection-result-remediation",
+				text: result.remediation,
+			});
+		}
+	}
+
+	private renderTypeSettings() {
+		if (!this.typeSettingsEl) return;
+
+		this.typeSettingsEl.empty();
+		if (this.provider.type === "azure") {
+			this.renderAzureSettings(this.typeSettingsEl);
+			return;
+		}
+		if (this.provider.type === "mock") {
+			this.renderMockSettings(this.typeSettingsEl);
+			return;
+		}
+		if (this.provider.type !== "custom") return;
+
+		new Setting(this.typeSettingsEl)
+			.setName("Authentication")
+			.setDesc("How the API key is sent to the server")
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions({
+						bearer: "Authorization: Bearer",
+						"api-key": "API-key header",
+						none: "None",
+					})
+					.setValue(this.provider.authScheme ?? "bearer")
+					.onChange(value => {
+						this.provider.authScheme = value as ProviderAuthScheme;
+					});
+			});
+
+		new Setting(this.typeSettingsEl)
+			.setName("Extra headers")
+			.setDesc("One header per line, e.g. X-Team: writing")
+			.addTextArea(text => {
+				text.setPlaceholder("X-team: writing")
+					.setValue(formatKeyValueLines(this.provider.headers))
+					.onChange(value => {
+						this.provider.headers = parseKeyValueLines(value);
+					});
+			});
+
+		new Setting(this.typeSettingsEl)
+			.setName("Query parameters")
+			.setDesc("Added to every request URL, one per line")
+			.addTextArea(text => {
+				text.setPlaceholder("Tenant: docs")
+					.setValue(formatKeyValueLines(this.provider.queryParams))
+					.onChange(value => {
+						this.provider.queryParams = parseKeyValueLines(value);
+					});
+			});
+	}
+
+	private renderAzureSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName("API version")
+			.setDesc(
+				"Sent with every request. Use a preview version for the responses API."
+			)
+			.addText(text => {
+				text.setPlaceholder(DEFAULT_AZURE_API_VERSION)
+					.setValue(this.provider.apiVersion || "")
+					.onChange(value => {
+						this.provider.apiVersion = value.trim() || undefined;
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Deployment")
+			.setDesc(
+				"Optional. Send every request to this deployment; otherwise the model name is used as the deployment name."
+			)
+			.addText(text => {
+				text.setPlaceholder("My-gpt-4o")
+					.setValue(this.provider.deployment || "")
+					.onChange(value => {
+						this.provider.deployment = value.trim() || undefined;
+					});
+			});
+	}
+
+	private renderMockSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName("Script file")
+			.setDesc(
+				"Vault file with responses separated by --- lines, replayed in order. {{input}} is replaced with the input and a response starting with ERROR: fails. Leave empty to echo the input."
+			)
+			.addText(text => {
+				text.setPlaceholder("Mock responses.md")
+					.setValue(this.provider.mock?.scriptPath || "")
+					.onChange(value => {
+						this.setMockSetting(
+							"scriptPath",
+							value.trim() || undefined
+						);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Chunk delay")
+			.setDesc(
+				"Milliseconds before the response and between streamed words"
+			)
+			.addText(text => {
+				text.setPlaceholder("30")
+					.setValue(this.provider.mock?.chunkDelay?.toString() ?? "")
+					.onChange(value => {
+						const delay = parseInt(value);
+						this.setMockSetting(
+							"chunkDelay",
+							delay >= 0 ? delay : undefined
+						);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Simulate thinking")
+			.setDesc("Stream a short reasoning block in think tags first")
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.provider.mock?.thinking ?? false)
+					.onChange(value => {
+						this.setMockSetting("thinking", value || undefined);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Simulated error")
+			.setDesc("Fail every request with this error, e.g. 429 rate limit")
+			.addText(text => {
+				text.setPlaceholder("")
+					.setValue(this.provider.mock?.error || "")
+					.onChange(value => {
+						this.setMockSetting("error", value.trim() || undefined);
+					});
+			});
+	}
+
+	private setMockSetting<K extends keyof MockProviderSettings>(
+		key: K,
+		value: MockProviderSettings[K]
+	) {
+		const settings: MockProviderSettings = { ...this.provider.mock };
+		if (value === undefined) {
+			delete settings[key];
+		} else {
+			settings[key] = value;
+		}
+
+		this.provider.mock = Object.keys(settings).length
+			? settings
+			: undefined;
+	}
+
+	private setLimit(key: keyof ProviderLimits, value: string) {
+		const limit = parseInt(value);
+		const limits: ProviderLimits = { ...this.provider.limits };
+		if (limit > 0) {
+			limits[key] = limit;
+		} else {
+			delete limits[key];
+		}
+
+		this.provider.limits = Object.keys(limits).length ? limits : undefined;
+	}
 
 	private getDefaultUrls(): Record<AIProviderType, string> {
 		return {
@@ -135,6 +413,11 @@ export class ProviderEditModal extends Modal {
 			openrouter: "https://openrouter.ai/api/v1",
 			lmstudio: "http://localhost:1234/v1",
 			groq: "https://api.groq.com/openai/v1",
+			mistral: "https://api.mistral.ai/v1",
+			deepseek: "https://api.deepseek.com",
+			custom: "",
+			azure: "",
+			mock: "",
 		};
 	}
 
@@ -179,6 +462,11 @@ export class ProviderEditModal extends Modal {
 			openrouter: "OpenRouter",
 			lmstudio: "LM Studio",
 			groq: "Groq",
+			mistral: "Mistral",
+			deepseek: "DeepSeek",
+			custom: "OpenAI-compatible",
+			azure: "Azure OpenAI",
+			mock: "Mock (offline)",
 		};
 
 		const newName = providerTypeNames[providerType] || providerType;
@@ -194,7 +482,7 @@ export class ProviderEditModal extends Modal {
 			return false;
 		}
 
-		if (!this.provider.url?.trim()) {
+		if (this.provider.type !== "mock" && !this.provider.url?.trim()) {
 			new Notice("Provider URL is required");
 			return false;
 		}
@@ -207,3 +495,29 @@ export class ProviderEditModal extends Modal {
 		contentEl.empty();
 	}
 }
+
+/**
+ * Parse "key: value" lines; returns undefined when nothing is set
+ */
+function parseKeyValueLines(text: string): Record<string, string> | undefined {
+	const entries = text
+		.split("\n")
+		.map((line): [string, string] => {
+			const separator = line.indexOf(":");
+			return separator === -1
+				? [line.trim(), ""]
+				: [
+						line.slice(0, separator).trim(),
+						line.slice(separator + 1).trim(),
+					];
+		})
+		.filter(([key]) => key);
+
+	return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function formatKeyValueLines(values?: Record<string, string>): string {
+	return Object.entries(values ?? {})
+		.map(([key, value]) => `${key}: ${value}`)
+		.join("\n");
+}
@@ -3,6 +3,7 @@ import { getAvailableModelsWithPluginAIProviders } from "../action";
 import type { UserAction } from "../action";
 import AIEditor from "src/main";
 import { FilterableDropdown } from "../components/FilterableDropdown";
+import { FallbackModelList } from "../components/FallbackModelList";
 import type { FilterableDropdownOption } from "../components/FilterableDropdown";
 
 export class QuickPromptEditModal extends Modal {
@@ -111,6 +112,22 @@ export class QuickPromptEditModal extends Modal {
 					this.action.model = value;
 				}
 			);
+
+			new Setting(contentEl)
+				.setName("Fallback models")
+				.setDesc(
+					"Tried in order when the model fails with an auth, quota, timeout or outage error"
+				);
+			new FallbackModelList(
+				contentEl.createDiv("ai-actions-fallback-models"),
+				options,
+				this.action.fallbackModels ?? [],
+				values => {
+					this.action.fallbackModels = values.length
+						? values
+						: undefined;
+				}
+			);
 		}
 
 		this.createTextSetting(
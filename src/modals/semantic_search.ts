@@ -0,0 +1,39 @@
+import { App, SuggestModal } from "obsidian";
+import type { SearchResult } from "../llm/embedding_index";
+
+/**
+ * Notes related to the selection, best match first. Typing filters them
+ * by path.
+ */
+export class SemanticSearchModal extends SuggestModal<SearchResult> {
+	results: SearchResult[];
+	sourcePath: string;
+
+	constructor(app: App, results: SearchResult[], sourcePath: string) {
+		super(app);
+		this.results = results;
+		this.sourcePath = sourcePath;
+		this.setPlaceholder("Filter related notes");
+		this.emptyStateText = "No related notes found";
+	}
+
+	getSuggestions(query: string): SearchResult[] {
+		const filter = query.trim().toLowerCase();
+		return this.results.filter(result =>
+			result.path.toLowerCase().includes(filter)
+		);
+	}
+
+	renderSuggestion(result: SearchResult, el: HTMLElement) {
+		const name = result.path.split("/").pop()?.replace(/\.md$/, "");
+		el.createDiv({ text: name });
+		el.createEl("small", {
+			text: `${result.path} · ${Math.round(result.score * 100)}%`,
+			cls: "ai-actions-semantic-search-path",
+		});
+	}
+
+	onChooseSuggestion(result: SearchResult) {
+		void this.app.workspace.openLinkText(result.path, this.sourcePath);
+	}
+}
@@ -71,6 +71,18 @@ export const PASTE_FROM_CLIPBOARD_AS_MARKDOWN: UserAction = {
 	showModalWindow: false,
 };
 
+export const SCREENSHOT_TO_MARKDOWN: UserAction = {
+	name: "🖼️ Screenshot to markdown",
+	prompt:
+		"You are provided with a screenshot copied to the clipboard for subsequent insertion into an Obsidian document. Transcribe all text in the image as Markdown, keeping headings, lists, emphasis and code blocks. Reproduce tables as Markdown tables with the same rows and columns. Keep the original language and do not describe the image itself.\n" +
+		'**CRITICAL**: Do not additionally enclose it with "```markdown".',
+	sel: Selection.CLIPBOARD,
+	loc: Location.APPEND_CURRENT,
+	format: "{{result}}",
+	model: "", // Will be set to first available model; needs a model that supports images
+	showModalWindow: false,
+};
+
 // Default actions
 export const DEFAULT_ACTIONS: Array<UserAction> = [
 	SUMMARY_DOC_ACTION,
@@ -79,4 +91,5 @@ export const DEFAULT_ACTIONS: Array<UserAction> = [
 	HASHTAG_ACTION,
 	APPEND_TO_TASK_LIST,
 	PASTE_FROM_CLIPBOARD_AS_MARKDOWN,
+	SCREENSHOT_TO_MARKDOWN,
 ];
@@ -3,6 +3,7 @@ import { Location, Selection } from "./action";
 import type { AIEditorSettings } from "./settings";
 import { ActionHandler, type PromptConfig, PromptProcessor } from "./handler";
 import type AIEditor from "./main";
+import type { ChatImage } from "./llm/chat";
 import type { App, Editor, MarkdownView } from "obsidian";
 
 // Mocks to avoid importing real main/obsidian
@@ -32,7 +33,11 @@ describe("QuickPromptManager — inputSource wiring", () => {
 	let mockPromptProcessor: jest.Mocked<PromptProcessor>;
 	let mockActionHandler: jest.Mocked<ActionHandler>;
 	let getTextInputMock: jest.MockedFunction<
-		(selection: Selection, editor: Editor) => Promise<string>
+		(
+			selection: Selection,
+			editor: Editor,
+			clipboardImages?: ChatImage[]
+		) => Promise<string>
 	>;
 	let processPromptMock: jest.MockedFunction<
 		(config: PromptConfig) => Promise<void>
@@ -86,10 +91,14 @@ describe("QuickPromptManager — inputSource wiring", () => {
 			processPrompt: processPromptMock,
 		} as unknown as jest.Mocked<PromptProcessor>;
 
-		getTextInputMock = jest.fn<Promise<string>, [Selection, Editor]>();
+		getTextInputMock = jest.fn<
+			Promise<string>,
+			[Selection, Editor, ChatImage[]?]
+		>();
 		getTextInputMock.mockResolvedValue("in");
 		mockActionHandler = {
 			getTextInput: getTextInputMock,
+			getClipboardImages: jest.fn().mockResolvedValue([]),
 		} as unknown as jest.Mocked<ActionHandler>;
 
 		(mockPromptProcessor.processPrompt as unknown as jest.Mock).mockName(
@@ -130,7 +139,8 @@ describe("QuickPromptManager — inputSource wiring", () => {
 		const args = await callProcess("CURSOR");
 		expect(getTextInputMock).toHaveBeenCalledWith(
 			Selection.CURSOR,
-			mockEditor
+			mockEditor,
+			[]
 		);
 		expect(args.action.sel).toBe(Selection.CURSOR);
 	});
@@ -139,7 +149,8 @@ describe("QuickPromptManager — inputSource wiring", () => {
 		const args = await callProcess("CLIPBOARD");
 		expect(getTextInputMock).toHaveBeenCalledWith(
 			Selection.CLIPBOARD,
-			mockEditor
+			mockEditor,
+			[]
 		);
 		expect(args.action.sel).toBe(Selection.CLIPBOARD);
 	});
@@ -148,7 +159,8 @@ describe("QuickPromptManager — inputSource wiring", () => {
 		const args = await callProcess("ALL");
 		expect(getTextInputMock).toHaveBeenCalledWith(
 			Selection.ALL,
-			mockEditor
+			mockEditor,
+			[]
 		);
 		expect(args.action.sel).toBe(Selection.ALL);
 	});
@@ -5,6 +5,7 @@ import { Selection } from "./action";
 import type { App, Editor, MarkdownView } from "obsidian";
 import { ActionHandler, type PromptConfig, PromptProcessor } from "./handler";
 import type AIEditor from "./main";
+import type { ChatImage } from "./llm/chat";
 import type { InputSource } from "./utils/inputSource";
 
 // Mock dependencies
@@ -34,7 +35,11 @@ describe("QuickPromptManager Integration Tests", () => {
 	let mockPromptProcessor: jest.Mocked<PromptProcessor>;
 	let mockActionHandler: jest.Mocked<ActionHandler>;
 	let getTextInputMock: jest.MockedFunction<
-		(selection: Selection, editor: Editor) => Promise<string>
+		(
+			selection: Selection,
+			editor: Editor,
+			clipboardImages?: ChatImage[]
+		) => Promise<string>
 	>;
 	let getActiveViewOfTypeMock: jest.MockedFunction<
 		(type: unknown) => MarkdownView | null
@@ -121,12 +126,16 @@ describe("QuickPromptManager Integration Tests", () => {
 			settings: mockSettings,
 		} as unknown as AIEditor;
 
-		getTextInputMock = jest.fn<Promise<string>, [Selection, Editor]>();
+		getTextInputMock = jest.fn<
+			Promise<string>,
+			[Selection, Editor, ChatImage[]?]
+		>();
 		getTextInputMock.mockResolvedValue("test input");
 
 		// Mock ActionHandler
 		mockActionHandler = {
 			getTextInput: getTextInputMock,
+			getClipboardImages: jest.fn().mockResolvedValue([]),
 		} as unknown as jest.Mocked<ActionHandler>;
 
 		// Mock PromptProcessor
@@ -177,7 +186,8 @@ describe("QuickPromptManager Integration Tests", () => {
 			// Verify ActionHandler was created with correct settings
 			expect(getTextInputMock).toHaveBeenCalledWith(
 				Selection.CURSOR, // from quickPrompt settings
-				mockEditor
+				mockEditor,
+				[]
 			);
 
 			// Verify PromptProcessor was called with correct configuration
@@ -328,7 +338,8 @@ describe("QuickPromptManager Integration Tests", () => {
 
 			expect(getTextInputMock).toHaveBeenCalledWith(
 				Selection.CLIPBOARD,
-				mockEditor
+				mockEditor,
+				[]
 			);
 			expect(processPromptMock).toHaveBeenCalledWith(
 				expect.objectContaining({
@@ -349,7 +360,8 @@ describe("QuickPromptManager Integration Tests", () => {
 
 			expect(getTextInputMock).toHaveBeenCalledWith(
 				Selection.ALL,
-				mockEditor
+				mockEditor,
+				[]
 			);
 			expect(processPromptMock).toHaveBeenCalledWith(
 				expect.objectContaining({
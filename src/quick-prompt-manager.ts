@@ -281,8 +281,16 @@ export class QuickPromptManager {
 		};
 		quickPromptAction.sel = selMap[inputSource] ?? Selection.CURSOR;
 
-		// Get text input based on selection mode
-		const text = await handler.getTextInput(quickPromptAction.sel, editor);
+		// Get input based on selection mode; the clipboard is read once
+		const images =
+			quickPromptAction.sel === Selection.CLIPBOARD
+				? await handler.getClipboardImages()
+				: [];
+		const text = await handler.getTextInput(
+			quickPromptAction.sel,
+			editor,
+			images
+		);
 
 		const promptProcessor = new PromptProcessor(
 			this.plugin.settings,
@@ -291,6 +299,7 @@ export class QuickPromptManager {
 		await promptProcessor.processPrompt({
 			action: quickPromptAction,
 			input: text,
+			...(images.length ? { images } : {}),
 			editor,
 			view,
 			app: this.plugin.app,
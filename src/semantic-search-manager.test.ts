@@ -0,0 +1,77 @@
+import { SemanticSearchManager } from "./semantic-search-manager";
+import { LLMFactory } from "./llm/factory";
+import { TFile } from "obsidian";
+import type AIEditor from "./main";
+
+jest.mock("./llm/factory");
+jest.mock("./modals/semantic_search", () => ({
+	SemanticSearchModal: jest.fn(),
+}));
+
+// About 40 chunks, more than one embeddings request takes
+const longNote = Array.from(
+	{ length: 40 },
+	(_, i) => `Paragraph ${i}: ${"word ".repeat(300)}`
+).join("\n\n");
+
+describe("SemanticSearchManager", () => {
+	let embed: jest.Mock<Promise<number[][]>, [string[]]>;
+	let manager: SemanticSearchManager;
+
+	beforeEach(() => {
+		embed = jest.fn((texts: string[]) =>
+			Promise.resolve(texts.map(() => [1, 0]))
+		);
+		(LLMFactory as jest.MockedClass<typeof LLMFactory>).mockImplementation(
+			() => ({ create: () => ({ embed }) }) as unknown as LLMFactory
+		);
+
+		const file = Object.assign(new TFile("Long note.md"), {
+			basename: "Long note",
+			extension: "md",
+			stat: { mtime: 1 },
+		});
+		const plugin = {
+			manifest: { id: "ai-editor" },
+			settings: {
+				semanticSearch: { enabled: true, modelId: "embedding-model" },
+				aiProviders: { providers: [], models: [] },
+			},
+			app: {
+				vault: {
+					configDir: "config",
+					getMarkdownFiles: () => [file],
+					cachedRead: () => Promise.resolve(longNote),
+					adapter: {
+						exists: () => Promise.resolve(false),
+						read: jest.fn(),
+						write: () => Promise.resolve(),
+						mkdir: () => Promise.resolve(),
+					},
+				},
+			},
+		} as unknown as AIEditor;
+		manager = new SemanticSearchManager(plugin);
+	});
+
+	afterEach(() => {
+		manager.destroy();
+	});
+
+	it("splits a long note into several embeddings requests", async () => {
+		await manager.updateIndex();
+
+		const sizes = embed.mock.calls.map(([texts]) => texts.length);
+		expect(sizes.length).toBeGreaterThan(1);
+		expect(Math.max(...sizes)).toBeLessThanOrEqual(32);
+		expect(manager.index.isCurrent("Long note.md", 1)).toBe(true);
+	});
+
+	it("splits a long query into several embeddings requests", async () => {
+		await manager.search(longNote);
+
+		const sizes = embed.mock.calls.map(([texts]) => texts.length);
+		expect(sizes.length).toBeGreaterThan(1);
+		expect(Math.max(...sizes)).toBeLessThanOrEqual(32);
+	});
+});
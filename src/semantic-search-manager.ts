@@ -0,0 +1,335 @@
+import { Notice, TFile } from "obsidian";
+import type { Editor, MarkdownView, TAbstractFile } from "obsidian";
+import type AIEditor from "./main";
+import { LLMFactory } from "./llm/factory";
+import type { LLM } from "./llm/base";
+import type { EmbedOptions } from "./llm/chat";
+import {
+	DEFAULT_SEMANTIC_SEARCH_SETTINGS,
+	EmbeddingIndex,
+	averageVectors,
+} from "./llm/embedding_index";
+import type {
+	SearchResult,
+	SemanticSearchSettings,
+} from "./llm/embedding_index";
+import { describeProviderError } from "./llm/errors";
+import { splitMarkdown } from "./utils/chunking";
+import {
+	getPluginFilePath,
+	readPluginFile,
+	writePluginFile,
+} from "./utils/pluginFiles";
+import { SemanticSearchModal } from "./modals/semantic_search";
+
+// Well below the input limit of common embedding models
+const CHUNK_TOKENS = 512;
+
+// Chunks sent per embeddings request
+const BATCH_SIZE = 32;
+
+// Notes are embedded again once editing pauses
+const UPDATE_DELAY_MS = 5000;
+
+// The index file is rewritten at most this often while notes change
+const SAVE_DELAY_MS = 10000;
+
+const MAX_RESULTS = 20;
+
+/**
+ * Embed the texts in requests of at most BATCH_SIZE, so long notes and
+ * queries stay within the providers' input limits
+ */
+async function embedInBatches(
+	llm: LLM,
+	texts: string[],
+	options?: EmbedOptions
+): Promise<number[][]> {
+	const vectors: number[][] = [];
+	for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+		vectors.push(
+			...(await llm.embed(
+				texts.slice(start, start + BATCH_SIZE),
+				options
+			))
+		);
+	}
+	return vectors;
+}
+
+/**
+ * Semantic search: keeps a vector index of the vault's notes in the plugin
+ * folder and lists the notes closest to the selection
+ */
+export class SemanticSearchManager {
+	plugin: AIEditor;
+	index: EmbeddingIndex;
+	// Index updates run one at a time
+	private queue: Promise<void> = Promise.resolve();
+	private updateTimers = new Map<string, number>();
+	private saveTimer: number | null = null;
+
+	constructor(plugin: AIEditor) {
+		this.plugin = plugin;
+		const path = getPluginFilePath(plugin, "embedding-index.json");
+		this.index = new EmbeddingIndex({
+			load: () => readPluginFile(plugin, path),
+			save: data => writePluginFile(plugin, path, data),
+		});
+	}
+
+	getSettings(): SemanticSearchSettings {
+		return {
+			...DEFAULT_SEMANTIC_SEARCH_SETTINGS,
+			...this.plugin.settings.semanticSearch,
+		};
+	}
+
+	private isActive(): boolean {
+		const { enabled, modelId } = this.getSettings();
+		return enabled && modelId !== "";
+	}
+
+	private createLLM(): LLM {
+		return new LLMFactory(this.plugin.settings, this.plugin.app).create(
+			this.getSettings().modelId
+		);
+	}
+
+	/**
+	 * Follow note changes. Call once the workspace layout is ready, so the
+	 * vault's startup create events are not taken for new notes.
+	 */
+	registerEvents(): void {
+		const { vault } = this.plugin.app;
+
+		this.plugin.registerEvent(
+			vault.on("modify", file => this.scheduleUpdate(file))
+		);
+		this.plugin.registerEvent(
+			vault.on("create", file => this.scheduleUpdate(file))
+		);
+		this.plugin.registerEvent(
+			vault.on("delete", file => {
+				this.runInBackground(() => this.index.delete(file.path));
+			})
+		);
+		this.plugin.registerEvent(
+			vault.on("rename", (file, oldPath) => {
+				this.runInBackground(() =>
+					this.index.rename(oldPath, file.path)
+				);
+			})
+		);
+	}
+
+	private scheduleUpdate(file: TAbstractFile): void {
+		if (!(file instanceof TFile) || file.extension !== "md") {
+			return;
+		}
+		if (!this.isActive()) {
+			return;
+		}
+
+		window.clearTimeout(this.updateTimers.get(file.path));
+		this.updateTimers.set(
+			file.path,
+			window.setTimeout(() => {
+				this.updateTimers.delete(file.path);
+				this.runInBackground(() => this.embedNotes([file]));
+			}, UPDATE_DELAY_MS)
+		);
+	}
+
+	/**
+	 * Run an index change after the ones before it, with the index loaded
+	 * for the current model. The caller handles failures.
+	 */
+	private enqueue(operation: () => Promise<void> | void): Promise<void> {
+		const run = async () => {
+			if (!this.isActive()) {
+				return;
+			}
+			await this.index.useModel(this.getSettings().modelId);
+			await operation();
+			if (this.index.hasChanges) {
+				this.scheduleSave();
+			}
+		};
+
+		const result = this.queue.then(run);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private runInBackground(operation: () => Promise<void> | void): void {
+		this.enqueue(operation).catch(error => {
+			console.error("Failed to update the semantic search index:", error);
+		});
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) {
+			return;
+		}
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			void this.index.save();
+		}, SAVE_DELAY_MS);
+	}
+
+	/**
+	 * Embed notes that are new or changed since they were indexed, and drop
+	 * deleted ones. Shows progress when there is work to do.
+	 */
+	updateIndex(): Promise<void> {
+		return this.enqueue(async () => {
+			const files = this.plugin.app.vault.getMarkdownFiles();
+			const existing = new Set(files.map(file => file.path));
+			for (const path of this.index.paths) {
+				if (!existing.has(path)) {
+					this.index.delete(path);
+				}
+			}
+
+			const changed = files.filter(
+				file => !this.index.isCurrent(file.path, file.stat.mtime)
+			);
+			if (changed.length === 0) {
+				return;
+			}
+
+			new Notice(`Indexing ${changed.length} notes for semantic search…`);
+			await this.embedNotes(changed);
+			new Notice("Semantic search index is up to date");
+		}).catch(error => this.showErrorNotice(error as Error));
+	}
+
+	/**
+	 * Start the index over, e.g. after notes were embedded with a
+	 * misconfigured model
+	 */
+	async rebuildIndex(): Promise<void> {
+		await this.index.clear();
+		await this.updateIndex();
+	}
+
+	/**
+	 * Embed the notes' chunks, several notes per request
+	 */
+	private async embedNotes(files: TFile[]): Promise<void> {
+		const llm = this.createLLM();
+		let batch: Array<{ file: TFile; mtime: number; chunks: string[] }> = [];
+		let batchChunks = 0;
+
+		const flush = async () => {
+			const vectors = await embedInBatches(
+				llm,
+				batch.flatMap(note => note.chunks),
+				{ priority: "background" }
+			);
+
+			let offset = 0;
+			for (const note of batch) {
+				this.index.set(
+					note.file.path,
+					note.mtime,
+					vectors.slice(offset, offset + note.chunks.length)
+				);
+				offset += note.chunks.length;
+			}
+			batch = [];
+			batchChunks = 0;
+		};
+
+		for (const file of files) {
+			const mtime = file.stat.mtime;
+			const text = await this.plugin.app.vault.cachedRead(file);
+			const chunks = splitMarkdown(text, CHUNK_TOKENS).map(
+				chunk => `${file.basename}\n\n${chunk}`
+			);
+
+			if (batchChunks && batchChunks + chunks.length > BATCH_SIZE) {
+				await flush();
+			}
+			batch.push({ file, mtime, chunks });
+			batchChunks += chunks.length;
+		}
+		await flush();
+	}
+
+	/**
+	 * Indexed notes closest in meaning to the text, best first
+	 */
+	async search(text: string, excludePath?: string): Promise<SearchResult[]> {
+		await this.index.useModel(this.getSettings().modelId);
+
+		const chunks = splitMarkdown(text, CHUNK_TOKENS);
+		const vectors = await embedInBatches(this.createLLM(), chunks);
+		return this.index.search(averageVectors(vectors), {
+			limit: MAX_RESULTS,
+			exclude: excludePath,
+		});
+	}
+
+	/**
+	 * The "Semantic search" command: list notes related to the selection,
+	 * or to the whole note when nothing is selected
+	 */
+	async searchFromEditor(editor: Editor, view: MarkdownView): Promise<void> {
+		if (!this.isActive()) {
+			new Notice(
+				"Turn on semantic search and choose an embedding model in the plugin settings first."
+			);
+			return;
+		}
+
+		const text = editor.getSelection().trim() || editor.getValue().trim();
+		if (!text) {
+			new Notice("Select some text to find related notes.");
+			return;
+		}
+
+		const sourcePath = view.file?.path ?? "";
+		try {
+			const results = await this.search(text, sourcePath);
+			new SemanticSearchModal(
+				this.plugin.app,
+				results,
+				sourcePath
+			).open();
+		} catch (error) {
+			this.showErrorNotice(error as Error);
+		}
+	}
+
+	private showErrorNotice(error: Error): void {
+		const { modelId } = this.getSettings();
+		const factory = new LLMFactory(this.plugin.settings, this.plugin.app);
+		const { message, fix } = describeProviderError(
+			error,
+			factory.getProviderNameSync(modelId),
+			{
+				modelName: this.plugin.settings.aiProviders.models.find(
+					model => model.id === modelId
+				)?.name,
+				useNativeFetch: this.plugin.settings.useNativeFetch,
+			}
+		);
+		new Notice(fix ? `${message} ${fix}` : message, 8000);
+	}
+
+	destroy(): void {
+		for (const timer of this.updateTimers.values()) {
+			window.clearTimeout(timer);
+		}
+		this.updateTimers.clear();
+
+		// Keep what was embedded since the last save
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+			void this.index.save();
+		}
+	}
+}
@@ -12,6 +12,13 @@ import type {
 } from "./types";
 import { ProviderEditModal } from "./modals/provider_editor";
 import { ModelEditModal } from "./modals/model_editor";
+import { isNativeStreamingSupported } from "./utils/fetch";
+import type { CassetteMode } from "./llm/cassette";
+import { DEFAULT_RESPONSE_CACHE_SETTINGS } from "./llm/response_cache";
+import type { ResponseCacheSettings } from "./llm/response_cache";
+import type { SemanticSearchSettings } from "./llm/embedding_index";
+import { supportsEmbeddings } from "./llm/model_catalog";
+import { DEFAULT_CASSETTE_NAME } from "./cassette-manager";
 import { waitForAI } from "@obsidian-ai-providers/sdk";
 import type {
 	IAIProvider,
@@ -24,6 +31,11 @@ export interface AIEditorSettings {
 	aiProviders: AIProvidersSettings;
 	useNativeFetch: boolean;
 	developmentMode: boolean;
+	maxRetries?: number;
+	responseCache?: ResponseCacheSettings;
+	semanticSearch?: SemanticSearchSettings;
+	cassetteMode?: CassetteMode; // Development mode only
+	cassetteName?: string;
 }
 
 export class AIEditorSettingTab extends PluginSettingTab {
@@ -127,6 +139,30 @@ export class AIEditorSettingTab extends PluginSettingTab {
 			this.displayActionByIndex(containerEl, i);
 		}
 
+		new Setting(containerEl)
+			.setName("Retries")
+			.setDesc(
+				"How many times to retry a request that fails with a rate limit or temporary server error before any output is received"
+			)
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions({
+						"0": "0",
+						"1": "1",
+						"2": "2",
+						"3": "3",
+						"5": "5",
+					})
+					.setValue(String(this.plugin.settings.maxRetries ?? 2))
+					.onChange(value => {
+						this.plugin.settings.maxRetries = parseInt(value, 10);
+						void this.plugin.saveSettings();
+					});
+			});
+
+		this.displayResponseCacheSettings(containerEl);
+		this.displaySemanticSearchSettings(containerEl);
+
 		// Development mode toggle with special styling
 		const devModeContainer = containerEl.createDiv(
 			"ai-actions-dev-mode-container"
@@ -144,6 +180,7 @@ export class AIEditorSettingTab extends PluginSettingTab {
 					.onChange(async value => {
 						this.plugin.settings.developmentMode = value;
 						await this.plugin.saveSettings();
+						await this.plugin.cassetteManager.apply();
 						// Refresh the display to show/hide development options
 						await this.renderSettings();
 					})
@@ -160,7 +197,10 @@ export class AIEditorSettingTab extends PluginSettingTab {
 		new Setting(devOptionsContainer)
 			.setName("Use native fetch")
 			.setDesc(
-				"Use Obsidian's native fetch to bypass cross-origin restrictions. Enable this if you encounter cross-origin errors with AI providers."
+				"Use Obsidian's native fetch to bypass cross-origin restrictions. Enable this if you encounter cross-origin errors with AI providers." +
+					(isNativeStreamingSupported()
+						? ""
+						: " On mobile, responses then appear all at once instead of streaming.")
 			)
 			.addToggle(toggle =>
 				toggle
@@ -170,6 +210,175 @@ export class AIEditorSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(devOptionsContainer)
+			.setName("Cassette mode")
+			.setDesc(
+				"Record raw provider responses to a cassette file in the plugin folder, or replay them without network access. Recording replaces the cassette's previous contents."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions({
+						off: "Off",
+						record: "Record",
+						replay: "Replay",
+					})
+					.setValue(this.plugin.settings.cassetteMode ?? "off")
+					.onChange(async value => {
+						this.plugin.settings.cassetteMode =
+							value as CassetteMode;
+						await this.plugin.saveSettings();
+						await this.plugin.cassetteManager.apply();
+					})
+			);
+
+		new Setting(devOptionsContainer)
+			.setName("Cassette name")
+			.setDesc("Stored as cassettes/<name>.json in the plugin folder")
+			.addText(text =>
+				text
+					.setPlaceholder(DEFAULT_CASSETTE_NAME)
+					.setValue(this.plugin.settings.cassetteName ?? "")
+					.onChange(async value => {
+						this.plugin.settings.cassetteName =
+							value.trim() || undefined;
+						await this.plugin.saveSettings();
+						await this.plugin.cassetteManager.apply();
+					})
+			);
+	}
+
+	private displayResponseCacheSettings(containerEl: HTMLElement): void {
+		const getCacheSettings = (): ResponseCacheSettings => ({
+			...DEFAULT_RESPONSE_CACHE_SETTINGS,
+			...this.plugin.settings.responseCache,
+		});
+		const updateCacheSettings = (
+			changes: Partial<ResponseCacheSettings>
+		) => {
+			this.plugin.settings.responseCache = {
+				...getCacheSettings(),
+				...changes,
+			};
+			void this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName("Cache responses")
+			.setDesc(
+				"Reuse the response when an action runs again with the same model, prompt, input and parameters. Regenerate always asks the model again."
+			)
+			.addToggle(toggle =>
+				toggle.setValue(getCacheSettings().enabled).onChange(value => {
+					updateCacheSettings({ enabled: value });
+				})
+			)
+			.addExtraButton(button =>
+				button
+					.setIcon("trash")
+					.setTooltip("Clear cache")
+					.onClick(() => {
+						void this.plugin.responseCache?.clear().then(() => {
+							new Notice("Response cache cleared");
+						});
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Cache lifetime")
+			.setDesc("Hours before a cached response expires")
+			.addText(text =>
+				text
+					.setPlaceholder(
+						String(DEFAULT_RESPONSE_CACHE_SETTINGS.ttlHours)
+					)
+					.setValue(String(getCacheSettings().ttlHours))
+					.onChange(value => {
+						const hours = Number(value);
+						if (value.trim() && hours > 0) {
+							updateCacheSettings({ ttlHours: hours });
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Cache size")
+			.setDesc(
+				"Maximum number of cached responses; the least recently used are dropped first"
+			)
+			.addText(text =>
+				text
+					.setPlaceholder(
+						String(DEFAULT_RESPONSE_CACHE_SETTINGS.maxEntries)
+					)
+					.setValue(String(getCacheSettings().maxEntries))
+					.onChange(value => {
+						const maxEntries = parseInt(value, 10);
+						if (maxEntries > 0) {
+							updateCacheSettings({ maxEntries });
+						}
+					})
+			);
+	}
+
+	private displaySemanticSearchSettings(containerEl: HTMLElement): void {
+		const manager = this.plugin.semanticSearchManager;
+		const updateSearchSettings = (
+			changes: Partial<SemanticSearchSettings>
+		) => {
+			this.plugin.settings.semanticSearch = {
+				...manager.getSettings(),
+				...changes,
+			};
+			void this.plugin.saveSettings().then(() => manager.updateIndex());
+		};
+
+		new Setting(containerEl)
+			.setName("Semantic search")
+			.setDesc(
+				"Index your notes with an embedding model so the semantic search command can list notes related to the selection. The index is kept in the plugin folder and updated as notes change."
+			)
+			.addToggle(toggle =>
+				toggle
+					.setValue(manager.getSettings().enabled)
+					.onChange(value => {
+						updateSearchSettings({ enabled: value });
+					})
+			)
+			.addExtraButton(button =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Rebuild index")
+					.onClick(() => {
+						void manager.rebuildIndex();
+					})
+			);
+
+		const embeddingModels: Record<string, string> = {
+			"": "Select a model",
+		};
+		for (const model of this.plugin.settings.aiProviders.models) {
+			const provider = this.plugin.settings.aiProviders.providers.find(
+				p => p.id === model.providerId
+			);
+			if (provider && supportsEmbeddings(provider.type)) {
+				embeddingModels[model.id] = `${model.name} (${provider.name})`;
+			}
+		}
+
+		new Setting(containerEl)
+			.setName("Embedding model")
+			.setDesc(
+				"Embedding models are added like other models. Changing the model rebuilds the index."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(embeddingModels)
+					.setValue(manager.getSettings().modelId)
+					.onChange(value => {
+						updateSearchSettings({ modelId: value });
+					})
+			);
 	}
 
 	displayActionByIndex(containerEl: HTMLElement, index: number): void {
@@ -217,6 +426,11 @@ export class AIEditorSettingTab extends PluginSettingTab {
 			openrouter: "OpenRouter",
 			lmstudio: "LM Studio",
 			groq: "Groq",
+			mistral: "Mistral",
+			deepseek: "DeepSeek",
+			custom: "OpenAI-compatible",
+			azure: "Azure OpenAI",
+			mock: "Mock (offline)",
 		};
 
 		return providerTypeNames[type] || type;
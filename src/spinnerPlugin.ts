@@ -22,6 +22,7 @@ type SpinnerEntryState = {
 	displayText: string;
 	isThinking: boolean;
 	thinkingText: string;
+	statusText: string;
 };
 
 type SpinnerDecorationState = {
@@ -49,6 +50,11 @@ const updateSpinnerThinkingEffect = StateEffect.define<{
 	thinkingText: string;
 }>();
 
+const updateSpinnerStatusEffect = StateEffect.define<{
+	position: number;
+	statusText: string;
+}>();
+
 class LoaderWidget extends WidgetType {
 	static readonly element: HTMLSpanElement = document.createElement("span");
 
@@ -65,6 +71,23 @@ class LoaderWidget extends WidgetType {
 	}
 }
 
+class StatusWidget extends WidgetType {
+	constructor(private text: string) {
+		super();
+	}
+
+	eq(other: StatusWidget) {
+		return other.text === this.text;
+	}
+
+	toDOM(_view: EditorView): HTMLElement {
+		const dom = document.createElement("span");
+		dom.addClass("ai-actions-status");
+		dom.textContent = this.text;
+		return dom;
+	}
+}
+
 class ThinkingWidget extends WidgetType {
 	constructor(private text: string) {
 		super();
@@ -183,6 +206,7 @@ const createSpinnerEntry = (isEndOfLine: boolean): SpinnerEntryState => ({
 	displayText: "",
 	isThinking: false,
 	thinkingText: "",
+	statusText: "",
 });
 
 const buildDecorations = (
@@ -206,6 +230,17 @@ const buildDecorations = (
 			})
 		);
 
+		if (entry.statusText) {
+			builder.add(
+				position,
+				position,
+				Decoration.widget({
+					widget: new StatusWidget(entry.statusText),
+					side: entry.isEndOfLine ? 1 : -1,
+				})
+			);
+		}
+
 		if (entry.isThinking && entry.thinkingText) {
 			builder.add(
 				position,
@@ -254,7 +289,8 @@ const spinnerStateField = StateField.define<SpinnerDecorationState>({
 					current.isEndOfLine !== nextEntry.isEndOfLine ||
 					current.displayText !== nextEntry.displayText ||
 					current.isThinking !== nextEntry.isThinking ||
-					current.thinkingText !== nextEntry.thinkingText
+					current.thinkingText !== nextEntry.thinkingText ||
+					current.statusText !== nextEntry.statusText
 				) {
 					ensureMutableEntries();
 					entries.set(effect.value.position, nextEntry);
@@ -286,6 +322,22 @@ const spinnerStateField = StateField.define<SpinnerDecorationState>({
 				continue;
 			}
 
+			if (effect.is(updateSpinnerStatusEffect)) {
+				const current = entries.get(effect.value.position);
+				if (!current) {
+					continue;
+				}
+
+				if (current.statusText !== effect.value.statusText) {
+					ensureMutableEntries();
+					entries.set(effect.value.position, {
+						...current,
+						statusText: effect.value.statusText,
+					});
+				}
+				continue;
+			}
+
 			if (effect.is(updateSpinnerThinkingEffect)) {
 				const current = entries.get(effect.value.position);
 				if (!current) {
@@ -400,6 +452,23 @@ export class SpinnerPlugin implements PluginValue {
 		}
 	}
 
+	/**
+	 * Show a short status next to the spinner, e.g. "retrying (2/3)…".
+	 * An empty string clears it.
+	 */
+	setStatus(text: string, position?: number) {
+		const effects = this.getTargetPositions(position).map(targetPosition =>
+			updateSpinnerStatusEffect.of({
+				position: targetPosition,
+				statusText: text,
+			})
+		);
+
+		if (effects.length) {
+			this.editorView.dispatch({ effects });
+		}
+	}
+
 	update(_update: ViewUpdate) {
 		return;
 	}
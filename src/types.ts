@@ -5,10 +5,18 @@ export type AIProviderType =
 	| "openrouter"
 	| "lmstudio"
 	| "groq"
-	| "anthropic";
+	| "mistral"
+	| "deepseek"
+	| "anthropic"
+	| "custom"
+	| "azure"
+	| "mock";
 
 export type OpenAIRequestMode = "completions" | "responses";
 
+// How the API key is sent by custom OpenAI-compatible providers
+export type ProviderAuthScheme = "bearer" | "api-key" | "none";
+
 export interface AIProvider {
 	id: string;
 	name: string;
@@ -16,6 +24,74 @@ export interface AIProvider {
 	apiKey?: string;
 	url?: string;
 	availableModels?: string[];
+	// Custom OpenAI-compatible providers only
+	authScheme?: ProviderAuthScheme;
+	headers?: Record<string, string>;
+	queryParams?: Record<string, string>;
+	// Azure OpenAI only
+	apiVersion?: string;
+	deployment?: string;
+	// Offline mock provider only
+	mock?: MockProviderSettings;
+	limits?: ProviderLimits;
+	// What the provider's model list reported about each model, by model name
+	modelCatalog?: Record<string, ModelInfo>;
+}
+
+// Model metadata from a provider's model list; unset means unknown
+export interface ModelInfo {
+	contextLength?: number; // Input tokens the model accepts
+	pricing?: ModelPricing;
+	vision?: boolean; // Accepts images
+	tools?: boolean; // Supports tool calling
+	thinking?: boolean; // Produces reasoning output
+	systemPrompt?: boolean;
+	temperature?: boolean;
+}
+
+// Request limits shared by every model of a provider; unset means unlimited
+export interface ProviderLimits {
+	maxConcurrent?: number; // Requests running at the same time
+	requestsPerMinute?: number; // Requests started within any minute
+}
+
+// Offline mock provider: echoes the input unless a script file is set
+export interface MockProviderSettings {
+	scriptPath?: string; // Vault file with responses separated by "---" lines
+	chunkDelay?: number; // Milliseconds between streamed chunks
+	thinking?: boolean; // Stream a reasoning block in think tags first
+	error?: string; // Fail every request, e.g. "429 Too Many Requests"
+}
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+	input?: number;
+	output?: number;
+}
+
+// How much the model may think: a level, or a token budget for thinking
+export type ReasoningEffort = "off" | "low" | "medium" | "high" | number;
+
+// Sampling and length settings; unset values use the provider's default
+export interface GenerationSettings {
+	maxOutputTokens?: number;
+	topP?: number;
+	stop?: string[];
+	seed?: number;
+	presencePenalty?: number;
+	frequencyPenalty?: number;
+}
+
+// Image generation actions; unset values use the provider's default
+export interface ImageGenerationSettings {
+	size?: string; // e.g. "1024x1024"
+	quality?: string; // e.g. "standard", "hd", "low", "high"
+}
+
+// Ollama-only model settings
+export interface OllamaModelSettings {
+	numCtx?: number; // Context window size in tokens
+	keepAlive?: string; // How long the model stays loaded, e.g. "10m" or "-1"
 }
 
 export interface AIModel {
@@ -29,6 +105,12 @@ export interface AIModel {
 	openAIRequestMode?: OpenAIRequestMode;
 	temperatureSupported?: boolean;
 	reasoningSummarySupported?: boolean;
+	imagesSupported?: boolean; // Unset uses the provider's model list
+	pricing?: ModelPricing;
+	contextLength?: number; // Input tokens the model accepts
+	generation?: GenerationSettings; // Defaults, overridden per action
+	reasoningEffort?: ReasoningEffort; // Unset leaves the provider's default
+	ollama?: OllamaModelSettings;
 }
 
 export interface AIProvidersSettings {
@@ -0,0 +1,26 @@
+// Helpers for request cancellation via AbortSignal
+
+/**
+ * Create the error thrown when a request is cancelled.
+ * Uses the signal's reason when it is already an Error (e.g. a timeout).
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+	const reason: unknown = signal?.reason;
+	if (reason instanceof Error) {
+		return reason;
+	}
+
+	const error = new Error("Request aborted");
+	error.name = "AbortError";
+	return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw createAbortError(signal);
+	}
+}
+
+export function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === "AbortError";
+}
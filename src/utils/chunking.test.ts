@@ -0,0 +1,66 @@
+import { estimateTokens, splitMarkdown } from "./chunking";
+
+describe("estimateTokens", () => {
+	it("counts about four characters per token", () => {
+		expect(estimateTokens("")).toBe(0);
+		expect(estimateTokens("a".repeat(400))).toBe(100);
+	});
+
+	it("counts CJK characters as one token each", () => {
+		expect(estimateTokens("日本語のテキスト")).toBe(8);
+	});
+});
+
+describe("splitMarkdown", () => {
+	const paragraph = (word: string) => `${`${word} `.repeat(60).trim()}\n\n`;
+
+	it("keeps text that fits in one chunk", () => {
+		expect(splitMarkdown("# Title\n\nShort note.", 100)).toEqual([
+			"# Title\n\nShort note.",
+		]);
+	});
+
+	it("cuts at headings and keeps small sections together", () => {
+		const text = [
+			`# One\n\n${paragraph("one")}`,
+			`## Two\n\n${paragraph("two")}`,
+			`# Three\n\n${paragraph("three")}`,
+		].join("");
+
+		const chunks = splitMarkdown(text, 200);
+
+		expect(chunks).toHaveLength(2);
+		expect(chunks[0]).toMatch(/^# One[\s\S]*## Two[\s\S]*two$/);
+		expect(chunks[1]).toMatch(/^# Three/);
+	});
+
+	it("cuts long sections between paragraphs", () => {
+		const text = `# Log\n\n${paragraph("aaaa")}${paragraph("bbbb")}${paragraph("cccc")}`;
+
+		const chunks = splitMarkdown(text, 100);
+
+		expect(chunks.every(chunk => estimateTokens(chunk) <= 100)).toBe(true);
+		expect(chunks.map(chunk => chunk.split(" ").pop())).toEqual([
+			"aaaa",
+			"bbbb",
+			"cccc",
+		]);
+	});
+
+	it("does not cut inside code blocks at headings or blank lines", () => {
+		const code = "```\n# not a heading\n\nstill code\n```\n";
+		const text = `${paragraph("word")}${code}`;
+
+		const chunks = splitMarkdown(text, 80);
+
+		expect(chunks).toContain(code.trim());
+	});
+
+	it("cuts overlong lines at spaces", () => {
+		const chunks = splitMarkdown("word ".repeat(100), 50);
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every(chunk => /^(word ?)+$/.test(chunk))).toBe(true);
+		expect(chunks.every(chunk => estimateTokens(chunk) <= 50)).toBe(true);
+	});
+});
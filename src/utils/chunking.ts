@@ -0,0 +1,130 @@
+// Token estimation and Markdown-aware splitting of long inputs
+
+// Kana, CJK ideographs and Hangul take about one token per character
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+
+// Other text averages about four characters per token across tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count of a text. Tokenizers differ between models, so callers
+ * keep a safety margin below the model's context length.
+ */
+export function estimateTokens(text: string): number {
+	const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+	return Math.ceil(cjk + (text.length - cjk) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split text into segments that start where isBoundary says so.
+ * Fenced code blocks are never split. Joining the segments gives the text back.
+ */
+function splitBefore(
+	text: string,
+	isBoundary: (line: string, previousLine: string) => boolean
+): string[] {
+	const segments: string[] = [];
+	let current = "";
+	let previousLine = "";
+	let inFence = false;
+
+	const lines = text
+		.split("\n")
+		.map((line, i, all) => (i < all.length - 1 ? `${line}\n` : line));
+
+	for (const line of lines) {
+		if (current && !inFence && isBoundary(line, previousLine)) {
+			segments.push(current);
+			current = "";
+		}
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		}
+		current += line;
+		previousLine = line;
+	}
+	if (current) {
+		segments.push(current);
+	}
+	return segments;
+}
+
+const isBlank = (line: string) => line.trim() === "";
+
+// From the most to the least preferred place to cut
+const SPLITTERS: Array<(text: string) => string[]> = [
+	// Markdown headings
+	text => splitBefore(text, line => /^#{1,6}\s/.test(line)),
+	// Paragraphs
+	text =>
+		splitBefore(
+			text,
+			(line, previousLine) => isBlank(previousLine) && !isBlank(line)
+		),
+	// Lines
+	text => splitBefore(text, () => true),
+];
+
+/**
+ * Last resort for a single line that is too long: cut at whitespace near
+ * the size limit
+ */
+function sliceText(text: string, maxTokens: number): string[] {
+	const slices: string[] = [];
+	let rest = text;
+
+	while (estimateTokens(rest) > maxTokens) {
+		// Shrink the cut until it fits, e.g. for CJK text
+		let end = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+		while (end > 1 && estimateTokens(rest.slice(0, end)) > maxTokens) {
+			end = Math.floor(end / 2);
+		}
+		const space = rest.lastIndexOf(" ", end);
+		if (space > end / 2) {
+			end = space + 1;
+		}
+		slices.push(rest.slice(0, end));
+		rest = rest.slice(end);
+	}
+	if (rest) {
+		slices.push(rest);
+	}
+	return slices;
+}
+
+function splitToFit(text: string, maxTokens: number, level = 0): string[] {
+	if (estimateTokens(text) <= maxTokens) {
+		return [text];
+	}
+	if (level >= SPLITTERS.length) {
+		return sliceText(text, maxTokens);
+	}
+
+	const segments = SPLITTERS[level](text);
+	return segments.flatMap(segment =>
+		splitToFit(segment, maxTokens, level + 1)
+	);
+}
+
+/**
+ * Split Markdown into chunks of at most maxTokens (estimated). Chunks end
+ * at headings where possible, then at paragraphs, then at lines; sections
+ * that fit are kept together.
+ */
+export function splitMarkdown(text: string, maxTokens: number): string[] {
+	const chunks: string[] = [];
+	let current = "";
+
+	for (const piece of splitToFit(text, maxTokens)) {
+		if (current && estimateTokens(current + piece) > maxTokens) {
+			chunks.push(current);
+			current = "";
+		}
+		current += piece;
+	}
+	if (current) {
+		chunks.push(current);
+	}
+
+	return chunks.map(chunk => chunk.trim()).filter(chunk => chunk !== "");
+}
@@ -0,0 +1,48 @@
+import { shouldUseFallback } from "./fallback";
+import { ProviderError } from "../llm/errors";
+
+describe("shouldUseFallback", () => {
+	it.each([
+		["auth", new Error("Groq API error: 401 Unauthorized")],
+		["quota", { status: 429 }],
+		["outage", new Error("Anthropic API error: 529 Overloaded")],
+		["server", { status: 503 }],
+		["network", new TypeError("Failed to fetch")],
+		[
+			"timeout",
+			new Error("Timeout: last streaming output is 46000ms ago."),
+		],
+		["missing key", new Error("API key not configured for provider: X")],
+	])("falls back on %s errors", (_kind, error) => {
+		expect(shouldUseFallback(error)).toBe(true);
+	});
+
+	it("does not fall back on request errors or cancellation", () => {
+		expect(
+			shouldUseFallback(new Error("LMStudio API error: 400 Bad Request"))
+		).toBe(false);
+
+		const abortError = new Error("aborted");
+		abortError.name = "AbortError";
+		expect(shouldUseFallback(abortError)).toBe(false);
+	});
+
+	it("decides typed provider errors by their kind", () => {
+		expect(
+			shouldUseFallback(
+				new ProviderError(
+					"Ollama API error: 400 Bad Request - model is too large",
+					{
+						status: 400,
+						kind: "context-length",
+					}
+				)
+			)
+		).toBe(true);
+		expect(
+			shouldUseFallback(
+				new ProviderError("Blocked", { kind: "content-filter" })
+			)
+		).toBe(false);
+	});
+});
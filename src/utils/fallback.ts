@@ -0,0 +1,32 @@
+import { isAbortError } from "./abort";
+import { ProviderError, toProviderError } from "../llm/errors";
+import type { ProviderErrorKind } from "../llm/errors";
+
+// Failures another model or provider may not have, e.g. a larger context
+const FALLBACK_KINDS = new Set<ProviderErrorKind>([
+	"auth",
+	"rate-limit",
+	"context-length",
+	"model-not-found",
+	"network",
+	"timeout",
+	"server",
+]);
+
+/**
+ * Whether a failed run should move on to the action's next fallback model.
+ * Decided by the error's kind, so untyped errors are classified like
+ * provider errors. Errors caused by the request itself (bad parameters,
+ * cancellation) are final.
+ */
+export function shouldUseFallback(error: unknown): boolean {
+	if (isAbortError(error)) {
+		return false;
+	}
+
+	const providerError = toProviderError(error);
+	return (
+		providerError instanceof ProviderError &&
+		FALLBACK_KINDS.has(providerError.kind)
+	);
+}
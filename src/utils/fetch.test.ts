@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+import { Platform, requestUrl } from "obsidian";
+import { isNativeStreamingSupported, nativeFetch } from "./fetch";
+
+type Listener = (...args: unknown[]) => void;
+
+class FakeEmitter {
+	private listeners: Record<string, Listener[]> = {};
+
+	on(event: string, listener: Listener) {
+		(this.listeners[event] ??= []).push(listener);
+		return this;
+	}
+
+	emit(event: string, ...args: unknown[]) {
+		this.listeners[event]?.forEach(listener => listener(...args));
+	}
+}
+
+class FakeResponse extends FakeEmitter {
+	resume = jest.fn();
+	destroy = jest.fn((error?: Error) => {
+		if (error) this.emit("error", error);
+		return this;
+	});
+
+	constructor(
+		public statusCode: number,
+		public headers: Record<string, string> = {},
+		public statusMessage = ""
+	) {
+		super();
+	}
+}
+
+class FakeRequest extends FakeEmitter {
+	body = "";
+	end = jest.fn();
+	destroy = jest.fn((error?: Error) => {
+		if (error) this.emit("error", error);
+		return this;
+	});
+
+	constructor(
+		public url: string,
+		public options: { method: string; headers: Record<string, string> }
+	) {
+		super();
+	}
+
+	write(chunk: string) {
+		this.body += chunk;
+		return true;
+	}
+
+	respond(response: FakeResponse) {
+		this.emit("response", response);
+	}
+}
+
+const requestUrlMock = requestUrl as jest.Mock;
+const globalWithRequire = globalThis as { require?: unknown };
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe("nativeFetch", () => {
+	let requests: FakeRequest[];
+	let requiredModules: string[];
+
+	beforeEach(() => {
+		requests = [];
+		requiredModules = [];
+		globalWithRequire.require = (id: string) => {
+			requiredModules.push(id);
+			return {
+				request: (
+					url: string,
+					options: { method: string; headers: Record<string, string> }
+				) => {
+					const request = new FakeRequest(url, options);
+					requests.push(request);
+					return request;
+				},
+			};
+		};
+		Platform.isDesktopApp = true;
+		requestUrlMock.mockReset();
+	});
+
+	afterEach(() => {
+		delete globalWithRequire.require;
+	});
+
+	it("streams the body before the response has finished", async () => {
+		const pending = nativeFetch("https://api.example.com/stream");
+		const response = new FakeResponse(200, {
+			"content-type": "text/event-stream",
+		});
+		requests[0].respond(response);
+
+		const result = await pending;
+		expect(requiredModules).toEqual(["https"]);
+		expect(result.status).toBe(200);
+		expect(result.headers.get("content-type")).toBe("text/event-stream");
+
+		const reader = result.body!.getReader();
+		response.emit("data", encoder.encode("data: first\n\n"));
+		const first = await reader.read();
+		expect(decoder.decode(first.value)).toBe("data: first\n\n");
+
+		response.emit("data", encoder.encode("data: second\n\n"));
+		response.emit("end");
+		const second = await reader.read();
+		expect(decoder.decode(second.value)).toBe("data: second\n\n");
+		expect((await reader.read()).done).toBe(true);
+		expect(requestUrlMock).not.toHaveBeenCalled();
+	});
+
+	it("sends method, headers and body", async () => {
+		const pending = nativeFetch("http://localhost:11434/api/chat", {
+			method: "post",
+			headers: { Authorization: "Bearer key", "content-length": "1" },
+			body: '{"model":"test"}',
+		});
+		const request = requests[0];
+		const response = new FakeResponse(400, {}, "Bad Request");
+		request.respond(response);
+		const result = await pending;
+		response.emit("data", encoder.encode('{"error":"bad"}'));
+		response.emit("end");
+
+		expect(requiredModules).toEqual(["http"]);
+		expect(request.url).toBe("http://localhost:11434/api/chat");
+		expect(request.options).toEqual({
+			method: "POST",
+			headers: { Authorization: "Bearer key" },
+		});
+		expect(request.body).toBe('{"model":"test"}');
+		expect(request.end).toHaveBeenCalled();
+		expect(result.ok).toBe(false);
+		expect(result.statusText).toBe("Bad Request");
+		expect(await result.text()).toBe('{"error":"bad"}');
+	});
+
+	it("follows redirects", async () => {
+		const pending = nativeFetch("https://api.example.com/old", {
+			method: "POST",
+			body: "{}",
+		});
+		requests[0].respond(new FakeResponse(307, { location: "/new" }));
+		requests[1].respond(new FakeResponse(204));
+
+		const result = await pending;
+		expect(requests[1].url).toBe("https://api.example.com/new");
+		expect(requests[1].options.method).toBe("POST");
+		expect(requests[1].body).toBe("{}");
+		expect(result.status).toBe(204);
+		expect(result.body).toBeNull();
+	});
+
+	it("errors the stream when aborted mid-response", async () => {
+		const controller = new AbortController();
+		const pending = nativeFetch("https://api.example.com/slow", {
+			signal: controller.signal,
+		});
+		const response = new FakeResponse(200);
+		requests[0].respond(response);
+		const reader = (await pending).body!.getReader();
+
+		controller.abort();
+
+		await expect(reader.read()).rejects.toMatchObject({
+			name: "AbortError",
+		});
+		expect(response.destroy).toHaveBeenCalled();
+	});
+
+	it("reports connection failures as a TypeError", async () => {
+		const pending = nativeFetch("https://api.example.com");
+		requests[0].emit("error", new Error("connect ECONNREFUSED"));
+
+		await expect(pending).rejects.toThrow(
+			new TypeError("Network request failed: connect ECONNREFUSED")
+		);
+	});
+
+	it("falls back to requestUrl without Node", async () => {
+		Platform.isDesktopApp = false;
+		requestUrlMock.mockResolvedValue({
+			status: 200,
+			headers: {},
+			text: "buffered",
+		});
+
+		const result = await nativeFetch("https://api.example.com/mobile", {
+			method: "POST",
+			body: "{}",
+		});
+
+		expect(isNativeStreamingSupported()).toBe(false);
+		expect(requests).toHaveLength(0);
+		expect(await result.text()).toBe("buffered");
+		expect(requestUrlMock).toHaveBeenCalledWith(
+			expect.objectContaining({
+				url: "https://api.example.com/mobile",
+				method: "POST",
+				body: "{}",
+				throw: false,
+			})
+		);
+	});
+});
@@ -1,27 +1,253 @@
-import { requestUrl } from "obsidian";
+import { Platform, requestUrl } from "obsidian";
 import type { RequestUrlParam } from "obsidian";
+import { createAbortError, isAbortError, throwIfAborted } from "./abort";
 
-// Native fetch wrapper that uses Obsidian's requestUrl to bypass CORS
-export async function nativeFetch(
-	url: string,
-	options: RequestInit = {}
-): Promise<Response> {
+// The parts of Node's http/https modules used here; plugin code can't import Node modules
+interface NodeIncomingMessage {
+	statusCode?: number;
+	statusMessage?: string;
+	headers: Record<string, string | string[] | undefined>;
+	on(event: "data", listener: (chunk: Uint8Array) => void): this;
+	on(event: "end", listener: () => void): this;
+	on(event: "error", listener: (error: Error) => void): this;
+	resume(): this;
+	destroy(error?: Error): this;
+}
+
+interface NodeClientRequest {
+	on(
+		event: "response",
+		listener: (response: NodeIncomingMessage) => void
+	): this;
+	on(event: "error", listener: (error: Error) => void): this;
+	write(chunk: string): boolean;
+	end(): this;
+	destroy(error?: Error): this;
+}
+
+interface NodeHttpModule {
+	request(
+		url: string,
+		options: { method: string; headers: Record<string, string> }
+	): NodeClientRequest;
+}
+
+// Statuses whose responses never carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 5;
+
+function getRequestHeaders(options: RequestInit): Record<string, string> {
+	const headers = { ...(options.headers as Record<string, string>) };
 	// Remove content-length header as it's handled automatically
-	if (options.headers) {
-		delete (options.headers as Record<string, string>)["content-length"];
+	delete headers["content-length"];
+	return headers;
+}
+
+/**
+ * Node's http/https module for the URL, available in the desktop app only.
+ * Electron exposes Node's require to plugins there.
+ */
+function getNodeTransport(url: string): NodeHttpModule | null {
+	const nodeRequire = (globalThis as { require?: (id: string) => unknown })
+		.require;
+	if (!Platform.isDesktopApp || typeof nodeRequire !== "function") {
+		return null;
+	}
+
+	try {
+		const protocol = new URL(url).protocol;
+		if (protocol !== "http:" && protocol !== "https:") {
+			return null;
+		}
+		return nodeRequire(protocol.slice(0, -1)) as NodeHttpModule;
+	} catch {
+		return null;
 	}
+}
+
+function toHeaders(incoming: NodeIncomingMessage["headers"]): Headers {
+	const headers = new Headers();
+	Object.entries(incoming).forEach(
+		([name, value]: [string, string | string[] | undefined]) => {
+			if (Array.isArray(value)) {
+				value.forEach(item => headers.append(name, item));
+			} else if (value !== undefined) {
+				headers.append(name, value);
+			}
+		}
+	);
+	return headers;
+}
+
+/**
+ * Expose a Node response as a web stream so chunks reach the caller as they arrive
+ */
+function toReadableStream(
+	response: NodeIncomingMessage,
+	onDone: () => void
+): ReadableStream<Uint8Array> {
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			response.on("data", chunk => {
+				controller.enqueue(new Uint8Array(chunk));
+			});
+			response.on("end", () => {
+				onDone();
+				controller.close();
+			});
+			response.on("error", error => {
+				onDone();
+				controller.error(error);
+			});
+		},
+		cancel() {
+			onDone();
+			response.destroy();
+		},
+	});
+}
+
+/**
+ * Streaming transport for the desktop app: Node requests are not subject
+ * to CORS and, unlike requestUrl, hand over the body incrementally
+ */
+function nodeFetch(
+	transport: NodeHttpModule,
+	url: string,
+	options: RequestInit,
+	redirects = 0
+): Promise<Response> {
+	const signal = options.signal ?? undefined;
+	throwIfAborted(signal);
 
+	return new Promise<Response>((resolve, reject) => {
+		const method = (options.method || "GET").toUpperCase();
+		const request = transport.request(url, {
+			method,
+			headers: getRequestHeaders(options),
+		});
+
+		let activeResponse: NodeIncomingMessage | null = null;
+		const onAbort = () => {
+			const error = createAbortError(signal);
+			// Errors the body stream once the response has started
+			activeResponse?.destroy(error);
+			request.destroy(error);
+			reject(error);
+		};
+		const cleanup = () => signal?.removeEventListener("abort", onAbort);
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		request.on("response", response => {
+			const status = response.statusCode ?? 0;
+			const location = response.headers.location;
+
+			if (REDIRECT_STATUSES.has(status) && typeof location === "string") {
+				cleanup();
+				response.resume();
+				if (redirects >= MAX_REDIRECTS) {
+					reject(
+						new TypeError(
+							"Network request failed: too many redirects"
+						)
+					);
+					return;
+				}
+
+				const nextUrl = new URL(location, url).toString();
+				const nextTransport = getNodeTransport(nextUrl) ?? transport;
+				// 303 (and 301/302 for POST, as browsers do) switch to GET
+				const nextOptions: RequestInit =
+					status === 303 ||
+					((status === 301 || status === 302) && method === "POST")
+						? { ...options, method: "GET", body: undefined }
+						: options;
+				nodeFetch(nextTransport, nextUrl, nextOptions, redirects + 1)
+					.then(resolve)
+					.catch(reject);
+				return;
+			}
+
+			const hasBody =
+				!NULL_BODY_STATUSES.has(status) && method !== "HEAD";
+			if (!hasBody) {
+				cleanup();
+				response.resume();
+			} else {
+				activeResponse = response;
+			}
+
+			resolve(
+				new Response(
+					hasBody ? toReadableStream(response, cleanup) : null,
+					{
+						status,
+						statusText: response.statusMessage ?? "",
+						headers: toHeaders(response.headers),
+					}
+				)
+			);
+		});
+
+		request.on("error", (error: Error) => {
+			cleanup();
+			// Match fetch, which reports connection failures as a TypeError
+			reject(
+				isAbortError(error)
+					? error
+					: new TypeError(`Network request failed: ${error.message}`)
+			);
+		});
+
+		if (typeof options.body === "string") {
+			request.write(options.body);
+		}
+		request.end();
+	});
+}
+
+/**
+ * Fallback for mobile, where Node is unavailable: requestUrl buffers the
+ * whole body, so a streamed response arrives in one piece at the end
+ */
+async function requestUrlFetch(
+	url: string,
+	options: RequestInit
+): Promise<Response> {
 	const requestParams: RequestUrlParam = {
 		url,
 		method: options.method || "GET",
-		headers: options.headers as Record<string, string>,
+		headers: getRequestHeaders(options),
+		// Return error statuses instead of throwing so callers can read them
+		throw: false,
 	};
 
 	if (options.body) {
 		requestParams.body = options.body as string;
 	}
 
-	const obsidianResponse = await requestUrl(requestParams);
+	// requestUrl cannot be cancelled, so stop waiting for it once aborted
+	const signal = options.signal ?? undefined;
+	throwIfAborted(signal);
+	const obsidianResponse = await new Promise<
+		Awaited<ReturnType<typeof requestUrl>>
+	>((resolve, reject) => {
+		const onAbort = () => reject(createAbortError(signal));
+		signal?.addEventListener("abort", onAbort, { once: true });
+		requestUrl(requestParams).then(
+			response => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve(response);
+			},
+			(error: unknown) => {
+				signal?.removeEventListener("abort", onAbort);
+				reject(
+					error instanceof Error ? error : new Error(String(error))
+				);
+			}
+		);
+	});
 
 	const responseInit: ResponseInit = {
 		status: obsidianResponse.status,
@@ -31,6 +257,29 @@ export async function nativeFetch(
 	return new Response(obsidianResponse.text, responseInit);
 }
 
+/**
+ * Fetch that bypasses CORS: Node's http/https on desktop, which streams
+ * the response, and Obsidian's requestUrl on mobile, which does not
+ */
+export function nativeFetch(
+	url: string,
+	options: RequestInit = {}
+): Promise<Response> {
+	const transport = getNodeTransport(url);
+	if (transport) {
+		return nodeFetch(transport, url, options);
+	}
+
+	return requestUrlFetch(url, options);
+}
+
+/**
+ * Whether nativeFetch delivers responses incrementally on this platform
+ */
+export function isNativeStreamingSupported(): boolean {
+	return getNodeTransport("https://localhost") !== null;
+}
+
 // Standard fetch for environments that support it
 export const standardFetch: typeof globalThis.fetch = (
 	input: RequestInfo | URL,
@@ -0,0 +1,85 @@
+import { TFile } from "obsidian";
+import type { App } from "obsidian";
+import { findImageEmbeds, readImageBlob, readImageEmbeds } from "./imageEmbeds";
+
+describe("findImageEmbeds", () => {
+	it("finds wiki and Markdown image embeds in order", () => {
+		expect(
+			findImageEmbeds(
+				[
+					"![[diagram.png|300]]",
+					"![Screenshot](attachments/Pasted%20image.jpg)",
+					"![[diagram.png]]",
+					"![[notes.md]] ![[clip.mp4]]",
+					"![web](https://example.com/logo.png)",
+					"[[not-embedded.png]]",
+				].join("\n")
+			)
+		).toEqual(["diagram.png", "attachments/Pasted image.jpg"]);
+	});
+});
+
+describe("readImageEmbeds", () => {
+	const createFile = (path: string, size: number) =>
+		Object.assign(new TFile(path), {
+			extension: path.split(".").pop(),
+			stat: { size },
+		});
+
+	it("reads linked images from the vault as base64", async () => {
+		const files: Record<string, TFile> = {
+			"diagram.png": createFile("assets/diagram.png", 3),
+			"huge.jpg": createFile("huge.jpg", 10 * 1024 * 1024),
+		};
+		const getFirstLinkpathDest = jest.fn(
+			(link: string) => files[link] ?? null
+		);
+		const app = {
+			metadataCache: { getFirstLinkpathDest },
+			vault: {
+				readBinary: () =>
+					Promise.resolve(new Uint8Array([104, 105, 33]).buffer),
+			},
+		} as unknown as App;
+
+		const result = await readImageEmbeds(
+			app,
+			"![[diagram.png]] ![[huge.jpg]] ![[missing.gif]]",
+			"Notes/Meeting.md"
+		);
+
+		expect(getFirstLinkpathDest).toHaveBeenCalledWith(
+			"diagram.png",
+			"Notes/Meeting.md"
+		);
+		expect(result).toEqual({
+			images: [{ mimeType: "image/png", data: "aGkh" }],
+			skipped: ["huge.jpg", "missing.gif"],
+		});
+	});
+});
+
+describe("readImageBlob", () => {
+	const createBlob = (type: string, size: number) =>
+		({
+			type,
+			size,
+			arrayBuffer: () =>
+				Promise.resolve(new Uint8Array([104, 105, 33]).buffer),
+		}) as unknown as Blob;
+
+	it("reads copied images of supported formats", async () => {
+		await expect(
+			readImageBlob(createBlob("image/png", 3))
+		).resolves.toEqual({ mimeType: "image/png", data: "aGkh" });
+	});
+
+	it("skips other formats and oversized images", async () => {
+		await expect(
+			readImageBlob(createBlob("image/tiff", 3))
+		).resolves.toBeNull();
+		await expect(
+			readImageBlob(createBlob("image/png", 6 * 1024 * 1024))
+		).resolves.toBeNull();
+	});
+});
@@ -0,0 +1,106 @@
+// Images embedded in notes, read from the vault for models that accept images
+import { arrayBufferToBase64 } from "obsidian";
+import type { App } from "obsidian";
+import type { ChatImage } from "../llm/chat";
+
+// Formats every provider with image input accepts
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+// Providers reject larger images (Anthropic allows 5 MB per image)
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const MAX_IMAGES = 10;
+
+export function isSupportedImageType(mimeType: string): boolean {
+	return Object.values(IMAGE_MIME_TYPES).includes(mimeType);
+}
+
+/**
+ * An image from the clipboard, or null if its format or size can't be sent
+ */
+export async function readImageBlob(blob: Blob): Promise<ChatImage | null> {
+	if (!isSupportedImageType(blob.type) || blob.size > MAX_IMAGE_BYTES) {
+		return null;
+	}
+	return {
+		mimeType: blob.type,
+		data: arrayBufferToBase64(await blob.arrayBuffer()),
+	};
+}
+
+function getExtension(path: string): string {
+	return path.split(".").pop()?.toLowerCase() ?? "";
+}
+
+/**
+ * Link paths of image embeds, in order and without duplicates:
+ * ![[diagram.png]], ![[diagram.png|300]] and ![alt](images/diagram.png).
+ * Web images are left out.
+ */
+export function findImageEmbeds(text: string): string[] {
+	const links: Array<{ index: number; path: string }> = [];
+
+	for (const match of text.matchAll(/!\[\[([^\]|#]+)[^\]]*\]\]/g)) {
+		links.push({ index: match.index, path: match[1].trim() });
+	}
+	for (const match of text.matchAll(
+		/!\[[^\]]*\]\(<?([^)>]+?)>?(?:\s+"[^"]*")?\)/g
+	)) {
+		const path = match[1].trim();
+		if (/^[a-z][a-z0-9+.-]*:/i.test(path)) continue; // https:, data: ...
+		try {
+			links.push({ index: match.index, path: decodeURI(path) });
+		} catch {
+			links.push({ index: match.index, path });
+		}
+	}
+
+	const paths = links
+		.sort((a, b) => a.index - b.index)
+		.map(link => link.path)
+		.filter(path => getExtension(path) in IMAGE_MIME_TYPES);
+	return [...new Set(paths)];
+}
+
+export interface ImageEmbedResult {
+	images: ChatImage[];
+	/** Embeds that could not be sent: missing, too large or over the limit */
+	skipped: string[];
+}
+
+/**
+ * Read the images embedded in text, resolving links from the note at
+ * sourcePath like Obsidian does
+ */
+export async function readImageEmbeds(
+	app: App,
+	text: string,
+	sourcePath: string
+): Promise<ImageEmbedResult> {
+	const result: ImageEmbedResult = { images: [], skipped: [] };
+
+	for (const link of findImageEmbeds(text)) {
+		const file = app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+		if (
+			!file ||
+			file.stat.size > MAX_IMAGE_BYTES ||
+			result.images.length >= MAX_IMAGES
+		) {
+			result.skipped.push(link);
+			continue;
+		}
+
+		result.images.push({
+			mimeType: IMAGE_MIME_TYPES[file.extension.toLowerCase()],
+			data: arrayBufferToBase64(await app.vault.readBinary(file)),
+		});
+	}
+
+	return result;
+}
@@ -0,0 +1,42 @@
+import { normalizePath } from "obsidian";
+import type { Plugin } from "obsidian";
+
+/**
+ * Path of a file in the plugin's own folder, e.g. "cassettes/default.json"
+ */
+export function getPluginFilePath(
+	plugin: Plugin,
+	relativePath: string
+): string {
+	const { manifest, app } = plugin;
+	const pluginDir =
+		manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`;
+	return normalizePath(`${pluginDir}/${relativePath}`);
+}
+
+/**
+ * Read a plugin file; null when it does not exist
+ */
+export async function readPluginFile(
+	plugin: Plugin,
+	path: string
+): Promise<string | null> {
+	const adapter = plugin.app.vault.adapter;
+	return (await adapter.exists(path)) ? adapter.read(path) : null;
+}
+
+/**
+ * Write a plugin file, creating its folder when needed
+ */
+export async function writePluginFile(
+	plugin: Plugin,
+	path: string,
+	data: string
+): Promise<void> {
+	const adapter = plugin.app.vault.adapter;
+	const folder = path.slice(0, path.lastIndexOf("/"));
+	if (folder && !(await adapter.exists(folder))) {
+		await adapter.mkdir(folder);
+	}
+	await adapter.write(path, data);
+}
@@ -0,0 +1,102 @@
+import {
+	getBackoffDelay,
+	isRetryableError,
+	parseRetryAfter,
+	withRetry,
+} from "./retry";
+
+describe("parseRetryAfter", () => {
+	it("parses delays in seconds", () => {
+		expect(parseRetryAfter("2")).toBe(2000);
+		expect(parseRetryAfter("0")).toBe(0);
+	});
+
+	it("parses HTTP dates relative to now", () => {
+		const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+		expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:05 GMT", now)).toBe(
+			5000
+		);
+	});
+
+	it("caps long delays and ignores invalid values", () => {
+		expect(parseRetryAfter("3600")).toBe(30000);
+		expect(parseRetryAfter("soon")).toBeUndefined();
+		expect(parseRetryAfter("")).toBeUndefined();
+		expect(parseRetryAfter(null)).toBeUndefined();
+	});
+});
+
+describe("getBackoffDelay", () => {
+	it("grows exponentially up to the cap", () => {
+		expect(getBackoffDelay(1)).toBeGreaterThanOrEqual(1000);
+		expect(getBackoffDelay(1)).toBeLessThan(1250);
+		expect(getBackoffDelay(3)).toBeGreaterThanOrEqual(4000);
+		expect(getBackoffDelay(10)).toBe(30000);
+	});
+});
+
+describe("isRetryableError", () => {
+	it("retries rate limits, server errors and network failures", () => {
+		expect(isRetryableError({ status: 429 })).toBe(true);
+		expect(isRetryableError({ status: 503 })).toBe(true);
+		expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+	});
+
+	it("does not retry client errors or aborts", () => {
+		expect(isRetryableError({ status: 400 })).toBe(false);
+		expect(isRetryableError(new Error("boom"))).toBe(false);
+		const abortError = new Error("aborted");
+		abortError.name = "AbortError";
+		expect(isRetryableError(abortError)).toBe(false);
+	});
+});
+
+describe("withRetry", () => {
+	const rateLimit = Object.assign(new Error("429"), {
+		status: 429,
+		headers: { "retry-after": "0" },
+	});
+
+	it("returns the first successful result", async () => {
+		const operation = jest
+			.fn<Promise<string>, []>()
+			.mockRejectedValueOnce(rateLimit)
+			.mockResolvedValueOnce("ok");
+		const onRetry = jest.fn();
+
+		await expect(
+			withRetry(operation, { maxRetries: 2, onRetry })
+		).resolves.toBe("ok");
+		expect(operation).toHaveBeenCalledTimes(2);
+		expect(onRetry).toHaveBeenCalledWith(2, 3);
+	});
+
+	it("gives up after maxRetries", async () => {
+		const operation = jest
+			.fn<Promise<string>, []>()
+			.mockRejectedValue(rateLimit);
+
+		await expect(withRetry(operation, { maxRetries: 1 })).rejects.toBe(
+			rateLimit
+		);
+		expect(operation).toHaveBeenCalledTimes(2);
+	});
+
+	it("stops waiting when aborted", async () => {
+		const controller = new AbortController();
+		const operation = jest
+			.fn<Promise<string>, []>()
+			.mockRejectedValue(
+				Object.assign(new Error("503"), { status: 503 })
+			);
+
+		const promise = withRetry(operation, {
+			maxRetries: 3,
+			signal: controller.signal,
+			onRetry: () => controller.abort(),
+		});
+
+		await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+		expect(operation).toHaveBeenCalledTimes(1);
+	});
+});
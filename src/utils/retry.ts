@@ -0,0 +1,161 @@
+import { isAbortError, throwIfAborted } from "./abort";
+
+// Rate limits, timeouts and temporary server/overload failures
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export interface RetryOptions {
+	/** Extra attempts after the first one */
+	maxRetries: number;
+	signal?: AbortSignal;
+	/** Called before waiting for the next attempt, e.g. (2, 3) */
+	onRetry?: (attempt: number, maxAttempts: number) => void;
+}
+
+/**
+ * Thrown for a retryable HTTP status so fetch-based and SDK-based
+ * requests share the same retry path
+ */
+export class HttpStatusError extends Error {
+	constructor(
+		public status: number,
+		public headers: Headers
+	) {
+		super(`HTTP ${status}`);
+		this.name = "HttpStatusError";
+	}
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now: number = Date.now()
+): number | undefined {
+	if (!value || !value.trim()) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return seconds >= 0
+			? Math.min(seconds * 1000, MAX_DELAY_MS)
+			: undefined;
+	}
+
+	const date = Date.parse(value);
+	if (isNaN(date)) {
+		return undefined;
+	}
+
+	return Math.min(Math.max(0, date - now), MAX_DELAY_MS);
+}
+
+/**
+ * Exponential backoff with jitter: ~1s, ~2s, ~4s... capped at 30s
+ */
+export function getBackoffDelay(retry: number): number {
+	const delay = BASE_DELAY_MS * 2 ** (retry - 1);
+	const jitter = Math.random() * 0.25 * delay;
+	return Math.min(MAX_DELAY_MS, delay + jitter);
+}
+
+/**
+ * Wait for the given time, rejecting early when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	throwIfAborted(signal);
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			globalThis.clearTimeout(timeoutId);
+			try {
+				throwIfAborted(signal);
+			} catch (error) {
+				reject(error as Error);
+			}
+		};
+		const timeoutId = globalThis.setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function getHeader(headers: unknown, name: string): string | null {
+	if (!headers || typeof headers !== "object") {
+		return null;
+	}
+
+	if (typeof (headers as Headers).get === "function") {
+		return (headers as Headers).get(name);
+	}
+
+	const value = (headers as Record<string, unknown>)[name];
+	return typeof value === "string" ? value : null;
+}
+
+/**
+ * Decide whether a failed attempt may be repeated.
+ * SDK errors (OpenAI, Anthropic, Gemini) and HttpStatusError expose a
+ * numeric status; a TypeError from fetch means the request never got a response.
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (isAbortError(error)) {
+		return false;
+	}
+
+	if (error instanceof TypeError) {
+		return true;
+	}
+
+	const status = (error as { status?: unknown } | null)?.status;
+	return typeof status === "number" && isRetryableStatus(status);
+}
+
+/**
+ * Delay requested by the server through Retry-After, if any
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+	const headers = (error as { headers?: unknown } | null)?.headers;
+	return parseRetryAfter(getHeader(headers, "retry-after"));
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ * or the server's Retry-After delay.
+ */
+export async function withRetry<T>(
+	operation: () => Promise<T>,
+	options: RetryOptions
+): Promise<T> {
+	const maxAttempts = Math.max(0, options.maxRetries) + 1;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation();
+		} catch (error) {
+			if (
+				attempt >= maxAttempts ||
+				options.signal?.aborted ||
+				!isRetryableError(error)
+			) {
+				throw error;
+			}
+
+			options.onRetry?.(attempt + 1, maxAttempts);
+			await sleep(
+				getRetryAfterMs(error) ?? getBackoffDelay(attempt),
+				options.signal
+			);
+		}
+	}
+}